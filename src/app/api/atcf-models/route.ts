@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadModelTracks } from '@/lib/atcfDecks';
+
+// Latest model guidance tracks for one storm from its ATCF a-deck
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const stormId = searchParams.get('stormId');
+    if (!stormId || !/^[a-z]{2}\d{6}$/i.test(stormId)) {
+      return NextResponse.json({ error: 'stormId required, e.g. al052019' }, { status: 400 });
+    }
+
+    const modelTracks = await loadModelTracks(stormId, searchParams.get('stormName') ?? stormId.toUpperCase());
+    return NextResponse.json({ modelTracks });
+
+  } catch {
+    return NextResponse.json({ error: 'Failed to read a-deck' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { StormData } from '@/types';
+import { loadBestTrackDecks, loadModelTracks } from '@/lib/atcfDecks';
+import { currentBestTrackToStormData } from '@/lib/bestTrack';
+import { APP_CONFIG } from '@/config/app';
+
+// Active storms in the configured non-NHC basins, from ATCF b-decks, with their a-deck guidance
+export async function GET() {
+  try {
+    const { ENABLED, BASINS, ACTIVE_HOURS } = APP_CONFIG.HURRICANE_DATA.ATCF;
+    const stormData: StormData = { cones: [], tracks: [], windFields: [], windProbabilities: [], watchesWarnings: [], modelTracks: [] };
+    if (!ENABLED) return NextResponse.json(stormData);
+
+    const activeSince = Date.now() - ACTIVE_HOURS * 60 * 60 * 1000;
+    const storms = (await loadBestTrackDecks()).filter(storm =>
+      (BASINS as readonly string[]).includes(storm.basin) &&
+      new Date(storm.fixes[storm.fixes.length - 1].time).getTime() >= activeSince
+    );
+
+    for (const storm of storms) {
+      const current = currentBestTrackToStormData(storm);
+      stormData.cones.push(...current.cones);
+      stormData.tracks.push(...current.tracks);
+      stormData.windFields.push(...current.windFields);
+      stormData.modelTracks.push(...await loadModelTracks(storm.id, storm.name));
+    }
+
+    return NextResponse.json(stormData);
+
+  } catch {
+    return NextResponse.json({ error: 'Failed to read ATCF decks' }, { status: 500 });
+  }
+}
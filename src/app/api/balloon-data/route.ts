@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { RECORDED_AT_HEADER, upstreamFetch } from '@/lib/upstreamFixtures';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,7 +26,7 @@ export async function GET(request: NextRequest) {
     const windborneUrl = `https://a.windbornesystems.com/treasure/${fileName}.json`;
     
     // Fetch data from WindBorne API
-    const response = await fetch(windborneUrl, {
+    const response = await upstreamFetch(windborneUrl, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
@@ -47,12 +48,15 @@ export async function GET(request: NextRequest) {
     }
 
     const data = await response.json();
+    const recordedAt = response.headers.get(RECORDED_AT_HEADER);
 
     // Return the data with proper headers
     return NextResponse.json(data, {
       headers: {
         'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
         'Content-Type': 'application/json',
+        // Original timestamp when serving a recorded response
+        ...(recordedAt ? { [RECORDED_AT_HEADER]: recordedAt } : {}),
       },
     });
 
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getReplayBalloonTrails } from '@/lib/windborne';
+
+export async function GET() {
+  try {
+    const { trails, report } = await getReplayBalloonTrails();
+
+    if (report.hoursReceived === 0) {
+      return NextResponse.json(
+        { error: 'No replay files found. Place 00.json through 23.json in the replay directory.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(trails, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Type': 'application/json',
+      },
+    });
+
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to replay local balloon data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
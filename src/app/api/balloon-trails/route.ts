@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { filterBalloonTrails } from '@/lib/balloonData';
+import { getArchivedBalloonTrails, getCachedBalloonTrails } from '@/lib/windborne';
+import { APP_CONFIG, isArchiveEnabled } from '@/config/app';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const since = searchParams.get('since');
+    const bboxParam = searchParams.get('bbox');
+    const idsParam = searchParams.get('ids');
+
+    // Validate since parameter (ISO timestamp)
+    if (since && isNaN(new Date(since).getTime())) {
+      return NextResponse.json(
+        { error: 'since must be an ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    // Validate from/to parameters (ISO timestamps, archive range)
+    const fromTime = from ? new Date(from).getTime() : null;
+    const toTime = to ? new Date(to).getTime() : Date.now();
+    if ((fromTime !== null && isNaN(fromTime)) || isNaN(toTime)) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO timestamps' },
+        { status: 400 }
+      );
+    }
+
+    // Validate bbox parameter (minLon,minLat,maxLon,maxLat)
+    let bbox: [number, number, number, number] | undefined;
+    if (bboxParam) {
+      const values = bboxParam.split(',').map(Number);
+      if (values.length !== 4 || values.some(isNaN)) {
+        return NextResponse.json(
+          { error: 'bbox must be minLon,minLat,maxLon,maxLat' },
+          { status: 400 }
+        );
+      }
+      bbox = [values[0], values[1], values[2], values[3]];
+    }
+
+    const ids = idsParam
+      ? idsParam.split(',').map(id => id.trim()).filter(id => id.length > 0)
+      : undefined;
+
+    if (fromTime !== null || to) {
+      if (!isArchiveEnabled()) {
+        return NextResponse.json(
+          { error: 'Trajectory archive is disabled' },
+          { status: 404 }
+        );
+      }
+
+      const rangeStart = fromTime ?? toTime - 24 * 60 * 60 * 1000;
+      const maxRangeMs = APP_CONFIG.ARCHIVE.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000;
+      if (rangeStart > toTime || toTime - rangeStart > maxRangeMs) {
+        return NextResponse.json(
+          { error: `from must precede to by at most ${APP_CONFIG.ARCHIVE.MAX_RANGE_DAYS} days` },
+          { status: 400 }
+        );
+      }
+
+      const { trails: archivedTrails } = await getArchivedBalloonTrails(rangeStart, toTime);
+
+      return NextResponse.json(filterBalloonTrails(archivedTrails, { since: since ?? undefined, bbox, ids }), {
+        headers: {
+          'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const { trails, fetchedAt } = await getCachedBalloonTrails();
+
+    if (trails.length === 0) {
+      return NextResponse.json(
+        { error: 'No balloon data available from WindBorne API' },
+        { status: 502 }
+      );
+    }
+
+    const filteredTrails = filterBalloonTrails(trails, { since: since ?? undefined, bbox, ids });
+
+    return NextResponse.json(filteredTrails, {
+      headers: {
+        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+        'Content-Type': 'application/json',
+        'X-Data-Fetched-At': new Date(fetchedAt).toISOString(),
+      },
+    });
+
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to assemble balloon trails',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
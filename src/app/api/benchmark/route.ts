@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runProximityBenchmark } from '@/lib/proximityBenchmark';
+
+const DEFAULT_BALLOONS = 5000;
+const MAX_BALLOONS = 20000;
+
+// Development only: the brute-force run ties up the server for seconds at fleet scale
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const balloons = Number(request.nextUrl.searchParams.get('balloons') ?? DEFAULT_BALLOONS);
+  if (!Number.isInteger(balloons) || balloons < 1 || balloons > MAX_BALLOONS) {
+    return NextResponse.json({ error: `balloons must be an integer from 1 to ${MAX_BALLOONS}` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(runProximityBenchmark(balloons));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Benchmark failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getCachedBalloonTrails } from '@/lib/windborne';
+
+export async function GET() {
+  try {
+    // Report for the same cached assembly that /api/balloon-trails serves
+    const { report } = await getCachedBalloonTrails();
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+        'Content-Type': 'application/json',
+      },
+    });
+
+  } catch (error) {
+    return NextResponse.json(
+      { 
+        error: 'Failed to build data quality report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
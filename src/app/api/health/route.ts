@@ -1,15 +1,20 @@
 import { NextResponse } from 'next/server';
+import { getCachedBalloonTrails } from '@/lib/windborne';
+import { getUpstreamMode, upstreamFetch } from '@/lib/upstreamFixtures';
 
 export async function GET() {
   try {
     // Test connectivity to WindBorne API
-    const testResponse = await fetch('https://a.windbornesystems.com/treasure/00.json', {
+    const testResponse = await upstreamFetch('https://a.windbornesystems.com/treasure/00.json', {
       method: 'HEAD', // Only get headers, not the full response
       headers: {
         'User-Agent': 'BalloonRiskMap/1.0',
       },
     });
 
+    // How much of the fleet the latest assembled trails actually cover
+    const { report } = await getCachedBalloonTrails();
+
     return NextResponse.json({
       status: 'healthy',
       timestamp: new Date().toISOString(),
@@ -18,6 +23,8 @@ export async function GET() {
         status: testResponse.status,
         statusText: testResponse.statusText,
       },
+      data_quality: report,
+      upstream_mode: getUpstreamMode(),
       backend: {
         status: 'operational',
         message: 'Next.js API routes are working correctly'
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoricalStorm, getHistoricalStorms } from '@/lib/historicalStorms';
+import { bestTrackToStormData, summarizeHistoricalStorm } from '@/lib/bestTrack';
+
+// Best-track storms from the local HURDAT2 archive. Without an id this lists the storms;
+// with one it returns the storm data between from and to (default: the whole lifetime).
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+
+    if (!id) {
+      const storms = await getHistoricalStorms();
+      return NextResponse.json(storms.map(summarizeHistoricalStorm));
+    }
+
+    const storm = await getHistoricalStorm(id);
+    if (!storm) return NextResponse.json({ error: 'Storm not found' }, { status: 404 });
+
+    const summary = summarizeHistoricalStorm(storm);
+    const from = new Date(searchParams.get('from') ?? summary.start).getTime();
+    const to = new Date(searchParams.get('to') ?? summary.end).getTime();
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return NextResponse.json({ error: 'from and to must be ISO timestamps with from before to' }, { status: 400 });
+    }
+
+    return NextResponse.json({ storm: summary, ...bestTrackToStormData(storm, from, to) });
+
+  } catch {
+    return NextResponse.json({ error: 'Failed to load HURDAT2 archive' }, { status: 500 });
+  }
+}
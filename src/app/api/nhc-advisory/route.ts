@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { upstreamFetch } from '@/lib/upstreamFixtures';
+import { NHC_URL_ERROR, parseNhcUrl } from '@/lib/nhcUrls';
+import { parseForecastAdvisory } from '@/lib/windRadii';
+
+// Forecast advisory (TCM) positions with their 34/50/64 kt wind radii
+export async function GET(request: NextRequest) {
+  try {
+    const advisoryUrl = parseNhcUrl(request.nextUrl.searchParams.get('url'));
+    if (!advisoryUrl) return NextResponse.json({ error: NHC_URL_ERROR }, { status: 400 });
+
+    const response = await upstreamFetch(advisoryUrl, { next: { revalidate: 1800 } });
+    if (!response.ok) return NextResponse.json({ error: 'Fetch failed' }, { status: response.status });
+
+    const positions = parseForecastAdvisory(await response.text());
+    if (positions.length === 0) return NextResponse.json({ error: 'No positions found' }, { status: 422 });
+
+    return NextResponse.json({ positions });
+
+  } catch {
+    return NextResponse.json({ error: 'Parse failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { upstreamFetch } from '@/lib/upstreamFixtures';
+import { NHC_URL_ERROR, parseNhcUrl } from '@/lib/nhcUrls';
+import { shapefileZipToFeatures } from '@/lib/shapefile';
+
+export async function GET(request: NextRequest) {
+  try {
+    const zipUrl = parseNhcUrl(request.nextUrl.searchParams.get('url'));
+    if (!zipUrl) return NextResponse.json({ error: NHC_URL_ERROR }, { status: 400 });
+    // Optional layer name filter, e.g. '5day_pgn' for just the cone polygon
+    const layer = request.nextUrl.searchParams.get('layer')?.toLowerCase();
+
+    const response = await upstreamFetch(zipUrl);
+    if (!response.ok) return NextResponse.json({ error: 'Fetch failed' }, { status: response.status });
+
+    // Parse every shapefile layer in the archive
+    const features = await shapefileZipToFeatures(await response.arrayBuffer());
+    if (!features) return NextResponse.json({ error: 'No shapefile found' }, { status: 422 });
+
+    return NextResponse.json({
+      type: 'FeatureCollection',
+      features: layer
+        ? features.filter(feature => String(feature.properties?.layer).toLowerCase().includes(layer))
+        : features
+    });
+
+  } catch {
+    return NextResponse.json({ error: 'Parse failed' }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
+import { RECORDED_AT_HEADER, upstreamFetch } from '@/lib/upstreamFixtures';
 
 export async function GET() {
   try {
     // Fetch current storms from NHC
-    const response = await fetch('https://www.nhc.noaa.gov/CurrentStorms.json', {
+    const response = await upstreamFetch('https://www.nhc.noaa.gov/CurrentStorms.json', {
       method: 'GET',
       headers: {
         'User-Agent': 'BalloonRiskMap/1.0',
@@ -21,6 +22,7 @@ export async function GET() {
     }
 
     const data = await response.json();
+    const recordedAt = response.headers.get(RECORDED_AT_HEADER);
     
     // The NHC API returns different formats, handle both
     let storms = [];
@@ -39,6 +41,8 @@ export async function GET() {
       headers: {
         'Cache-Control': 'public, max-age=1800', // Cache for 30 minutes
         'Content-Type': 'application/json',
+        // Original timestamp when serving a recorded response
+        ...(recordedAt ? { [RECORDED_AT_HEADER]: recordedAt } : {}),
       },
     });
 
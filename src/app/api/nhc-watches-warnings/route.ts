@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { upstreamFetch } from '@/lib/upstreamFixtures';
+import { NHC_URL_ERROR, parseNhcUrl } from '@/lib/nhcUrls';
+import { kmzToFeatures } from '@/lib/kmz';
+import { toWatchesWarnings } from '@/lib/watchesWarnings';
+
+// Coastal watch and warning segments of one storm as GeoJSON lines
+export async function GET(request: NextRequest) {
+  try {
+    const kmzUrl = parseNhcUrl(request.nextUrl.searchParams.get('url'));
+    if (!kmzUrl) return NextResponse.json({ error: NHC_URL_ERROR }, { status: 400 });
+    const stormId = request.nextUrl.searchParams.get('stormId') ?? 'storm';
+    const stormName = request.nextUrl.searchParams.get('stormName') ?? '';
+
+    const response = await upstreamFetch(kmzUrl, { next: { revalidate: 1800 } });
+    if (!response.ok) return NextResponse.json({ error: 'Fetch failed' }, { status: response.status });
+
+    const features = await kmzToFeatures(await response.arrayBuffer());
+    if (!features) return NextResponse.json({ error: 'No KML found' }, { status: 422 });
+
+    const segments = toWatchesWarnings(features, stormId, stormName);
+
+    return NextResponse.json({
+      type: 'FeatureCollection',
+      features: segments.map(({ geometry, ...properties }) => ({
+        type: 'Feature',
+        properties,
+        geometry
+      }))
+    });
+
+  } catch {
+    return NextResponse.json({ error: 'Parse failed' }, { status: 500 });
+  }
+}
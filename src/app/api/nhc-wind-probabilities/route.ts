@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { upstreamFetch } from '@/lib/upstreamFixtures';
+import { NHC_URL_ERROR, parseNhcUrl } from '@/lib/nhcUrls';
+import { kmzToFeatures } from '@/lib/kmz';
+import { WIND_PROBABILITY_KMZ_URLS, toProbabilityContours } from '@/lib/windProbabilities';
+import { WindThreshold } from '@/types';
+
+// Wind speed probability contours as GeoJSON, one polygon per percentage band
+export async function GET(request: NextRequest) {
+  try {
+    const threshold = parseInt(request.nextUrl.searchParams.get('threshold') ?? '34') as WindThreshold;
+    if (!WIND_PROBABILITY_KMZ_URLS[threshold]) {
+      return NextResponse.json({ error: 'threshold must be 34, 50 or 64' }, { status: 400 });
+    }
+
+    const urlParam = request.nextUrl.searchParams.get('url');
+    const kmzUrl = urlParam === null ? WIND_PROBABILITY_KMZ_URLS[threshold] : parseNhcUrl(urlParam);
+    if (!kmzUrl) return NextResponse.json({ error: NHC_URL_ERROR }, { status: 400 });
+
+    const response = await upstreamFetch(kmzUrl, { next: { revalidate: 1800 } });
+    if (!response.ok) return NextResponse.json({ error: 'Fetch failed' }, { status: response.status });
+
+    const features = await kmzToFeatures(await response.arrayBuffer());
+    if (!features) return NextResponse.json({ error: 'No KML found' }, { status: 422 });
+
+    const contours = toProbabilityContours(features, threshold);
+
+    return NextResponse.json({
+      type: 'FeatureCollection',
+      features: contours.map(({ geometry, ...properties }) => ({
+        type: 'Feature',
+        properties,
+        geometry
+      }))
+    });
+
+  } catch {
+    return NextResponse.json({ error: 'Parse failed' }, { status: 500 });
+  }
+}
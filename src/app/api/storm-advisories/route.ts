@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidStormId, listAdvisoryStorms, readStormAdvisories } from '@/lib/advisoryArchive';
+
+// Advisory history per storm. Without a stormId this lists the storms with history;
+// with one it returns that storm's advisories, oldest first.
+export async function GET(request: NextRequest) {
+  try {
+    const stormId = request.nextUrl.searchParams.get('stormId');
+
+    if (!stormId) {
+      return NextResponse.json(await listAdvisoryStorms());
+    }
+
+    if (!isValidStormId(stormId)) {
+      return NextResponse.json({ error: 'Invalid stormId' }, { status: 400 });
+    }
+
+    return NextResponse.json(await readStormAdvisories(stormId));
+
+  } catch {
+    return NextResponse.json({ error: 'Failed to read advisory history' }, { status: 500 });
+  }
+}
+
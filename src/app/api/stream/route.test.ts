@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { LiveStreamEvent } from '@/types';
+
+const subscription = vi.hoisted(() => ({
+  listener: null as ((event: LiveStreamEvent) => void) | null,
+  unsubscribe: vi.fn()
+}));
+
+vi.mock('@/lib/liveEvents', () => ({
+  subscribeToLiveEvents: (listener: (event: LiveStreamEvent) => void) => {
+    subscription.listener = listener;
+    return subscription.unsubscribe;
+  }
+}));
+
+import { GET } from '@/app/api/stream/route';
+
+describe('GET /api/stream', () => {
+  it('frames live events as server-sent events and unsubscribes on abort', async () => {
+    const abort = new AbortController();
+    const response = await GET(new NextRequest('http://localhost/api/stream', { signal: abort.signal }));
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const read = async () => decoder.decode((await reader.read()).value);
+
+    expect(await read()).toBe('retry: 10000\n\n');
+
+    subscription.listener!({ type: 'alert-new', data: { balloonId: 'a' } } as LiveStreamEvent);
+    expect(await read()).toBe('event: alert-new\ndata: {"balloonId":"a"}\n\n');
+
+    abort.abort();
+    expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
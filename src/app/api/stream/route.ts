@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { LiveStreamEvent } from '@/types';
+import { subscribeToLiveEvents } from '@/lib/liveEvents';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 25 * 1000; // Keeps proxies from closing an idle connection
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Server-Sent Events framing: the event name is the type, the payload is JSON
+      const unsubscribe = subscribeToLiveEvents((event: LiveStreamEvent) => {
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      }, request.nextUrl.origin);
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send('retry: 10000\n\n');
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
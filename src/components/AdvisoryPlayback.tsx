@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { AdvisoryRisk, AdvisoryStormSummary, StormAdvisory } from '@/types';
+import { fetchAdvisoryStorms, fetchStormAdvisories } from '@/lib/stormData';
+
+interface AdvisoryPlaybackProps {
+  advisories: StormAdvisory[] | null;
+  index: number;
+  risks: AdvisoryRisk[];
+  onLoad: (advisories: StormAdvisory[]) => void;
+  onIndexChange: (index: number) => void;
+  onExit: () => void;
+}
+
+const PLAYBACK_STEP_MS = 1500;
+const MAX_LISTED_BALLOONS = 5;
+
+const formatIssuance = (iso: string) => {
+  const time = new Date(iso);
+  return isNaN(time.getTime()) ? iso : `${time.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+};
+
+const listBalloons = (balloonIds: string[]) =>
+  balloonIds.slice(0, MAX_LISTED_BALLOONS).join(', ') +
+  (balloonIds.length > MAX_LISTED_BALLOONS ? ` +${balloonIds.length - MAX_LISTED_BALLOONS} more` : '');
+
+const AdvisoryPlayback: React.FC<AdvisoryPlaybackProps> = ({
+  advisories,
+  index,
+  risks,
+  onLoad,
+  onIndexChange,
+  onExit
+}) => {
+  const [storms, setStorms] = useState<AdvisoryStormSummary[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const count = advisories?.length ?? 0;
+
+  // Step forward on a timer, stopping at the latest advisory
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (index >= count - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onIndexChange(index + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, count, onIndexChange]);
+
+  const open = async () => {
+    setIsOpen(true);
+    // Re-read each time, the history grows while the app runs
+    setStorms(null);
+    setStorms(await fetchAdvisoryStorms());
+  };
+
+  const selectStorm = async (stormId: string) => {
+    if (!stormId) return;
+    const history = await fetchStormAdvisories(stormId);
+    if (history.length > 0) {
+      setIsPlaying(false);
+      onLoad(history);
+    }
+  };
+
+  if (advisories && count > 0) {
+    const advisory = advisories[Math.min(index, count - 1)];
+    const risk = risks[Math.min(index, count - 1)];
+    // When each balloon first became at risk, up to the shown advisory
+    const firstAtRisk = risks
+      .slice(0, index + 1)
+      .map((r, i) => ({ advisory: advisories[i], balloonIds: r.newlyAtRiskBalloonIds }))
+      .filter(entry => entry.balloonIds.length > 0);
+
+    return (
+      <div className="absolute bottom-4 bg-white rounded-lg shadow-lg p-3 text-xs border" style={{ right: '560px', width: '230px' }}>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-bold text-black text-xs">⏯️ {advisory.stormName} Advisories</h3>
+          <button onClick={() => { setIsPlaying(false); onExit(); }} className="text-gray-500 hover:text-gray-700">×</button>
+        </div>
+        <p className="text-black">
+          Advisory {advisory.advisoryNumber} ({index + 1} of {count})
+        </p>
+        <p className="text-gray-600 mb-2">{formatIssuance(advisory.issuance)}</p>
+        <input
+          type="range"
+          min={0}
+          max={count - 1}
+          value={index}
+          onChange={(e) => { setIsPlaying(false); onIndexChange(Number(e.target.value)); }}
+          className="w-full mb-2"
+        />
+        <div className="flex space-x-1 mb-2">
+          <button
+            disabled={index === 0}
+            onClick={() => { setIsPlaying(false); onIndexChange(index - 1); }}
+            className="flex-1 bg-gray-200 text-black px-2 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            ◀ Prev
+          </button>
+          <button
+            disabled={count < 2}
+            onClick={() => {
+              if (!isPlaying && index >= count - 1) onIndexChange(0);
+              setIsPlaying(!isPlaying);
+            }}
+            className="flex-1 bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <button
+            disabled={index >= count - 1}
+            onClick={() => { setIsPlaying(false); onIndexChange(index + 1); }}
+            className="flex-1 bg-gray-200 text-black px-2 py-1 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            Next ▶
+          </button>
+        </div>
+        {risk && (
+          <>
+            <p className="text-black">
+              At risk: <strong>{risk.atRiskBalloonIds.length}</strong> balloon{risk.atRiskBalloonIds.length === 1 ? '' : 's'}
+            </p>
+            {risk.newlyAtRiskBalloonIds.length > 0 && (
+              <p className="text-red-600">New this advisory: {listBalloons(risk.newlyAtRiskBalloonIds)}</p>
+            )}
+          </>
+        )}
+        {firstAtRisk.length > 0 && (
+          <div className="mt-2 max-h-24 overflow-y-auto">
+            <p className="font-medium text-black">First at risk</p>
+            {firstAtRisk.map(entry => (
+              <p key={`${entry.advisory.advisoryNumber}-${entry.advisory.issuance}`} className="text-gray-600">
+                Adv {entry.advisory.advisoryNumber}: {listBalloons(entry.balloonIds)}
+              </p>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={() => { setIsPlaying(false); onExit(); }}
+          className="w-full mt-2 bg-gray-600 text-white px-2 py-1 rounded hover:bg-gray-700 transition-colors text-xs"
+        >
+          Back to Live Data
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={open}
+        className="absolute bottom-4 bg-white rounded-lg shadow-lg px-3 py-2 text-xs border text-black hover:bg-gray-50"
+        style={{ right: '560px', width: '230px' }}
+      >
+        ⏯️ Advisory History
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 bg-white rounded-lg shadow-lg p-3 text-xs border" style={{ right: '560px', width: '230px' }}>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-black text-xs">⏯️ Advisory History</h3>
+        <button onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-gray-700">×</button>
+      </div>
+      {storms === null ? (
+        <p className="text-gray-600">Loading storms...</p>
+      ) : storms.length === 0 ? (
+        <p className="text-gray-600">No advisories recorded yet</p>
+      ) : (
+        <select
+          defaultValue=""
+          onChange={(e) => selectStorm(e.target.value)}
+          className="w-full border rounded px-1 py-0.5 text-black"
+        >
+          <option value="">Select a storm</option>
+          {storms.map(storm => (
+            <option key={storm.stormId} value={storm.stormId}>
+              {storm.stormName} ({storm.stormId}) – {storm.advisoryCount} advisor{storm.advisoryCount === 1 ? 'y' : 'ies'}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default AdvisoryPlayback;
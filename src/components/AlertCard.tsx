@@ -1,5 +1,6 @@
 import React from 'react';
 import { ProximityAlert } from '@/types';
+import { ALTITUDE_BAND_LABELS } from '@/lib/verticalRisk';
 
 interface AlertCardProps {
   alert: ProximityAlert;
@@ -16,9 +17,15 @@ const AlertCard: React.FC<AlertCardProps> = ({ alert, onClose }) => (
       <p><strong>Balloon:</strong> {alert.balloonId}</p>
       <p><strong>Storm:</strong> {alert.stormName}</p>
       <p><strong>Closest Distance:</strong> {alert.closestDistance.toFixed(1)} km</p>
-      <p><strong>Altitude:</strong> {(alert.altitude / 1000).toFixed(1)} km</p>
+      <p><strong>Altitude:</strong> {alert.altitude.toFixed(1)} km</p>
+      <p>
+        <strong>Altitude Band:</strong> {ALTITUDE_BAND_LABELS[alert.verticalRisk.band]} (weight {alert.verticalRisk.weight})
+      </p>
       <p><strong>Time:</strong> {new Date(alert.timestamp).toLocaleString()}</p>
       <p><strong>Inside Forecast Cone:</strong> {alert.insideForcastCone ? 'Yes' : 'No'}</p>
+      {alert.windField && (
+        <p className="text-red-600 font-medium">Inside {alert.windField} kt wind field</p>
+      )}
     </div>
   </div>
 );
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { BacktestWindow, HistoricalStormSummary } from '@/types';
+import { fetchHistoricalStorms } from '@/lib/stormData';
+import { APP_CONFIG } from '@/config/app';
+
+interface BacktestPanelProps {
+  backtest: BacktestWindow | null;
+  onStart: (backtest: BacktestWindow) => void;
+  onExit: () => void;
+}
+
+// datetime-local inputs are read and written as UTC
+const toInputValue = (iso: string) => iso.slice(0, 16);
+const fromInputValue = (value: string) => new Date(`${value}:00Z`).toISOString();
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({
+  backtest,
+  onStart,
+  onExit
+}) => {
+  const [storms, setStorms] = useState<HistoricalStormSummary[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [stormId, setStormId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [useArchivedBalloons, setUseArchivedBalloons] = useState(false);
+
+  const open = async () => {
+    setIsOpen(true);
+    if (storms === null) setStorms(await fetchHistoricalStorms());
+  };
+
+  const selectStorm = (id: string) => {
+    setStormId(id);
+    const storm = storms?.find(s => s.id === id);
+    if (storm) {
+      setFrom(toInputValue(storm.start));
+      setTo(toInputValue(storm.end));
+    }
+  };
+
+  const query = search.trim().toUpperCase();
+  const matchingStorms = (storms ?? [])
+    .filter(storm => !query || storm.name.includes(query) || storm.id.includes(query))
+    .slice(0, 200);
+  const selectedStorm = storms?.find(storm => storm.id === stormId);
+
+  // The trails route only serves archive ranges up to MAX_RANGE_DAYS
+  const rangeMs = from && to ? new Date(`${to}:00Z`).getTime() - new Date(`${from}:00Z`).getTime() : 0;
+  const error = !from || !to
+    ? null
+    : rangeMs < 0
+      ? 'Start must be before end'
+      : useArchivedBalloons && rangeMs > APP_CONFIG.ARCHIVE.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000
+        ? `Archived balloons cover at most ${APP_CONFIG.ARCHIVE.MAX_RANGE_DAYS} days`
+        : null;
+
+  if (backtest) {
+    return (
+      <div className="absolute bottom-4 bg-white rounded-lg shadow-lg p-3 text-xs border" style={{ right: '320px', width: '230px' }}>
+        <h3 className="font-bold mb-1 text-black text-xs">🕘 Backtest: {backtest.storm.name} {backtest.storm.start.slice(0, 4)}</h3>
+        <p className="text-gray-600">
+          {backtest.from.slice(0, 16).replace('T', ' ')} – {backtest.to.slice(0, 16).replace('T', ' ')} UTC
+        </p>
+        <p className="text-gray-600 mb-2">
+          Balloons: {backtest.useArchivedBalloons ? 'archived for this window' : 'current source'}
+        </p>
+        <button
+          onClick={onExit}
+          className="w-full bg-gray-600 text-white px-2 py-1 rounded hover:bg-gray-700 transition-colors text-xs"
+        >
+          Back to Live Data
+        </button>
+      </div>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={open}
+        className="absolute bottom-4 bg-white rounded-lg shadow-lg px-3 py-2 text-xs border text-black hover:bg-gray-50"
+        style={{ right: '320px', width: '230px' }}
+      >
+        🕘 Backtest Historical Storm
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 bg-white rounded-lg shadow-lg p-3 text-xs border" style={{ right: '320px', width: '230px' }}>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-black text-xs">🕘 Backtest Historical Storm</h3>
+        <button onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-gray-700">×</button>
+      </div>
+      {storms === null ? (
+        <p className="text-gray-600">Loading storms...</p>
+      ) : storms.length === 0 ? (
+        <p className="text-gray-600">No HURDAT2 files found in data/hurdat2</p>
+      ) : (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name or ID"
+            className="w-full border rounded px-1 py-0.5 text-black"
+          />
+          <select
+            value={stormId}
+            onChange={(e) => selectStorm(e.target.value)}
+            className="w-full border rounded px-1 py-0.5 text-black"
+          >
+            <option value="">Select a storm</option>
+            {matchingStorms.map(storm => (
+              <option key={storm.id} value={storm.id}>
+                {storm.name} {storm.start.slice(0, 4)} ({storm.id}){storm.maxWindKt !== null ? ` – ${storm.maxWindKt} kt` : ''}
+              </option>
+            ))}
+          </select>
+          {selectedStorm && (
+            <>
+              <label className="block text-black">
+                From (UTC)
+                <input
+                  type="datetime-local"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="w-full border rounded px-1 py-0.5"
+                />
+              </label>
+              <label className="block text-black">
+                To (UTC)
+                <input
+                  type="datetime-local"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="w-full border rounded px-1 py-0.5"
+                />
+              </label>
+              <label className="flex items-center text-black cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useArchivedBalloons}
+                  onChange={(e) => setUseArchivedBalloons(e.target.checked)}
+                  className="mr-1"
+                />
+                Load archived balloons for this window
+              </label>
+              {error && <p className="text-red-600">{error}</p>}
+              <button
+                disabled={!from || !to || !!error}
+                onClick={() => onStart({
+                  storm: selectedStorm,
+                  from: fromInputValue(from),
+                  to: fromInputValue(to),
+                  useArchivedBalloons
+                })}
+                className="w-full bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-700 transition-colors text-xs disabled:opacity-50"
+              >
+                Run Backtest
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
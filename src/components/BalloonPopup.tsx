@@ -8,6 +8,11 @@ interface BalloonPopupProps {
     coordinates: [number, number];
     pastIntersection: boolean;
     futureIntersection: boolean;
+    tsWindProbability?: number;
+    warningCrossing?: string;
+    modelAgreement?: string;
+    firstAtRisk?: string;
+    verticalRisk?: string;
   } | null;
   onClose: () => void;
 }
@@ -32,6 +37,21 @@ const BalloonPopup: React.FC<BalloonPopupProps> = ({ selectedBalloon, onClose })
         {selectedBalloon.futureIntersection && (
           <p className="text-red-600 font-medium">🚨 Future Hurricane Risk</p>
         )}
+        {selectedBalloon.verticalRisk && (
+          <p className="text-black"><strong>Altitude Band:</strong> {selectedBalloon.verticalRisk}</p>
+        )}
+        {selectedBalloon.firstAtRisk && (
+          <p className="text-black"><strong>First at Risk:</strong> {selectedBalloon.firstAtRisk}</p>
+        )}
+        {selectedBalloon.modelAgreement && (
+          <p className="text-black"><strong>Model Agreement:</strong> {selectedBalloon.modelAgreement}</p>
+        )}
+        {selectedBalloon.warningCrossing && (
+          <p className="text-red-600 font-medium">🏖️ Path crosses {selectedBalloon.warningCrossing}</p>
+        )}
+        {selectedBalloon.tsWindProbability !== undefined && (
+          <p className="text-black"><strong>34 kt Wind Probability:</strong> {selectedBalloon.tsWindProbability}%</p>
+        )}
       </div>
     </div>
   );
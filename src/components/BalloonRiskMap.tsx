@@ -1,16 +1,51 @@
 'use client';
 
-import React, { useEffect, useState, useRef } from 'react';
-import Map, { Source, Layer, MapRef } from 'react-map-gl';
-import { BalloonTrail, StormCone, StormTrack, ProximityAlert, HurricaneIntersection, FilterMode } from '@/types';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import Map, { Source, Layer, MapRef, Popup, MapLayerMouseEvent } from 'react-map-gl';
+import {
+  BalloonTrail,
+  StormData,
+  ProximityAlert,
+  HurricaneIntersection,
+  FilterMode,
+  DataQualityReport,
+  ForecastPoint,
+  WarningCrossing,
+  BacktestWindow,
+  StormBasin,
+  StormAdvisory,
+  AdvisoryRisk,
+  AltitudeBand
+} from '@/types';
 import { fetchBalloonData, generateMockBalloonData } from '@/lib/balloonData';
-import { fetchActiveStorms, generateMockStormData } from '@/lib/stormData';
-import { getRealHurricanes, getRealBalloons } from '@/config/app';
+import { BalloonSourceId, getBalloonDataSource, getDefaultBalloonSourceId } from '@/lib/balloonSources';
+import {
+  EMPTY_STORM_DATA,
+  fetchActiveStorms,
+  fetchHistoricalStormData,
+  fetchAdvisoryHistory,
+  generateMockStormData
+} from '@/lib/stormData';
+import { APP_CONFIG, getRealHurricanes, isLiveRefreshEnabled } from '@/config/app';
+import {
+  RefreshHighlights,
+  computeRefreshHighlights,
+  diffTrails,
+  getLatestTimestamp,
+  mergeResults,
+  mergeTrailUpdates
+} from '@/lib/liveRefresh';
+import { subscribeToLiveStream } from '@/lib/liveStream';
+import { runAdvisoryRiskAnalysis, runAnalysis } from '@/lib/analysisWorker';
+import { COASTAL_ALERT_LABELS } from '@/lib/watchesWarnings';
+import { BASIN_LABELS } from '@/lib/atcf';
+import { ALTITUDE_BANDS, ALTITUDE_BAND_LABELS } from '@/lib/verticalRisk';
+import { splitLineAtAntimeridian, splitPolygonAtAntimeridian } from '@/lib/geometry';
 import { 
-  analyzeProximity, 
-  analyzeHurricaneIntersections,
+  compareAlerts,
   getBalloonsByIntersectionType,
-  getRecentTrajectory
+  getRecentTrajectory,
+  mergeAdvisoryRisks
 } from '@/lib/proximityAnalysis';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
@@ -23,6 +58,9 @@ import FilterControls from './FilterControls';
 import AnimationControls from './AnimationControls';
 import BalloonPopup from './BalloonPopup';
 import AlertCard from './AlertCard';
+import TrajectoryImport from './TrajectoryImport';
+import BacktestPanel from './BacktestPanel';
+import AdvisoryPlayback from './AdvisoryPlayback';
 
 
 
@@ -33,14 +71,25 @@ const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN;
 const BalloonRiskMap: React.FC = () => {
   const mapRef = useRef<MapRef>(null);
   const [balloonTrails, setBalloonTrails] = useState<BalloonTrail[]>([]);
-  const [stormData, setStormData] = useState<{ cones: StormCone[], tracks: StormTrack[] }>({ cones: [], tracks: [] });
-  const [proximityAlerts, setProximityAlerts] = useState<ProximityAlert[]>([]);
+  const [importedTrails, setImportedTrails] = useState<BalloonTrail[]>([]);
+  const [stormData, setStormData] = useState<StormData>(EMPTY_STORM_DATA);
+  const [analyzedAlerts, setAnalyzedAlerts] = useState<ProximityAlert[]>([]);
   const [selectedAlert, setSelectedAlert] = useState<ProximityAlert | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [hurricaneIntersections, setHurricaneIntersections] = useState<HurricaneIntersection[]>([]);
+  const [analyzedIntersections, setAnalyzedIntersections] = useState<HurricaneIntersection[]>([]);
+  const [warningCrossings, setWarningCrossings] = useState<WarningCrossing[]>([]);
+  const [analysisProgress, setAnalysisProgress] = useState<{ completed: number; total: number } | null>(null);
   const [filterMode, setFilterMode] = useState<FilterMode>('all');
+  const [altitudeBands, setAltitudeBands] = useState<AltitudeBand[]>(ALTITUDE_BANDS);
   const [displayTrails, setDisplayTrails] = useState<BalloonTrail[]>([]);
   const [usingRealStorms, setUsingRealStorms] = useState<boolean>(false);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const [balloonSourceId, setBalloonSourceId] = useState<BalloonSourceId>(getDefaultBalloonSourceId());
+  const [backtest, setBacktest] = useState<BacktestWindow | null>(null);
+  const [playbackAdvisories, setPlaybackAdvisories] = useState<StormAdvisory[] | null>(null);
+  const [playbackIndex, setPlaybackIndex] = useState<number>(0);
+  const [advisoryHistory, setAdvisoryHistory] = useState<StormAdvisory[]>([]);
+  const [advisoryRisks, setAdvisoryRisks] = useState<AdvisoryRisk[]>([]);
   const [selectedBalloon, setSelectedBalloon] = useState<{
     balloonId: string;
     altitude: number;
@@ -48,6 +97,11 @@ const BalloonRiskMap: React.FC = () => {
     coordinates: [number, number];
     pastIntersection: boolean;
     futureIntersection: boolean;
+    tsWindProbability?: number;
+    warningCrossing?: string;
+    modelAgreement?: string;
+    firstAtRisk?: string;
+    verticalRisk?: string;
   } | null>(null);
   const [isAnimating, setIsAnimating] = useState<boolean>(false);
   const [selectedBalloonForAnimation, setSelectedBalloonForAnimation] = useState<BalloonTrail | null>(null);
@@ -56,6 +110,80 @@ const BalloonRiskMap: React.FC = () => {
   const [animatedPath, setAnimatedPath] = useState<[number, number][]>([]);
   const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
   const [isClient, setIsClient] = useState<boolean>(false);
+  const [refreshHighlights, setRefreshHighlights] = useState<RefreshHighlights | null>(null);
+  const [showWindProbabilities, setShowWindProbabilities] = useState<boolean>(false);
+  const [showModelTracks, setShowModelTracks] = useState<boolean>(true);
+  const [hoveredForecastPoint, setHoveredForecastPoint] = useState<(ForecastPoint & { stormName: string; basin: StormBasin }) | null>(null);
+
+  // Latest state for the background refresh, which runs outside the render cycle
+  const balloonTrailsRef = useRef<BalloonTrail[]>([]);
+  const stormDataRef = useRef<StormData>(EMPTY_STORM_DATA);
+  const usingMockBalloonsRef = useRef<boolean>(false);
+  const pendingRefreshRef = useRef<boolean>(false);
+  const analysisRef = useRef<{
+    trailsById: globalThis.Map<string, BalloonTrail>;
+    storms: StormData;
+    history: StormAdvisory[];
+    alerts: ProximityAlert[];
+    intersections: HurricaneIntersection[];
+    warningCrossings: WarningCrossing[];
+  } | null>(null);
+
+  const allTrails = useMemo(() => [...balloonTrails, ...importedTrails], [balloonTrails, importedTrails]);
+
+  // During advisory playback the map and analysis show the selected advisory instead of the latest storms
+  const playbackAdvisory = playbackAdvisories?.[playbackIndex] ?? null;
+  const shownStormData = useMemo<StormData>(() => playbackAdvisory
+    ? { ...EMPTY_STORM_DATA, cones: [playbackAdvisory.cone], tracks: playbackAdvisory.track ? [playbackAdvisory.track] : [] }
+    : stormData,
+  [playbackAdvisory, stormData]);
+  // Earlier advisories, which tell the analysis where each storm was before its current track
+  const shownAdvisoryHistory = useMemo(
+    () => playbackAdvisories ? playbackAdvisories.slice(0, playbackIndex) : advisoryHistory,
+    [playbackAdvisories, playbackIndex, advisoryHistory]
+  );
+
+  // Intersections against every advisory of the played-back storm, oldest first. This runs
+  // in the worker too, batch by batch; another storm or new trails cancel a run in progress.
+  useEffect(() => {
+    setAdvisoryRisks([]);
+    if (!playbackAdvisories) return;
+
+    let received: AdvisoryRisk[] = [];
+    const job = runAdvisoryRiskAnalysis(
+      { trails: allTrails, advisories: playbackAdvisories },
+      {
+        onProgress: risks => {
+          received = mergeAdvisoryRisks(received, risks);
+          setAdvisoryRisks(received);
+        },
+        onDone: () => undefined,
+        // Keep the risks that have arrived; the next playback or data change runs it again
+        onError: () => undefined
+      }
+    );
+
+    return () => job.cancel();
+  }, [allTrails, playbackAdvisories]);
+
+  useEffect(() => {
+    balloonTrailsRef.current = balloonTrails;
+    stormDataRef.current = stormData;
+  }, [balloonTrails, stormData]);
+
+  // Recorded advisories of the live storms
+  useEffect(() => {
+    if (!usingRealStorms || backtest) {
+      setAdvisoryHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchAdvisoryHistory(stormData.cones).then(history => {
+      if (!cancelled) setAdvisoryHistory(history);
+    });
+    return () => { cancelled = true; };
+  }, [stormData, usingRealStorms, backtest]);
 
   // Ensure client-side rendering to prevent hydration mismatch
   useEffect(() => {
@@ -66,95 +194,225 @@ const BalloonRiskMap: React.FC = () => {
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
+      setRefreshHighlights(null);
       
       try {
         // Load balloon and storm data
-        let balloons;
-        if (getRealBalloons()) {
-          balloons = await fetchBalloonData();
-        } else {
-          balloons = generateMockBalloonData();
-        }
+        const balloonSource = getBalloonDataSource(balloonSourceId);
+        const useArchivedBalloons = !!backtest?.useArchivedBalloons;
+        const balloons = useArchivedBalloons
+          ? await fetchBalloonData({ from: backtest!.from, to: backtest!.to })
+          : await balloonSource.load();
+        setDataQuality(!useArchivedBalloons && balloonSource.loadQualityReport ? await balloonSource.loadQualityReport() : null);
         
-        // Hurricane data configuration
+        // Hurricane data configuration; a backtest replays a storm from the HURDAT2 archive
         let stormResult;
-        if (getRealHurricanes()) {
+        if (backtest) {
+          const historicalStorms = await fetchHistoricalStormData(backtest.storm.id, backtest.from, backtest.to);
+          stormResult = { ...(historicalStorms ?? EMPTY_STORM_DATA), isRealData: historicalStorms !== null };
+        } else if (getRealHurricanes()) {
           stormResult = await fetchActiveStorms();
         } else {
           stormResult = { ...generateMockStormData(), isRealData: false };
         }
         
-        const storms = { cones: stormResult.cones, tracks: stormResult.tracks };
-        setUsingRealStorms(stormResult.isRealData);
-        
-        if (balloons.length === 0 && getRealBalloons()) {
-          const mockBalloons = generateMockBalloonData();
-          setBalloonTrails(mockBalloons);
-          
-          // Analyze proximity with mock data
-          const alerts = analyzeProximity(mockBalloons, storms.cones);
-          setProximityAlerts(alerts);
-          
-          // Analyze hurricane intersections (including trajectory analysis)
-          const intersections = analyzeHurricaneIntersections(mockBalloons, storms.cones, storms.tracks);
-          setHurricaneIntersections(intersections);
-          
-          setDisplayTrails(mockBalloons);
-        } else {
-          setBalloonTrails(balloons);
-          
-          // Analyze proximity with real data
-          const alerts = analyzeProximity(balloons, storms.cones);
-          setProximityAlerts(alerts);
-          
-          // Analyze hurricane intersections (including trajectory analysis)
-          const intersections = analyzeHurricaneIntersections(balloons, storms.cones, storms.tracks);
-          setHurricaneIntersections(intersections);
-          
-          setDisplayTrails(balloons);
-        }
+        const { isRealData, ...storms } = stormResult;
+        setUsingRealStorms(isRealData);
         
+        // Fall back to mock balloons when a real feed comes back empty
+        usingMockBalloonsRef.current = balloons.length === 0 && balloonSource.isRealData && !useArchivedBalloons;
+        setBalloonTrails(usingMockBalloonsRef.current ? generateMockBalloonData() : balloons);
         setStormData(storms);
       } catch {
         // Fallback to mock data if API fails
-        const mockBalloons = generateMockBalloonData();
-        const storms = generateMockStormData();
-        
-        setBalloonTrails(mockBalloons);
-        setStormData(storms);
-        
-        const alerts = analyzeProximity(mockBalloons, storms.cones);
-        setProximityAlerts(alerts);
+        usingMockBalloonsRef.current = true;
+        setBalloonTrails(generateMockBalloonData());
+        setStormData(generateMockStormData());
       }
       
       setIsLoading(false);
     };
 
     loadData();
-  }, []);
+  }, [balloonSourceId, backtest]);
+
+  // Background refresh: append new balloon hours and pick up storm changes in place,
+  // leaving viewport, filters and selection untouched. Updates arrive over /api/stream
+  // when enabled, otherwise by polling. Paused while a backtest is shown.
+  useEffect(() => {
+    if (!isLiveRefreshEnabled() || isLoading || backtest) return;
+
+    const balloonSource = getBalloonDataSource(balloonSourceId);
+    const acceptsBalloonUpdates = () => !!balloonSource.loadSince && !usingMockBalloonsRef.current;
+
+    const applyRefresh = (
+      trails: BalloonTrail[],
+      storms: StormData
+    ) => {
+      if (trails === balloonTrailsRef.current && storms === stormDataRef.current) {
+        setRefreshHighlights({ refreshedAt: new Date().toISOString(), newAlertBalloonIds: [], newlyAtRiskBalloonIds: [] });
+        return;
+      }
+
+      pendingRefreshRef.current = true;
+      setBalloonTrails(trails);
+      setStormData(storms);
+    };
+
+    // Keep the current storms object unless the advisories actually changed
+    const nextStorms = (stormResult: StormData & { isRealData: boolean }) => {
+      const { isRealData, ...storms } = stormResult;
+      const currentStorms = stormDataRef.current;
+      const changed = JSON.stringify(storms) !== JSON.stringify(currentStorms);
+      if (!isRealData || !changed) return currentStorms;
+
+      setUsingRealStorms(true);
+      return storms;
+    };
+
+    if (APP_CONFIG.REFRESH.USE_STREAM) {
+      return subscribeToLiveStream({
+        onBalloonUpdate: (update) => {
+          if (!acceptsBalloonUpdates()) return;
+          applyRefresh(mergeTrailUpdates(balloonTrailsRef.current, update.trails), stormDataRef.current);
+        },
+        onStormUpdate: (update) => {
+          if (!getRealHurricanes()) return;
+          applyRefresh(balloonTrailsRef.current, nextStorms(update));
+        }
+      });
+    }
+
+    const refreshData = async () => {
+      try {
+        // Only the hours after the newest point we already have
+        let trails = balloonTrailsRef.current;
+        const since = getLatestTimestamp(trails);
+        if (acceptsBalloonUpdates() && since) {
+          trails = mergeTrailUpdates(trails, await balloonSource.loadSince!(since));
+        }
+
+        const storms = getRealHurricanes() ? nextStorms(await fetchActiveStorms()) : stormDataRef.current;
+
+        applyRefresh(trails, storms);
+      } catch {
+        // Keep showing what we have; the next refresh will try again
+      }
+    };
+
+    const interval = setInterval(refreshData, APP_CONFIG.REFRESH.INTERVAL_MINUTES * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [balloonSourceId, isLoading, backtest]);
+
+  // Live and imported trails go through the same analysis pipeline, in a worker so the map
+  // stays interactive. With unchanged storms only trails that changed since the last run are
+  // re-analyzed. Results show as each batch arrives; newer data cancels a run in progress.
+  useEffect(() => {
+    const previous = analysisRef.current;
+    const incremental = !!previous && previous.storms === shownStormData && previous.history === shownAdvisoryHistory;
+    const { changed, affectedIds } = incremental
+      ? diffTrails(previous.trailsById, allTrails)
+      : { changed: allTrails, affectedIds: new Set(allTrails.map(trail => trail.balloonId)) };
+    if (incremental && affectedIds.size === 0) return;
+
+    // Unchanged trails keep their results; against new storms everything starts over
+    const base = incremental ? previous : { alerts: [], intersections: [], warningCrossings: [] };
+    const received: { alerts: ProximityAlert[]; intersections: HurricaneIntersection[]; warningCrossings: WarningCrossing[] } = {
+      alerts: [],
+      intersections: [],
+      warningCrossings: []
+    };
+    // Results of removed trails go straight away, those of changed trails as they're re-analyzed
+    const changedIds = new Set(changed.map(trail => trail.balloonId));
+    const replacedIds = new Set([...affectedIds].filter(balloonId => !changedIds.has(balloonId)));
+
+    const merged = () => ({
+      alerts: mergeResults(base.alerts, received.alerts, replacedIds, compareAlerts),
+      intersections: mergeResults(base.intersections, received.intersections, replacedIds, (a, b) => a.hoursFromNow - b.hoursFromNow),
+      warningCrossings: mergeResults(base.warningCrossings, received.warningCrossings, replacedIds, (a, b) => a.hoursFromNow - b.hoursFromNow)
+    });
+
+    setAnalysisProgress({ completed: 0, total: changed.length });
+    // A backtest is analyzed as of the end of its window
+    const referenceTime = backtest ? Date.parse(backtest.to) : undefined;
+    const job = runAnalysis(
+      { trails: changed, storms: shownStormData, advisories: shownAdvisoryHistory, referenceTime },
+      {
+        onProgress: (results, completed, total) => {
+          received.alerts.push(...results.alerts);
+          received.intersections.push(...results.intersections);
+          received.warningCrossings.push(...results.warningCrossings);
+          // Trails are analyzed in order, so the first `completed` are done
+          changed.slice(0, completed).forEach(trail => replacedIds.add(trail.balloonId));
+
+          const partial = merged();
+          setAnalyzedAlerts(partial.alerts);
+          setAnalyzedIntersections(partial.intersections);
+          setWarningCrossings(partial.warningCrossings);
+          setAnalysisProgress({ completed, total });
+        },
+        onDone: () => {
+          const { alerts, intersections, warningCrossings: crossings } = merged();
+
+          // Highlight what a background refresh brought in
+          if (pendingRefreshRef.current && previous) {
+            pendingRefreshRef.current = false;
+            setRefreshHighlights(computeRefreshHighlights(previous.alerts, alerts, previous.intersections, intersections));
+          }
+
+          analysisRef.current = {
+            trailsById: new globalThis.Map(allTrails.map(trail => [trail.balloonId, trail])),
+            storms: shownStormData,
+            history: shownAdvisoryHistory,
+            alerts,
+            intersections,
+            warningCrossings: crossings
+          };
+          setAnalyzedAlerts(alerts);
+          setAnalyzedIntersections(intersections);
+          setWarningCrossings(crossings);
+          setAnalysisProgress(null);
+        },
+        // Keep what has arrived; the next data change runs the analysis again
+        onError: () => setAnalysisProgress(null)
+      }
+    );
+
+    return () => job.cancel();
+  }, [allTrails, shownStormData, shownAdvisoryHistory, backtest]);
+
+  // Only alerts and intersections at the altitude bands being shown
+  const proximityAlerts = useMemo(
+    () => analyzedAlerts.filter(alert => altitudeBands.includes(alert.verticalRisk.band)),
+    [analyzedAlerts, altitudeBands]
+  );
+  const hurricaneIntersections = useMemo(
+    () => analyzedIntersections.filter(intersection => altitudeBands.includes(intersection.verticalRisk.band)),
+    [analyzedIntersections, altitudeBands]
+  );
 
   // Handle filter mode changes
   useEffect(() => {
-    if (balloonTrails.length === 0) return;
+    if (allTrails.length === 0) return;
 
     let filteredTrails: BalloonTrail[] = [];
 
     switch (filterMode) {
       case 'all':
-        filteredTrails = balloonTrails;
+        filteredTrails = allTrails;
         break;
       case 'past-intersections':
-        filteredTrails = getBalloonsByIntersectionType(balloonTrails, hurricaneIntersections, 'past');
+        filteredTrails = getBalloonsByIntersectionType(allTrails, hurricaneIntersections, 'past');
         break;
       case 'future-intersections':
         // For future intersections, show only recent 5-hour trajectory
-        const futureBalloons = getBalloonsByIntersectionType(balloonTrails, hurricaneIntersections, 'future');
+        const futureBalloons = getBalloonsByIntersectionType(allTrails, hurricaneIntersections, 'future');
         filteredTrails = futureBalloons.map(trail => getRecentTrajectory(trail, 5));
         break;
     }
 
     setDisplayTrails(filteredTrails);
-  }, [filterMode, balloonTrails, hurricaneIntersections]);
+  }, [filterMode, allTrails, hurricaneIntersections]);
 
   // Create GeoJSON for balloon trails and points
   const balloonFeatures: Array<{
@@ -168,13 +426,31 @@ const BalloonRiskMap: React.FC = () => {
       pastIntersection: boolean;
       futureIntersection: boolean;
       timestamp?: string;
+      isNew?: boolean;
+      tsWindProbability?: number;
+      warningCrossing?: string;
+      modelAgreement?: string;
+      firstAtRisk?: string;
+      verticalRisk?: string;
     };
     geometry: {
-      type: 'LineString' | 'Point';
-      coordinates: number[][] | number[];
+      type: 'MultiLineString' | 'Point';
+      coordinates: number[][][] | number[];
     };
   }> = [];
   
+  // Balloons the last background refresh flagged as newly alerted or newly at risk
+  const highlightedBalloonIds = new Set([
+    ...(refreshHighlights?.newAlertBalloonIds ?? []),
+    ...(refreshHighlights?.newlyAtRiskBalloonIds ?? [])
+  ]);
+
+  // Advisory that first put each balloon at risk, while playing back a storm's history
+  const firstAtRiskLabels = new globalThis.Map<string, string>();
+  advisoryRisks.forEach(risk => risk.newlyAtRiskBalloonIds.forEach(balloonId => {
+    firstAtRiskLabels.set(balloonId, `Advisory ${risk.advisoryNumber} (${risk.issuance.slice(0, 16).replace('T', ' ')} UTC)`);
+  }));
+
   displayTrails.forEach(trail => {
     // Determine the risk and intersection status
     const isRisk = proximityAlerts.some(alert => alert.balloonId === trail.balloonId);
@@ -184,6 +460,26 @@ const BalloonRiskMap: React.FC = () => {
     const futureIntersection = hurricaneIntersections.find(
       intersection => intersection.balloonId === trail.balloonId && intersection.intersectionType === 'future'
     );
+    // Highest chance of tropical-storm-force winds across this balloon's intersections
+    const windProbabilities = hurricaneIntersections
+      .filter(intersection => intersection.balloonId === trail.balloonId && intersection.tsWindProbability !== undefined)
+      .map(intersection => intersection.tsWindProbability as number);
+    const tsWindProbability = windProbabilities.length > 0 ? Math.max(...windProbabilities) : undefined;
+    // Earliest coastal warning the predicted path crosses
+    const crossing = warningCrossings.find(c => c.balloonId === trail.balloonId);
+    const warningCrossing = crossing
+      ? `${COASTAL_ALERT_LABELS[crossing.warningType]} (${crossing.stormName}) in ~${Math.max(0, Math.round(crossing.hoursFromNow))} h`
+      : undefined;
+    // How many guidance models agree with the future intersection
+    const agreement = futureIntersection?.modelAgreement;
+    const modelAgreement = agreement
+      ? `${agreement.inRange.length} of ${agreement.total} models${agreement.inRange.length > 0 ? ` (${agreement.inRange.join(', ')})` : ''}`
+      : undefined;
+    // Where the balloon sits in the storm's vertical structure, for its most pressing intersection
+    const vertical = (futureIntersection ?? pastIntersection)?.verticalRisk;
+    const verticalRisk = vertical
+      ? `${ALTITUDE_BAND_LABELS[vertical.band]} (weight ${vertical.weight}, tops ~${vertical.stormTopKm.toFixed(1)} km)`
+      : undefined;
     
     if (trail.points.length >= 2) {
              // Determine color and styling based on intersection type and animation state
@@ -211,8 +507,8 @@ const BalloonRiskMap: React.FC = () => {
           futureIntersection: !!futureIntersection
         },
         geometry: {
-          type: 'LineString',
-          coordinates: trail.points.map(point => [point.longitude, point.latitude])
+          type: 'MultiLineString',
+          coordinates: splitLineAtAntimeridian(trail.points.map(point => [point.longitude, point.latitude]))
         }
       });
       
@@ -229,7 +525,13 @@ const BalloonRiskMap: React.FC = () => {
                  timestamp: currentPosition.timestamp,
                                    type: 'current-position',
                  pastIntersection: !!pastIntersection,
-                 futureIntersection: !!futureIntersection
+                 futureIntersection: !!futureIntersection,
+                 isNew: highlightedBalloonIds.has(trail.balloonId),
+                 tsWindProbability,
+                 warningCrossing,
+                 modelAgreement,
+                 firstAtRisk: firstAtRiskLabels.get(trail.balloonId),
+                 verticalRisk
                },
                geometry: {
                  type: 'Point',
@@ -248,30 +550,119 @@ const BalloonRiskMap: React.FC = () => {
   // Create GeoJSON for storm cones
   const stormConesGeoJSON = {
     type: 'FeatureCollection' as const,
-    features: stormData.cones.map(cone => ({
+    features: shownStormData.cones.map(cone => ({
       type: 'Feature' as const,
       properties: {
         stormName: cone.properties.stormName,
-        maxWindSpeed: cone.properties.maxWindSpeed
+        maxWindSpeed: cone.properties.maxWindSpeed,
+        isEstimated: !!cone.properties.isEstimated
       },
-      geometry: cone.geometry
+      geometry: splitPolygonAtAntimeridian(cone.geometry)
+    }))
+  };
+
+  // Create GeoJSON for the current wind fields, weakest first so stronger ones draw on top
+  const stormWindFieldsGeoJSON = {
+    type: 'FeatureCollection' as const,
+    features: shownStormData.windFields
+      .filter(field => field.forecastHour === 0)
+      .sort((a, b) => a.threshold - b.threshold)
+      .map(field => ({
+        type: 'Feature' as const,
+        properties: {
+          stormName: field.stormName,
+          threshold: field.threshold
+        },
+        geometry: splitPolygonAtAntimeridian(field.geometry)
+      }))
+  };
+
+  // Create GeoJSON for the 34 kt wind speed probability bands
+  const windProbabilitiesGeoJSON = {
+    type: 'FeatureCollection' as const,
+    features: shownStormData.windProbabilities.map(contour => ({
+      type: 'Feature' as const,
+      properties: {
+        probability: contour.probability,
+        label: contour.label
+      },
+      geometry: splitPolygonAtAntimeridian(contour.geometry)
+    }))
+  };
+
+  // Create GeoJSON for coastal watch and warning segments
+  const watchesWarningsGeoJSON = {
+    type: 'FeatureCollection' as const,
+    features: shownStormData.watchesWarnings.map(segment => ({
+      type: 'Feature' as const,
+      properties: {
+        stormName: segment.stormName,
+        type: segment.type
+      },
+      geometry: { type: 'MultiLineString' as const, coordinates: splitLineAtAntimeridian(segment.geometry.coordinates) }
     }))
   };
 
   // Create GeoJSON for storm tracks
   const stormTracksGeoJSON = {
     type: 'FeatureCollection' as const,
-    features: stormData.tracks.map(track => ({
+    features: shownStormData.tracks.map(track => ({
       type: 'Feature' as const,
       properties: {
         stormName: track.properties.stormName,
         category: track.properties.category
       },
-      geometry: track.geometry
+      geometry: { type: 'MultiLineString' as const, coordinates: splitLineAtAntimeridian(track.geometry.coordinates) }
     }))
   };
 
-  const handleMapClick = (event: any) => {
+  // Create GeoJSON for model guidance tracks
+  const stormModelTracksGeoJSON = {
+    type: 'FeatureCollection' as const,
+    features: shownStormData.modelTracks.map(track => ({
+      type: 'Feature' as const,
+      properties: {
+        stormName: track.stormName,
+        model: track.model
+      },
+      geometry: { type: 'MultiLineString' as const, coordinates: splitLineAtAntimeridian(track.geometry.coordinates) }
+    }))
+  };
+
+  // Create GeoJSON for forecast positions along the tracks
+  const stormForecastPointsGeoJSON = {
+    type: 'FeatureCollection' as const,
+    features: shownStormData.tracks.flatMap(track => track.forecastPoints.map(point => ({
+      type: 'Feature' as const,
+      properties: {
+        ...point,
+        stormName: track.properties.stormName,
+        basin: track.properties.basin
+      },
+      geometry: {
+        type: 'Point' as const,
+        coordinates: [point.longitude, point.latitude]
+      }
+    })))
+  };
+
+  const handleMapMouseMove = (event: MapLayerMouseEvent) => {
+    const feature = mapRef.current?.queryRenderedFeatures(event.point, { layers: ['storm-forecast-points-layer'] })[0];
+    // Mapbox serializes null properties away, so missing values come back as undefined
+    setHoveredForecastPoint(feature?.properties ? {
+      stormName: feature.properties.stormName,
+      basin: feature.properties.basin,
+      validTime: feature.properties.validTime,
+      forecastHour: feature.properties.forecastHour,
+      latitude: feature.properties.latitude,
+      longitude: feature.properties.longitude,
+      maxWindKt: feature.properties.maxWindKt ?? null,
+      pressureMb: feature.properties.pressureMb ?? null,
+      classification: feature.properties.classification
+    } : null);
+  };
+
+  const handleMapClick = (event: MapLayerMouseEvent) => {
     const features = mapRef.current?.queryRenderedFeatures(event.point);
     
     if (features && features.length > 0) {
@@ -286,7 +677,12 @@ const BalloonRiskMap: React.FC = () => {
           timestamp: balloonPositionFeature.properties.timestamp,
           coordinates: coords,
           pastIntersection: balloonPositionFeature.properties.pastIntersection,
-          futureIntersection: balloonPositionFeature.properties.futureIntersection
+          futureIntersection: balloonPositionFeature.properties.futureIntersection,
+          tsWindProbability: balloonPositionFeature.properties.tsWindProbability,
+          warningCrossing: balloonPositionFeature.properties.warningCrossing,
+          modelAgreement: balloonPositionFeature.properties.modelAgreement,
+          firstAtRisk: balloonPositionFeature.properties.firstAtRisk,
+          verticalRisk: balloonPositionFeature.properties.verticalRisk
         });
         return;
       }
@@ -306,9 +702,9 @@ const BalloonRiskMap: React.FC = () => {
   };
 
   const selectRandomBalloon = () => {
-    if (balloonTrails.length === 0) return;
-    const randomIndex = Math.floor(Math.random() * balloonTrails.length);
-    const randomBalloon = balloonTrails[randomIndex];
+    if (allTrails.length === 0) return;
+    const randomIndex = Math.floor(Math.random() * allTrails.length);
+    const randomBalloon = allTrails[randomIndex];
     setSelectedBalloonForAnimation(randomBalloon);
   };
 
@@ -451,6 +847,7 @@ const BalloonRiskMap: React.FC = () => {
          mapStyle="mapbox://styles/mapbox/streets-v12"
          projection={{ name: "globe" }}
          onClick={handleMapClick}
+         onMouseMove={handleMapMouseMove}
          onLoad={() => {
            // Add atmosphere/fog effect and ensure 3D globe
            if (mapRef.current) {
@@ -528,7 +925,12 @@ const BalloonRiskMap: React.FC = () => {
                  ['get', 'pastIntersection'], 2,
                  1
                ],
-              'circle-stroke-color': '#ffffff'
+              'circle-stroke-color': [
+                'case',
+                ['get', 'isNew'], '#facc15', // Yellow ring for what's new since the last refresh
+                ['has', 'warningCrossing'], '#dc2626', // Red ring when the predicted path crosses a coastal warning
+                '#ffffff'
+              ]
             }}
 
           />
@@ -543,8 +945,8 @@ const BalloonRiskMap: React.FC = () => {
                type: 'Feature',
                properties: {},
                geometry: {
-                 type: 'LineString',
-                 coordinates: animatedPath
+                 type: 'MultiLineString',
+                 coordinates: splitLineAtAntimeridian(animatedPath)
                }
              }]
            }}>
@@ -587,6 +989,25 @@ const BalloonRiskMap: React.FC = () => {
            </Source>
          )}
 
+         {/* Wind Speed Probability (34 kt) */}
+        <Source id="wind-probabilities" type="geojson" data={windProbabilitiesGeoJSON}>
+          <Layer
+            id="wind-probabilities-fill"
+            type="fill"
+            layout={{ visibility: showWindProbabilities ? 'visible' : 'none' }}
+            paint={{
+              'fill-color': [
+                'interpolate', ['linear'], ['get', 'probability'],
+                0, '#bbf7d0',
+                20, '#fde047',
+                50, '#f97316',
+                90, '#7f1d1d'
+              ],
+              'fill-opacity': 0.35
+            }}
+          />
+        </Source>
+
          {/* Storm Cones */}
         <Source id="storm-cones" type="geojson" data={stormConesGeoJSON}>
           <Layer
@@ -594,15 +1015,106 @@ const BalloonRiskMap: React.FC = () => {
             type="fill"
             paint={{
               'fill-color': '#9333ea',
-              'fill-opacity': 0.3
+              'fill-opacity': ['case', ['get', 'isEstimated'], 0.15, 0.3]
             }}
           />
           <Layer
             id="storm-cones-outline"
             type="line"
+            filter={['!', ['get', 'isEstimated']]}
+            paint={{
+              'line-color': '#7c3aed',
+              'line-width': 2,
+              'line-opacity': 0.8
+            }}
+          />
+          {/* Estimated cones (no official NHC cone) get a dashed outline */}
+          <Layer
+            id="storm-cones-estimated-outline"
+            type="line"
+            filter={['get', 'isEstimated']}
             paint={{
               'line-color': '#7c3aed',
               'line-width': 2,
+              'line-opacity': 0.8,
+              'line-dasharray': [1, 2]
+            }}
+          />
+        </Source>
+
+        {/* Wind Fields (34/50/64 kt radii) */}
+        <Source id="storm-wind-fields" type="geojson" data={stormWindFieldsGeoJSON}>
+          <Layer
+            id="storm-wind-fields-fill"
+            type="fill"
+            paint={{
+              'fill-color': [
+                'match', ['get', 'threshold'],
+                64, '#dc2626',
+                50, '#f97316',
+                '#facc15'
+              ],
+              'fill-opacity': 0.25
+            }}
+          />
+          <Layer
+            id="storm-wind-fields-outline"
+            type="line"
+            paint={{
+              'line-color': [
+                'match', ['get', 'threshold'],
+                64, '#b91c1c',
+                50, '#ea580c',
+                '#eab308'
+              ],
+              'line-width': 1
+            }}
+          />
+        </Source>
+
+        {/* Coastal Watches and Warnings */}
+        <Source id="storm-watches-warnings" type="geojson" data={watchesWarningsGeoJSON}>
+          <Layer
+            id="storm-watches-warnings-layer"
+            type="line"
+            layout={{ 'line-cap': 'round' }}
+            paint={{
+              'line-color': [
+                'match', ['get', 'type'],
+                'hurricane-warning', '#dc2626',
+                'hurricane-watch', '#f472b6',
+                'tropical-storm-warning', '#2563eb',
+                '#facc15'
+              ],
+              'line-width': 5
+            }}
+          />
+        </Source>
+
+        {/* Model Guidance Tracks */}
+        <Source id="storm-model-tracks" type="geojson" data={stormModelTracksGeoJSON}>
+          <Layer
+            id="storm-model-tracks-layer"
+            type="line"
+            layout={{ visibility: showModelTracks ? 'visible' : 'none' }}
+            paint={{
+              'line-color': [
+                'match',
+                ['get', 'model'],
+                'OFCL', '#111827',
+                'JTWC', '#111827',
+                'AVNI', '#2563eb',
+                'EMXI', '#dc2626',
+                'EGRI', '#16a34a',
+                'CMCI', '#d97706',
+                'NVGI', '#0891b2',
+                'HWFI', '#db2777',
+                'HMNI', '#9333ea',
+                'HFAI', '#65a30d',
+                'CTCI', '#ea580c',
+                '#64748b'
+              ],
+              'line-width': 1,
               'line-opacity': 0.8
             }}
           />
@@ -620,6 +1132,38 @@ const BalloonRiskMap: React.FC = () => {
             }}
           />
         </Source>
+
+        {/* Forecast Positions */}
+        <Source id="storm-forecast-points" type="geojson" data={stormForecastPointsGeoJSON}>
+          <Layer
+            id="storm-forecast-points-layer"
+            type="circle"
+            paint={{
+              'circle-color': '#ffffff',
+              'circle-radius': 5,
+              'circle-stroke-width': 2,
+              'circle-stroke-color': '#7c3aed'
+            }}
+          />
+        </Source>
+
+        {hoveredForecastPoint && (
+          <Popup
+            longitude={hoveredForecastPoint.longitude}
+            latitude={hoveredForecastPoint.latitude}
+            closeButton={false}
+            closeOnClick={false}
+            offset={10}
+          >
+            <div className="text-xs text-black">
+              <p className="font-bold">{hoveredForecastPoint.stormName} ({BASIN_LABELS[hoveredForecastPoint.basin] ?? hoveredForecastPoint.basin})</p>
+              <p>{hoveredForecastPoint.classification} · {hoveredForecastPoint.forecastHour >= 0 ? '+' : ''}{hoveredForecastPoint.forecastHour} h</p>
+              <p>{new Date(hoveredForecastPoint.validTime).toLocaleString()}</p>
+              {hoveredForecastPoint.maxWindKt !== null && <p>Max Wind: {hoveredForecastPoint.maxWindKt} kt</p>}
+              {hoveredForecastPoint.pressureMb !== null && <p>Pressure: {hoveredForecastPoint.pressureMb} mb</p>}
+            </div>
+          </Popup>
+        )}
       </Map>
 
       {/* Alert Card */}
@@ -640,8 +1184,10 @@ const BalloonRiskMap: React.FC = () => {
       <FilterControls
         filterMode={filterMode}
         setFilterMode={setFilterMode}
-        balloonTrails={balloonTrails}
+        balloonTrails={allTrails}
         hurricaneIntersections={hurricaneIntersections}
+        altitudeBands={altitudeBands}
+        onAltitudeBandsChange={setAltitudeBands}
       />
 
       {/* Animation Controls */}
@@ -668,14 +1214,61 @@ const BalloonRiskMap: React.FC = () => {
       {/* Legend */}
       <Legend />
 
+      {/* Trajectory Import */}
+      <TrajectoryImport
+        importedTrails={importedTrails}
+        onImport={(trails) => setImportedTrails(prev => [
+          // Re-importing a file replaces its earlier trails
+          ...prev.filter(trail => !trails.some(imported => imported.source === trail.source)),
+          ...trails
+        ])}
+        onRemoveSource={(source) => setImportedTrails(prev => prev.filter(trail => trail.source !== source))}
+      />
+
+      {/* Historical Storm Backtest */}
+      <BacktestPanel
+        backtest={backtest}
+        onStart={(backtestWindow) => {
+          setPlaybackAdvisories(null);
+          setBacktest(backtestWindow);
+        }}
+        onExit={() => setBacktest(null)}
+      />
+
+      {/* Advisory History Playback (live storms only) */}
+      {!backtest && (
+        <AdvisoryPlayback
+          advisories={playbackAdvisories}
+          index={playbackIndex}
+          risks={advisoryRisks}
+          onLoad={(advisories) => {
+            setPlaybackAdvisories(advisories);
+            setPlaybackIndex(advisories.length - 1);
+          }}
+          onIndexChange={setPlaybackIndex}
+          onExit={() => setPlaybackAdvisories(null)}
+        />
+      )}
+
       {/* Stats Panel */}
       <StatsPanel
-        balloonTrails={balloonTrails}
+        balloonTrails={allTrails}
         displayTrails={displayTrails}
         hurricaneIntersections={hurricaneIntersections}
-        stormData={stormData}
+        warningCrossings={warningCrossings}
+        stormData={shownStormData}
         usingRealStorms={usingRealStorms}
         filterMode={filterMode}
+        dataQuality={dataQuality}
+        balloonSourceId={balloonSourceId}
+        onBalloonSourceChange={setBalloonSourceId}
+        refreshHighlights={refreshHighlights}
+        analysisProgress={analysisProgress}
+        showWindProbabilities={showWindProbabilities}
+        onShowWindProbabilitiesChange={setShowWindProbabilities}
+        showModelTracks={showModelTracks}
+        onShowModelTracksChange={setShowModelTracks}
+        backtestStorm={backtest?.storm}
       />
 
       {/* Help Icon */}
@@ -1,20 +1,30 @@
 import React from 'react';
-import { FilterMode, BalloonTrail, HurricaneIntersection } from '@/types';
+import { FilterMode, BalloonTrail, HurricaneIntersection, AltitudeBand } from '@/types';
 import { getPastIntersections, getFutureIntersections } from '@/lib/proximityAnalysis';
+import { ALTITUDE_BANDS, ALTITUDE_BAND_LABELS } from '@/lib/verticalRisk';
 
 interface FilterControlsProps {
   filterMode: FilterMode;
   setFilterMode: (mode: FilterMode) => void;
   balloonTrails: BalloonTrail[];
   hurricaneIntersections: HurricaneIntersection[];
+  altitudeBands: AltitudeBand[];
+  onAltitudeBandsChange: (bands: AltitudeBand[]) => void;
 }
 
 const FilterControls: React.FC<FilterControlsProps> = ({
   filterMode,
   setFilterMode,
   balloonTrails,
-  hurricaneIntersections
+  hurricaneIntersections,
+  altitudeBands,
+  onAltitudeBandsChange
 }) => {
+  const toggleBand = (band: AltitudeBand) => onAltitudeBandsChange(
+    altitudeBands.includes(band) ? altitudeBands.filter(b => b !== band) : [...altitudeBands, band]
+  );
+
+
   return (
     <div className="absolute top-4 right-4 bg-white rounded-lg shadow-lg p-4 text-sm border">
       <h3 className="font-bold mb-3 text-black">Hurricane Intersection Filter</h3>
@@ -53,6 +63,22 @@ const FilterControls: React.FC<FilterControlsProps> = ({
           <span className="text-black">Future Intersections ({new Set(getFutureIntersections(hurricaneIntersections).map(i => i.balloonId)).size})</span>
         </label>
       </div>
+      <div className="mt-3 pt-2 border-t">
+        <h4 className="font-medium mb-2 text-black text-xs">Altitude Bands</h4>
+        <div className="space-y-1">
+          {ALTITUDE_BANDS.map(band => (
+            <label key={band} className="flex items-center cursor-pointer text-xs">
+              <input
+                type="checkbox"
+                checked={altitudeBands.includes(band)}
+                onChange={() => toggleBand(band)}
+                className="mr-2"
+              />
+              <span className="text-black">{ALTITUDE_BAND_LABELS[band]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
       {filterMode === 'future-intersections' && (
         <div className="mt-3 pt-2 border-t text-xs text-black">
           Showing 5-hour trajectory for future intersection balloons
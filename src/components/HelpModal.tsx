@@ -34,11 +34,12 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
             <div>
               <h3 className="text-lg font-semibold text-gray-800 mb-2">🎮 How to Use</h3>
               <ul className="text-sm space-y-2 list-disc list-inside">
-                <li><strong>Filter Panel (Top Right):</strong> Switch between viewing all balloons, past intersections, or future risks</li>
+                <li><strong>Filter Panel (Top Right):</strong> Switch between viewing all balloons, past intersections, or future risks, and limit intersections to altitude bands (convective, outflow, above the storm tops)</li>
                 <li><strong>Animation Panel:</strong> Select a random balloon and watch its 24-hour journey with the &ldquo;Life of a Balloon&rdquo; feature</li>
                 <li><strong>Click Balloons:</strong> Click any balloon point to see detailed information in the popup</li>
                 <li><strong>Legend (Bottom Left):</strong> Understand the color coding for different balloon states and storm elements</li>
                 <li><strong>Stats Panel (Top Left):</strong> View real-time statistics about balloon counts and intersection analysis</li>
+                <li><strong>Import Panel (Bottom Right):</strong> Overlay your own GeoJSON, CSV, KML or GPX trajectories; they are analyzed alongside the WindBorne fleet</li>
               </ul>
             </div>
 
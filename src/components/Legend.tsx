@@ -9,6 +9,10 @@ const Legend: React.FC = () => {
           <div className="w-4 h-0.5 bg-blue-500 mr-2"></div>
           <span className="text-black">Normal Flight Path</span>
         </div>
+        <div className="flex items-center">
+          <div className="w-4 h-0.5 mr-2" style={{backgroundColor: '#0d9488'}}></div>
+          <span className="text-black">Imported Trajectory</span>
+        </div>
         <div className="flex items-center">
           <div className="w-4 h-0.5 mr-2" style={{backgroundColor: '#ff6b35'}}></div>
           <span className="text-black">Past Hurricane Intersection</span>
@@ -21,14 +25,55 @@ const Legend: React.FC = () => {
           <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 border-2 border-white"></div>
           <span className="text-black">Current Position</span>
         </div>
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 border-2" style={{borderColor: '#facc15'}}></div>
+          <span className="text-black">New Since Last Refresh</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 border-2" style={{borderColor: '#dc2626'}}></div>
+          <span className="text-black">Path Crosses Coastal Warning</span>
+        </div>
         <div className="flex items-center">
           <div className="w-4 h-0.5 mr-2 border-2 border-dashed" style={{borderColor: '#7c3aed'}}></div>
           <span className="text-black">Hurricane Track</span>
         </div>
+        <div className="flex items-center">
+          <div className="flex flex-col mr-2 space-y-0.5">
+            <div className="w-4" style={{height: '1px', backgroundColor: '#2563eb'}}></div>
+            <div className="w-4" style={{height: '1px', backgroundColor: '#dc2626'}}></div>
+            <div className="w-4" style={{height: '1px', backgroundColor: '#16a34a'}}></div>
+          </div>
+          <span className="text-black">Model Guidance Tracks</span>
+        </div>
         <div className="flex items-center">
           <div className="w-4 h-2 mr-2 border-2" style={{backgroundColor: '#9333ea', borderColor: '#7c3aed', opacity: 0.3}}></div>
           <span className="text-black">Hurricane Cone</span>
         </div>
+        <div className="flex items-center">
+          <div className="w-4 h-2 mr-2 border-2 border-dotted" style={{backgroundColor: 'rgba(147, 51, 234, 0.15)', borderColor: '#7c3aed'}}></div>
+          <span className="text-black">Estimated Cone (no NHC cone)</span>
+        </div>
+        <div className="flex items-center">
+          <div className="flex mr-2">
+            <div className="w-2 h-2" style={{backgroundColor: '#facc15'}}></div>
+            <div className="w-2 h-2" style={{backgroundColor: '#f97316'}}></div>
+            <div className="w-2 h-2" style={{backgroundColor: '#dc2626'}}></div>
+          </div>
+          <span className="text-black">34 / 50 / 64 kt Wind Field</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-6 h-2 mr-2" style={{background: 'linear-gradient(to right, #bbf7d0, #fde047, #f97316, #7f1d1d)'}}></div>
+          <span className="text-black">34 kt Wind Probability (when shown)</span>
+        </div>
+        <div className="flex items-center">
+          <div className="flex mr-2">
+            <div className="w-2 h-1" style={{backgroundColor: '#dc2626'}}></div>
+            <div className="w-2 h-1" style={{backgroundColor: '#f472b6'}}></div>
+            <div className="w-2 h-1" style={{backgroundColor: '#2563eb'}}></div>
+            <div className="w-2 h-1" style={{backgroundColor: '#facc15'}}></div>
+          </div>
+          <span className="text-black">Hurricane Warning/Watch, TS Warning/Watch</span>
+        </div>
       </div>
       <div className="mt-2 pt-2 border-t">
         <p className="text-xs text-gray-600">
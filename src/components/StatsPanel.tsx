@@ -1,27 +1,52 @@
 import React from 'react';
-import { HurricaneIntersection, StormCone, StormTrack, BalloonTrail } from '@/types';
+import { HurricaneIntersection, StormCone, StormTrack, BalloonTrail, DataQualityReport, WarningCrossing, HistoricalStormSummary, ModelTrack } from '@/types';
 import { getPastIntersections, getFutureIntersections } from '@/lib/proximityAnalysis';
-import { getRealHurricanes, getRealBalloons } from '@/config/app';
+import { getRealHurricanes } from '@/config/app';
+import { BALLOON_DATA_SOURCES, BalloonSourceId } from '@/lib/balloonSources';
+import { RefreshHighlights } from '@/lib/liveRefresh';
 
 interface StatsPanelProps {
   balloonTrails: BalloonTrail[];
   displayTrails: BalloonTrail[];
   hurricaneIntersections: HurricaneIntersection[];
+  warningCrossings: WarningCrossing[];
   stormData: { 
     cones: StormCone[]; 
-    tracks: StormTrack[] 
+    tracks: StormTrack[];
+    modelTracks: ModelTrack[];
   };
   usingRealStorms: boolean;
   filterMode: string;
+  dataQuality?: DataQualityReport | null;
+  balloonSourceId: BalloonSourceId;
+  onBalloonSourceChange: (id: BalloonSourceId) => void;
+  refreshHighlights?: RefreshHighlights | null;
+  analysisProgress?: { completed: number; total: number } | null;
+  showWindProbabilities: boolean;
+  onShowWindProbabilitiesChange: (show: boolean) => void;
+  showModelTracks: boolean;
+  onShowModelTracksChange: (show: boolean) => void;
+  backtestStorm?: HistoricalStormSummary | null;
 }
 
 const StatsPanel: React.FC<StatsPanelProps> = ({
   balloonTrails,
   displayTrails,
   hurricaneIntersections,
+  warningCrossings,
   stormData,
   usingRealStorms,
-  filterMode
+  filterMode,
+  dataQuality,
+  balloonSourceId,
+  onBalloonSourceChange,
+  refreshHighlights,
+  analysisProgress,
+  showWindProbabilities,
+  onShowWindProbabilitiesChange,
+  showModelTracks,
+  onShowModelTracksChange,
+  backtestStorm
 }) => {
   return (
     <div className="absolute top-4 left-4 bg-white rounded-lg shadow-lg p-4 text-sm border">
@@ -29,22 +54,113 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
       <div className="space-y-1">
         <p className="text-black">Total Balloons: {balloonTrails.length}</p>
         <p className="text-black">Currently Displaying: {displayTrails.length}</p>
+        {analysisProgress && analysisProgress.total > 0 && (
+          <p className="text-blue-600">
+            Analyzing: {analysisProgress.completed}/{analysisProgress.total} balloons
+          </p>
+        )}
+        {balloonTrails.some(trail => trail.source) && (
+          <p className="text-teal-600">Imported Trajectories: {balloonTrails.filter(trail => trail.source).length}</p>
+        )}
         <p className="text-orange-600 font-medium">
           Past Intersections: {new Set(getPastIntersections(hurricaneIntersections).map(i => i.balloonId)).size}
         </p>
         <p className="text-red-600 font-medium">
           Future Risk: {new Set(getFutureIntersections(hurricaneIntersections).map(i => i.balloonId)).size}
         </p>
-        <p className="text-black">
-          Active Storms: {stormData.cones.length} 
-          <span className={`text-xs ml-1 ${usingRealStorms ? 'text-green-600' : 'text-orange-600'}`}>
-            ({usingRealStorms ? 'Live NHC Data' : 'Mock Data'})
-          </span>
-        </p>
+        {warningCrossings.length > 0 && (
+          <p className="text-red-700 font-medium">
+            Crossing Coastal Warnings: {new Set(warningCrossings.map(c => c.balloonId)).size}
+          </p>
+        )}
+        {backtestStorm ? (
+          <p className="text-black">
+            Backtest: {backtestStorm.name} ({backtestStorm.id})
+            <span className="text-xs ml-1 text-indigo-600">({stormData.cones.length} best-track fixes)</span>
+          </p>
+        ) : (
+          <p className="text-black">
+            Active Storms: {stormData.cones.length} 
+            <span className={`text-xs ml-1 ${usingRealStorms ? 'text-green-600' : 'text-orange-600'}`}>
+              ({usingRealStorms ? `Live ${stormData.cones.some(cone => ['WP', 'IO', 'SH'].includes(cone.properties.basin)) ? 'NHC + ATCF' : 'NHC'} Data` : 'Mock Data'})
+            </span>
+          </p>
+        )}
+        {!backtestStorm && stormData.cones.some(cone => cone.properties.basin !== 'AL') && (
+          <p className="text-xs text-gray-600">
+            By Basin: {Object.entries(
+              stormData.cones.reduce<Record<string, number>>((counts, cone) => {
+                counts[cone.properties.basin] = (counts[cone.properties.basin] ?? 0) + 1;
+                return counts;
+              }, {})
+            ).map(([basin, count]) => `${basin} ${count}`).join(', ')}
+          </p>
+        )}
+        {!backtestStorm && stormData.cones.some(cone => cone.properties.isEstimated) && (
+          <p className="text-xs text-orange-600">
+            Estimated Cones: {stormData.cones.filter(cone => cone.properties.isEstimated).length} (official cone unavailable)
+          </p>
+        )}
+        <label className="flex items-center text-xs text-black cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showWindProbabilities}
+            onChange={(e) => onShowWindProbabilitiesChange(e.target.checked)}
+            className="mr-1"
+          />
+          Show 34 kt Wind Probability
+        </label>
+        {stormData.modelTracks.length > 0 && (
+          <label className="flex items-center text-xs text-black cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showModelTracks}
+              onChange={(e) => onShowModelTracksChange(e.target.checked)}
+              className="mr-1"
+            />
+            Show Model Tracks ({new Set(stormData.modelTracks.map(track => track.model)).size} models)
+          </label>
+        )}
         <div className="mt-2 pt-2 border-t text-xs text-gray-600">
           <p>🌪️ Hurricanes: {getRealHurricanes() ? 'Live NHC API' : 'Mock Testing'}</p>
-          <p>🎈 Balloons: {getRealBalloons() ? 'WindBorne API' : 'Mock Testing'}</p>
+          <label className="flex items-center">
+            🎈 Balloons:
+            <select
+              value={balloonSourceId}
+              onChange={(e) => onBalloonSourceChange(e.target.value as BalloonSourceId)}
+              className="ml-1 border rounded text-xs text-black"
+            >
+              {Object.values(BALLOON_DATA_SOURCES).map(source => (
+                <option key={source.id} value={source.id}>{source.label}</option>
+              ))}
+            </select>
+          </label>
         </div>
+        {refreshHighlights && (
+          <div className="mt-2 pt-2 border-t text-xs text-gray-600">
+            <p>Last Refresh: {new Date(refreshHighlights.refreshedAt).toLocaleTimeString()}</p>
+            {refreshHighlights.newAlertBalloonIds.length > 0 && (
+              <p className="text-yellow-600 font-medium">New Alerts: {refreshHighlights.newAlertBalloonIds.length}</p>
+            )}
+            {refreshHighlights.newlyAtRiskBalloonIds.length > 0 && (
+              <p className="text-yellow-600 font-medium">Newly At Risk: {refreshHighlights.newlyAtRiskBalloonIds.length}</p>
+            )}
+          </div>
+        )}
+        {dataQuality && (
+          <div className="mt-2 pt-2 border-t text-xs text-gray-600">
+            <p className={dataQuality.missingHours.length > 0 ? 'text-orange-600' : ''}>
+              Hours Received: {dataQuality.hoursReceived}/{dataQuality.hoursExpected}
+            </p>
+            <p>
+              Rows: {dataQuality.acceptedRows}/{dataQuality.totalRows} kept
+              {dataQuality.repairedRows > 0 && ` (${dataQuality.repairedRows} repaired)`}
+            </p>
+            {dataQuality.issues['speed-violation'] > 0 && (
+              <p>Trails Split at Jumps: {dataQuality.issues['speed-violation']}</p>
+            )}
+          </div>
+        )}
       </div>
       {filterMode !== 'all' && (
         <div className="mt-2 pt-2 border-t text-xs text-black">
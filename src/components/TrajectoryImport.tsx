@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { BalloonTrail } from '@/types';
+import { parseTrajectoryFile } from '@/lib/trajectoryImport';
+
+interface TrajectoryImportProps {
+  importedTrails: BalloonTrail[];
+  onImport: (trails: BalloonTrail[]) => void;
+  onRemoveSource: (source: string) => void;
+}
+
+const TrajectoryImport: React.FC<TrajectoryImportProps> = ({
+  importedTrails,
+  onImport,
+  onRemoveSource
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const sources = Array.from(new Set(importedTrails.map(trail => trail.source).filter((source): source is string => !!source)));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    setError(null);
+
+    const trails: BalloonTrail[] = [];
+    const failures: string[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        trails.push(...parseTrajectoryFile(file.name, await file.text()));
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : `Could not read ${file.name}`);
+      }
+    }
+
+    if (trails.length > 0) onImport(trails);
+    if (failures.length > 0) setError(failures.join('; '));
+  };
+
+  return (
+    <div className="absolute bottom-4 right-20 bg-white rounded-lg shadow-lg p-3 text-xs border" style={{ width: '230px' }}>
+      <h3 className="font-bold mb-2 text-black text-xs">📂 Import Trajectories</h3>
+      <label className="block w-full bg-teal-600 text-white px-2 py-1 rounded hover:bg-teal-700 transition-colors text-xs text-center cursor-pointer">
+        Choose GeoJSON, CSV, KML or GPX
+        <input
+          type="file"
+          multiple
+          accept=".geojson,.json,.csv,.kml,.gpx"
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+      {sources.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {sources.map(source => (
+            <li key={source} className="flex justify-between items-center text-black">
+              <span className="truncate" title={source}>
+                {source} ({importedTrails.filter(trail => trail.source === source).length})
+              </span>
+              <button onClick={() => onRemoveSource(source)} className="text-gray-500 hover:text-gray-700 ml-2">×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrajectoryImport;
@@ -18,14 +18,47 @@ export const APP_CONFIG = {
       LARGE_TEST_HURRICANES: true,  // Use big hurricanes for intersection testing
       INCLUDE_PACIFIC: true,        // Include Pacific hurricanes
       INCLUDE_CONTINENTAL: true,    // Include continental US coverage
-    }
+    },
+
+    // ATCF best-track decks for basins NHC doesn't cover (data/atcf or ATCF_DECK_URLS)
+    ATCF: {
+      ENABLED: true,
+      BASINS: ['WP', 'IO', 'SH'],   // West Pacific, North Indian Ocean, Southern Hemisphere
+      ACTIVE_HOURS: 24,             // A deck counts as an active storm while its latest fix is this recent
+      // Guidance drawn as ensemble "spaghetti" (empty for every model in the a-deck)
+      MODELS: ['OFCL', 'JTWC', 'AVNI', 'EMXI', 'EGRI', 'CMCI', 'NVGI', 'HWFI', 'HMNI', 'HFAI', 'CTCI', 'TVCN'],
+    },
+
+    // How often the server records the active storms' advisories into the advisory history
+    ADVISORY_RECORD_MINUTES: 30,
   },
   
   // Balloon Data Configuration  
   BALLOON_DATA: {
+    // Default data source on load (can be switched at runtime in the stats panel)
     // Set to true to fetch real balloon data from WindBorne API
     // Set to false to use mock balloon data
     USE_REAL_DATA: true,
+    
+    // How far back the "Recorded Archive" data source reaches
+    ARCHIVE_SOURCE_HOURS: 72,
+  },
+  
+  // Live Refresh Configuration
+  REFRESH: {
+    // Periodically append new balloon hours and re-check storms without reloading the page
+    ENABLED: true,
+    INTERVAL_MINUTES: 10,
+    USE_STREAM: true,             // Receive updates over /api/stream (SSE) instead of polling
+    STREAM_POLL_SECONDS: 60,      // How often the server checks upstream for stream events
+  },
+  
+  // Trajectory Archive Configuration (server-side)
+  ARCHIVE: {
+    // Store every hourly snapshot so trails can be requested beyond the 24-hour window
+    ENABLED: true,
+    INTERVAL_MINUTES: 60,         // How often the scheduler pulls the latest snapshots
+    MAX_RANGE_DAYS: 14,           // Longest time range a single trails request may cover
   },
   
   // Debug Configuration
@@ -39,3 +72,5 @@ export const APP_CONFIG = {
 export const getRealHurricanes = () => APP_CONFIG.HURRICANE_DATA.USE_REAL_DATA;
 export const getRealBalloons = () => APP_CONFIG.BALLOON_DATA.USE_REAL_DATA;
 export const isDebugMode = () => APP_CONFIG.DEBUG.VERBOSE_LOGGING;
+export const isArchiveEnabled = () => APP_CONFIG.ARCHIVE.ENABLED;
+export const isLiveRefreshEnabled = () => APP_CONFIG.REFRESH.ENABLED;
@@ -0,0 +1,41 @@
+// Scheduler handles live on globalThis: a dev hot reload runs register() again in a fresh
+// module, and the previous intervals have to be cleared rather than stacked
+const schedulers = globalThis as typeof globalThis & {
+  archiveInterval?: ReturnType<typeof setInterval>;
+  advisoryInterval?: ReturnType<typeof setInterval>;
+};
+
+// Next.js calls register() once per server instance on startup
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { APP_CONFIG, getRealHurricanes, isArchiveEnabled } = await import('@/config/app');
+
+  if (isArchiveEnabled()) {
+    const { archiveLatestSnapshots } = await import('@/lib/windborne');
+
+    // Pull the current treasure window on a schedule so the archive keeps growing
+    // even when nobody has the map open
+    const archive = () => {
+      archiveLatestSnapshots().catch(() => undefined);
+    };
+
+    archive();
+    clearInterval(schedulers.archiveInterval);
+    schedulers.archiveInterval = setInterval(archive, APP_CONFIG.ARCHIVE.INTERVAL_MINUTES * 60 * 1000);
+  }
+
+  if (getRealHurricanes()) {
+    const { recordActiveAdvisories } = await import('@/lib/advisoryArchive');
+
+    // Record each advisory as NHC issues it. The storms come from the app's own NHC routes,
+    // which aren't being served yet during register(), so the first run waits an interval.
+    const baseUrl = `http://localhost:${process.env.PORT ?? 3000}`;
+    const record = () => {
+      recordActiveAdvisories(baseUrl).catch(() => undefined);
+    };
+
+    clearInterval(schedulers.advisoryInterval);
+    schedulers.advisoryInterval = setInterval(record, APP_CONFIG.HURRICANE_DATA.ADVISORY_RECORD_MINUTES * 60 * 1000);
+  }
+}
@@ -0,0 +1,85 @@
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { StormCone, StormTrack } from '@/types';
+
+// The archive directory is read at import time
+process.env.ADVISORY_ARCHIVE_DIR = mkdtempSync(path.join(os.tmpdir(), 'advisory-archive-'));
+let archive: typeof import('@/lib/advisoryArchive');
+
+vi.mock('@/lib/stormData', () => ({ fetchActiveStorms: vi.fn() }));
+
+beforeAll(async () => {
+  archive = await import('@/lib/advisoryArchive');
+});
+
+const cone = (id: string, advisoryNumber: string, dateTime: string): StormCone => ({
+  id,
+  name: `${id} cone`,
+  geometry: { type: 'Polygon', coordinates: [[[-80, 20], [-70, 20], [-70, 30], [-80, 20]]] },
+  properties: { stormId: id, stormName: 'MILTON', basin: 'AL', advisoryNumber, dateTime, maxWindSpeed: 100 }
+});
+
+const track = (id: string): StormTrack => ({
+  id: `${id}-track`,
+  name: 'MILTON Forecast Track',
+  geometry: { type: 'LineString', coordinates: [[-80, 20], [-75, 25]] },
+  properties: { stormId: id, stormName: 'MILTON', basin: 'AL', category: 'Hurricane', maxWindSpeed: 100 },
+  forecastPoints: []
+});
+
+describe('archiveAdvisories', () => {
+  it('writes each advisory once and pairs it with its storm track', async () => {
+    const first = { cones: [cone('al142024', '10', '2024-10-08T03:00:00.000Z')], tracks: [track('al142024'), track('al152024')] };
+
+    expect(await archive.archiveAdvisories(first)).toBe(1);
+    expect(await archive.archiveAdvisories(first)).toBe(0);
+
+    const next = { cones: [cone('al142024', '11', '2024-10-08T09:00:00.000Z')], tracks: [] };
+    expect(await archive.archiveAdvisories(next)).toBe(1);
+
+    const advisories = await archive.readStormAdvisories('al142024');
+    expect(advisories.map(advisory => advisory.advisoryNumber)).toEqual(['10', '11']);
+    expect(advisories[0].track?.id).toBe('al142024-track');
+    expect(advisories[1].track).toBeNull();
+  });
+
+  it('skips storm ids that cannot be file names', async () => {
+    expect(await archive.archiveAdvisories({ cones: [cone('../escape', '1', '2024-10-08T03:00:00.000Z')], tracks: [] })).toBe(0);
+    expect(await archive.readStormAdvisories('../escape')).toEqual([]);
+  });
+});
+
+describe('listAdvisoryStorms', () => {
+  it('summarizes each storm with history, most recently updated first', async () => {
+    await archive.archiveAdvisories({ cones: [cone('al152024', '1', '2024-10-09T00:00:00.000Z')], tracks: [] });
+
+    const storms = await archive.listAdvisoryStorms();
+    expect(storms.map(storm => [storm.stormId, storm.advisoryCount, storm.latestIssuance])).toEqual([
+      ['al152024', 1, '2024-10-09T00:00:00.000Z'],
+      ['al142024', 2, '2024-10-08T09:00:00.000Z'],
+    ]);
+  });
+});
+
+describe('recordActiveAdvisories', () => {
+  it('archives the active storms only when they are real', async () => {
+    const { fetchActiveStorms } = await import('@/lib/stormData');
+    const storms = {
+      cones: [cone('ep012024', '3', '2024-06-01T15:00:00.000Z')],
+      tracks: [],
+      windFields: [],
+      windProbabilities: [],
+      watchesWarnings: [],
+      modelTracks: []
+    };
+
+    vi.mocked(fetchActiveStorms).mockResolvedValueOnce({ ...storms, isRealData: false });
+    expect(await archive.recordActiveAdvisories('http://localhost:3000')).toBe(0);
+
+    vi.mocked(fetchActiveStorms).mockResolvedValueOnce({ ...storms, isRealData: true });
+    expect(await archive.recordActiveAdvisories('http://localhost:3000')).toBe(1);
+    expect(fetchActiveStorms).toHaveBeenCalledWith('http://localhost:3000');
+  });
+});
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AdvisoryStormSummary, StormAdvisory, StormData } from '@/types';
+import { fetchActiveStorms } from '@/lib/stormData';
+
+// Append-only history of every storm advisory the app has seen (server-side only).
+// One JSON-lines file per storm, each line one advisory with its cone and track.
+
+const ADVISORY_ARCHIVE_DIR = process.env.ADVISORY_ARCHIVE_DIR || path.join(process.cwd(), 'data', 'advisories');
+
+// Storm ids become file names, so only plain ids are accepted
+const STORM_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+let archivedKeys: Set<string> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const advisoryKey = (advisory: Pick<StormAdvisory, 'stormId' | 'advisoryNumber' | 'issuance'>) =>
+  `${advisory.stormId}|${advisory.advisoryNumber}|${advisory.issuance}`;
+
+export const isValidStormId = (stormId: string) => STORM_ID_PATTERN.test(stormId);
+
+// Advisories archived before cones and tracks carried their storm ID take the advisory's
+const withStormId = (advisory: StormAdvisory): StormAdvisory => ({
+  ...advisory,
+  cone: { ...advisory.cone, properties: { ...advisory.cone.properties, stormId: advisory.cone.properties.stormId ?? advisory.stormId } },
+  track: advisory.track && {
+    ...advisory.track,
+    properties: { ...advisory.track.properties, stormId: advisory.track.properties.stormId ?? advisory.stormId }
+  }
+});
+
+async function readStormFile(fileName: string): Promise<StormAdvisory[]> {
+  try {
+    const content = await fs.readFile(path.join(ADVISORY_ARCHIVE_DIR, fileName), 'utf8');
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .flatMap(line => {
+        try {
+          return [withStormId(JSON.parse(line) as StormAdvisory)];
+        } catch {
+          return []; // Skip a partially written line
+        }
+      });
+  } catch {
+    return [];
+  }
+}
+
+async function listStormFiles(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(ADVISORY_ARCHIVE_DIR);
+    return files.filter(name => name.endsWith('.jsonl')).sort();
+  } catch {
+    return [];
+  }
+}
+
+// Advisories already on disk, loaded once so repeated loads aren't appended again
+async function getArchivedKeys(): Promise<Set<string>> {
+  if (!archivedKeys) {
+    const keys = new Set<string>();
+    for (const fileName of await listStormFiles()) {
+      (await readStormFile(fileName)).forEach(advisory => keys.add(advisoryKey(advisory)));
+    }
+    archivedKeys = keys;
+  }
+  return archivedKeys;
+}
+
+/**
+ * Appends each storm's current advisory unless it is archived already. An advisory is
+ * one cone (with its advisory number and issuance time) plus the storm's track, matched
+ * by the track id starting with the cone id.
+ */
+export function archiveAdvisories(storms: Pick<StormData, 'cones' | 'tracks'>, recordedAt: number = Date.now()): Promise<number> {
+  const run = writeQueue.then(async () => {
+    const known = await getArchivedKeys();
+    const linesByFile = new Map<string, string[]>();
+    let written = 0;
+
+    storms.cones.forEach(cone => {
+      if (!isValidStormId(cone.id)) return;
+
+      const advisory: StormAdvisory = {
+        stormId: cone.id,
+        stormName: cone.properties.stormName,
+        basin: cone.properties.basin,
+        advisoryNumber: cone.properties.advisoryNumber,
+        issuance: cone.properties.dateTime,
+        recordedAt: new Date(recordedAt).toISOString(),
+        cone,
+        track: storms.tracks.find(track => track.id.startsWith(`${cone.id}-`)) ?? null
+      };
+      const key = advisoryKey(advisory);
+      if (known.has(key)) return;
+
+      const fileName = `${cone.id}.jsonl`;
+      linesByFile.set(fileName, [...(linesByFile.get(fileName) ?? []), JSON.stringify(advisory)]);
+      known.add(key);
+      written++;
+    });
+
+    if (written > 0) {
+      await fs.mkdir(ADVISORY_ARCHIVE_DIR, { recursive: true });
+      for (const [fileName, lines] of linesByFile) {
+        await fs.appendFile(path.join(ADVISORY_ARCHIVE_DIR, fileName), lines.join('\n') + '\n', 'utf8');
+      }
+    }
+
+    return written;
+  });
+
+  // Keep the queue alive even if this write fails
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+// Fetches the active storms through the app's own NHC routes (`baseUrl` is its origin)
+// and archives their advisories. Mock storms are never recorded.
+export async function recordActiveAdvisories(baseUrl: string): Promise<number> {
+  const { isRealData, ...storms } = await fetchActiveStorms(baseUrl);
+  return isRealData ? archiveAdvisories(storms) : 0;
+}
+
+const byIssuance = (a: StormAdvisory, b: StormAdvisory) =>
+  new Date(a.issuance).getTime() - new Date(b.issuance).getTime() || a.recordedAt.localeCompare(b.recordedAt);
+
+// Every archived advisory of one storm, oldest first
+export async function readStormAdvisories(stormId: string): Promise<StormAdvisory[]> {
+  if (!isValidStormId(stormId)) return [];
+  return (await readStormFile(`${stormId}.jsonl`)).sort(byIssuance);
+}
+
+// Storms with archived advisories, most recently updated first
+export async function listAdvisoryStorms(): Promise<AdvisoryStormSummary[]> {
+  const summaries: AdvisoryStormSummary[] = [];
+
+  for (const fileName of await listStormFiles()) {
+    const advisories = (await readStormFile(fileName)).sort(byIssuance);
+    const latest = advisories[advisories.length - 1];
+    if (!latest) continue;
+
+    summaries.push({
+      stormId: latest.stormId,
+      stormName: latest.stormName,
+      basin: latest.basin,
+      advisoryCount: advisories.length,
+      latestIssuance: latest.issuance
+    });
+  }
+
+  return summaries.sort((a, b) => new Date(b.latestIssuance).getTime() - new Date(a.latestIssuance).getTime());
+}
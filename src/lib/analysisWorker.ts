@@ -0,0 +1,118 @@
+import {
+  AdvisoryRisk,
+  AdvisoryRiskInput,
+  AnalysisInput,
+  AnalysisResults,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse
+} from '@/types';
+import { analyzeAdvisoryRisk, analyzeTrails } from '@/lib/proximityAnalysis';
+
+// Client side of the analysis worker: one shared worker, one callback set per job.
+
+export interface JobCallbacks<Results> {
+  onProgress: (results: Results, completed: number, total: number) => void; // Results of the latest batch
+  onDone: () => void;
+  onError: (message: string) => void;
+}
+
+export type AnalysisCallbacks = JobCallbacks<AnalysisResults>;
+export type AdvisoryRiskCallbacks = JobCallbacks<AdvisoryRisk[]>;
+
+export interface AnalysisJob {
+  cancel: () => void;
+}
+
+type ProgressResponse = Extract<AnalysisWorkerResponse, { completed: number }>;
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url));
+  }
+  return worker;
+}
+
+function startJob<Results>(
+  request: (jobId: number) => AnalysisWorkerRequest,
+  resultsOf: (response: ProgressResponse) => Results,
+  runInline: () => Results,
+  total: number,
+  callbacks: JobCallbacks<Results>
+): AnalysisJob {
+  const target = getWorker();
+  if (!target) {
+    try {
+      callbacks.onProgress(runInline(), total, total);
+      callbacks.onDone();
+    } catch (error) {
+      callbacks.onError(error instanceof Error ? error.message : 'Unknown error');
+    }
+    return { cancel: () => undefined };
+  }
+
+  const jobId = nextJobId++;
+  const send = (message: AnalysisWorkerRequest) => target.postMessage(message);
+  const handleMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const response = event.data;
+    if (response.jobId !== jobId) return;
+
+    switch (response.type) {
+      case 'progress':
+      case 'advisory-risk-progress':
+        callbacks.onProgress(resultsOf(response), response.completed, response.total);
+        break;
+      case 'done':
+        target.removeEventListener('message', handleMessage);
+        callbacks.onDone();
+        break;
+      case 'error':
+        target.removeEventListener('message', handleMessage);
+        callbacks.onError(response.message);
+        break;
+    }
+  };
+
+  target.addEventListener('message', handleMessage);
+  send(request(jobId));
+
+  return {
+    cancel: () => {
+      target.removeEventListener('message', handleMessage);
+      send({ type: 'cancel', jobId });
+    }
+  };
+}
+
+/**
+ * Analyzes the trails in the worker, reporting each batch as it finishes. Without worker
+ * support the analysis runs in one go on the calling thread. Cancelling stops the worker
+ * at its next batch, and no callbacks fire after it.
+ */
+export function runAnalysis(input: AnalysisInput, callbacks: AnalysisCallbacks): AnalysisJob {
+  return startJob(
+    jobId => ({ type: 'analyze', jobId, input }),
+    response => response.type === 'progress' ? response.results : { alerts: [], intersections: [], warningCrossings: [] },
+    () => analyzeTrails(input.trails, input.storms, input.advisories, input.referenceTime),
+    input.trails.length,
+    callbacks
+  );
+}
+
+/**
+ * Works out which balloons each advisory put at risk, in the worker and in batches like
+ * runAnalysis(). Each batch's risks cover its trails only; mergeAdvisoryRisks() joins them.
+ * It runs alongside an intersection analysis rather than cancelling it.
+ */
+export function runAdvisoryRiskAnalysis(input: AdvisoryRiskInput, callbacks: AdvisoryRiskCallbacks): AnalysisJob {
+  return startJob(
+    jobId => ({ type: 'analyze-advisory-risk', jobId, input }),
+    response => response.type === 'advisory-risk-progress' ? response.risks : [],
+    () => analyzeAdvisoryRisk(input.trails, input.advisories),
+    input.trails.length,
+    callbacks
+  );
+}
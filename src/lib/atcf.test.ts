@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseADeck, parseBDeck } from '@/lib/atcf';
+
+const bestLine = (date: string, lat: string, lon: string, threshold: number, code: string, radii: number[], name = 'MAWAR', number = '02') =>
+  `WP, ${number}, ${date},   , BEST,   0, ${lat}, ${lon}, 130,  922, ST,  ${threshold}, ${code}, ${radii.join(', ')}, 1004,  240,  15,   0,   0,   W,   0,    ,   0,   0, ${name}, D,`;
+
+describe('parseBDeck', () => {
+  it('merges threshold lines into one fix per time', () => {
+    const deck = [
+      bestLine('2023052418', '139N', '1445E', 34, 'NEQ', [120, 110, 100, 110]),
+      bestLine('2023052418', '139N', '1445E', 50, 'AAA', [60, 0, 0, 0]),
+      bestLine('2023052500', '143N', '1440E', 34, 'NEQ', [0, 0, 0, 0]),
+    ].join('\n');
+
+    const [storm] = parseBDeck(deck);
+
+    expect(storm).toMatchObject({ id: 'WP022023', name: 'MAWAR', basin: 'WP' });
+    expect(storm.fixes).toHaveLength(2);
+    expect(storm.fixes[0]).toMatchObject({
+      time: '2023-05-24T18:00:00.000Z',
+      latitude: 13.9,
+      longitude: 144.5,
+      maxWindKt: 130,
+      windRadii: { 34: { ne: 120, se: 110, sw: 100, nw: 110 }, 50: { ne: 60, se: 60, sw: 60, nw: 60 } }
+    });
+    expect(storm.fixes[1].windRadii).toEqual({});
+  });
+
+  it('keeps storms that reuse a cyclone number in different years apart', () => {
+    const deck = [
+      bestLine('2023052418', '139N', '1445E', 34, 'NEQ', [0, 0, 0, 0], 'MAWAR'),
+      bestLine('2024052418', '100N', '1300E', 34, 'NEQ', [0, 0, 0, 0], 'EWINIAR'),
+    ].join('\n');
+
+    expect(parseBDeck(deck).map(storm => `${storm.id} ${storm.name}`)).toEqual(['WP022023 MAWAR', 'WP022024 EWINIAR']);
+  });
+
+  it('continues a storm across New Year under its first year', () => {
+    const deck = [
+      bestLine('2023123118', '150S', '0800E', 34, 'NEQ', [0, 0, 0, 0], 'ALVARO', '05').replace(/^WP/, 'SH'),
+      bestLine('2024010100', '152S', '0795E', 34, 'NEQ', [0, 0, 0, 0], 'ALVARO', '05').replace(/^WP/, 'SH'),
+    ].join('\n');
+
+    const storms = parseBDeck(deck);
+    expect(storms).toHaveLength(1);
+    expect(storms[0]).toMatchObject({ id: 'SH052023', basin: 'SH' });
+    expect(storms[0].fixes[1].longitude).toBe(79.5);
+  });
+});
+
+describe('parseADeck', () => {
+  const aidLine = (init: string, model: string, tau: number, lat: string, lon: string) =>
+    `AL, 05, ${init}, 03, ${model}, ${tau}, ${lat}, ${lon},  85,  970, HU,  34, NEQ,   90,   80,   60,   80,`;
+
+  it('keeps the latest run per model with valid times from the initial time', () => {
+    const deck = [
+      aidLine('2019083000', 'AVNI', 0, '250N', '700W'),
+      aidLine('2019083000', 'AVNI', 12, '255N', '710W'),
+      aidLine('2019083006', 'AVNI', 0, '252N', '705W'),
+      aidLine('2019083006', 'AVNI', 12, '258N', '715W'),
+      aidLine('2019083006', 'AVNI', 12, '258N', '715W').replace(' 34, NEQ', ' 50, NEQ'),
+      aidLine('2019083006', 'CARQ', 0, '252N', '705W'),
+    ].join('\n');
+
+    const tracks = parseADeck(deck, 'al052019', 'DORIAN');
+
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0]).toMatchObject({ stormId: 'al052019', stormName: 'DORIAN', model: 'AVNI', initTime: '2019-08-30T06:00:00.000Z' });
+    expect(tracks[0].forecastPoints.map(point => point.validTime)).toEqual(['2019-08-30T06:00:00.000Z', '2019-08-30T18:00:00.000Z']);
+    expect(tracks[0].geometry.coordinates[1]).toEqual([-71.5, 25.8]);
+  });
+});
@@ -0,0 +1,186 @@
+import { BestTrackFix, ForecastPoint, HistoricalStorm, ModelTrack, StormBasin, WindThreshold } from '@/types';
+
+// Parses ATCF decks as issued by JTWC and NHC: best tracks (b-decks, e.g. bwp022023.dat)
+// and model guidance (a-decks, e.g. aal052019.dat), which share the same columns.
+// One line per fix and wind threshold:
+//   WP, 02, 2023052418,   , BEST,   0, 139N, 1445E, 130,  922, ST,  34, NEQ,  120,  110,  100,  110, ...
+// i.e. basin, cyclone number, YYYYMMDDHH, technique number, technique, tau, position in
+// tenths of a degree, wind (kt), pressure (mb), system type, threshold, radii code and the
+// four quadrant radii (nm). The storm name is column 27. In a-decks the technique is the
+// model and tau the forecast hour from the initial time.
+
+const BASINS: StormBasin[] = ['AL', 'EP', 'CP', 'WP', 'IO', 'SH'];
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest gap across New Year that still continues the same storm
+const SEASON_ROLLOVER_GAP_HOURS = 72;
+
+// Models older than the newest run by more than this are left out (interpolated aids lag 6 h)
+const MODEL_MAX_AGE_HOURS = 12;
+
+// Labels for the basin codes, for display
+export const BASIN_LABELS: Record<StormBasin, string> = {
+  AL: 'North Atlantic',
+  EP: 'Eastern North Pacific',
+  CP: 'Central North Pacific',
+  WP: 'Western North Pacific',
+  IO: 'North Indian Ocean',
+  SH: 'Southern Hemisphere'
+};
+
+// "139N" / "1445E" in tenths of a degree
+const parseTenths = (value: string): number => {
+  const match = value.match(/^(\d+)([NSEW])$/);
+  if (!match) return NaN;
+  return parseInt(match[1]) / 10 * (match[2] === 'S' || match[2] === 'W' ? -1 : 1);
+};
+
+const parsePositive = (value: string | undefined): number | null => {
+  const number = value ? parseInt(value) : NaN;
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+/**
+ * Parses the BEST lines of a b-deck into one storm per basin, cyclone number and year
+ * (numbers restart every season). Lines for the same time (one per wind threshold) are
+ * merged into a single fix.
+ */
+export function parseBDeck(content: string): HistoricalStorm[] {
+  const storms = new Map<string, { storm: HistoricalStorm; fixes: Map<string, BestTrackFix>; lastTime: number }>();
+
+  content.split(/\r?\n/).forEach(line => {
+    const fields = line.split(',').map(field => field.trim());
+    if (fields.length < 11 || fields[4] !== 'BEST' || parseInt(fields[5]) !== 0) return;
+
+    const basin = fields[0].toUpperCase() as StormBasin;
+    const date = fields[2].match(/^(\d{4})(\d{2})(\d{2})(\d{2})$/);
+    const latitude = parseTenths(fields[6]);
+    const longitude = parseTenths(fields[7]);
+    if (!BASINS.includes(basin) || !date || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+
+    const number = `${basin}${fields[1].padStart(2, '0')}`;
+    const timeMs = Date.UTC(+date[1], +date[2] - 1, +date[3], +date[4]);
+
+    // Southern Hemisphere seasons span New Year; a storm carried over keeps its first year
+    const carriedOver = storms.get(`${number}${+date[1] - 1}`);
+    const key = carriedOver && timeMs - carriedOver.lastTime <= SEASON_ROLLOVER_GAP_HOURS * HOUR_MS
+      ? `${number}${+date[1] - 1}`
+      : `${number}${date[1]}`;
+    let entry = storms.get(key);
+    if (!entry) {
+      entry = { storm: { id: key, name: number, basin, fixes: [] }, fixes: new Map(), lastTime: timeMs };
+      storms.set(key, entry);
+    }
+    entry.lastTime = Math.max(entry.lastTime, timeMs);
+
+    // Names go from the number ('TWO') to the given name; keep the latest
+    const name = fields[27];
+    if (name && name !== 'INVEST') entry.storm.name = name;
+
+    const time = new Date(timeMs).toISOString();
+    let fix = entry.fixes.get(time);
+    if (!fix) {
+      fix = {
+        time,
+        latitude,
+        longitude,
+        maxWindKt: parsePositive(fields[8]),
+        pressureMb: parsePositive(fields[9]),
+        status: fields[10],
+        windRadii: {}
+      };
+      entry.fixes.set(time, fix);
+    }
+
+    // NEQ lists NE, SE, SW, NW; AAA is a full circle in the first radius
+    const threshold = parseInt(fields[11]) as WindThreshold;
+    const [ne, se, sw, nw] = fields.slice(13, 17).map(value => parseInt(value) || 0);
+    if ((threshold === 34 || threshold === 50 || threshold === 64) && (ne > 0 || se > 0 || sw > 0 || nw > 0)) {
+      fix.windRadii[threshold] = fields[12] === 'AAA' ? { ne, se: ne, sw: ne, nw: ne } : { ne, se, sw, nw };
+    }
+  });
+
+  return Array.from(storms.values()).map(({ storm, fixes }) => ({
+    ...storm,
+    fixes: Array.from(fixes.values()).sort((a, b) => a.time.localeCompare(b.time))
+  }));
+}
+
+interface ModelRun {
+  model: string;
+  basin: StormBasin;
+  init: number;
+  points: Map<number, ForecastPoint>; // By forecast hour
+}
+
+/**
+ * Latest guidance track of each model in an a-deck. `models` limits which techniques are
+ * kept (all when empty); CARQ and WRNG are analysis/warning records, never forecasts.
+ * Tracks need at least two forecast hours.
+ */
+export function parseADeck(content: string, stormId: string, stormName: string, models: readonly string[] = []): ModelTrack[] {
+  const runs = new Map<string, ModelRun>();
+
+  content.split(/\r?\n/).forEach(line => {
+    const fields = line.split(',').map(field => field.trim());
+    if (fields.length < 10) return;
+
+    const [basinText, , initText, , model, tauText, latText, lonText, windText, pressureText] = fields;
+    if (model === 'CARQ' || model === 'WRNG' || model === 'BEST') return;
+    if (models.length > 0 && !models.includes(model)) return;
+
+    const basin = basinText.toUpperCase() as StormBasin;
+    const date = initText.match(/^(\d{4})(\d{2})(\d{2})(\d{2})$/);
+    const tau = parseInt(tauText);
+    const latitude = parseTenths(latText);
+    const longitude = parseTenths(lonText);
+    if (!BASINS.includes(basin) || !date || !(tau >= 0) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+
+    const init = Date.UTC(+date[1], +date[2] - 1, +date[3], +date[4]);
+    const key = `${model}|${init}`;
+    let run = runs.get(key);
+    if (!run) {
+      run = { model, basin, init, points: new Map() };
+      runs.set(key, run);
+    }
+
+    // One line per wind threshold at each hour; the first carries the position
+    if (run.points.has(tau)) return;
+    const maxWindKt = parsePositive(windText);
+    run.points.set(tau, {
+      validTime: new Date(init + tau * HOUR_MS).toISOString(),
+      forecastHour: tau,
+      latitude,
+      longitude,
+      maxWindKt,
+      pressureMb: parsePositive(pressureText),
+      classification: fields[10] || 'Unknown'
+    });
+  });
+
+  // Newest run per model, dropping models that have stopped running
+  const latestRuns = new Map<string, ModelRun>();
+  runs.forEach(run => {
+    const current = latestRuns.get(run.model);
+    if (run.points.size >= 2 && (!current || run.init > current.init)) latestRuns.set(run.model, run);
+  });
+  const newestInit = Math.max(0, ...Array.from(latestRuns.values()).map(run => run.init));
+
+  return Array.from(latestRuns.values())
+    .filter(run => newestInit - run.init <= MODEL_MAX_AGE_HOURS * HOUR_MS)
+    .map(run => {
+      const forecastPoints = Array.from(run.points.values()).sort((a, b) => a.forecastHour - b.forecastHour);
+      const initTime = new Date(run.init).toISOString();
+      return {
+        id: `${stormId}-${run.model}-${initTime}`,
+        stormId,
+        stormName,
+        basin: run.basin,
+        model: run.model,
+        initTime,
+        geometry: { type: 'LineString' as const, coordinates: forecastPoints.map(point => [point.longitude, point.latitude]) },
+        forecastPoints
+      };
+    })
+    .sort((a, b) => a.model.localeCompare(b.model));
+}
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { HistoricalStorm, ModelTrack } from '@/types';
+import { parseADeck, parseBDeck } from '@/lib/atcf';
+import { upstreamFetch } from '@/lib/upstreamFixtures';
+import { APP_CONFIG } from '@/config/app';
+
+// ATCF b-decks for basins outside NHC's area (server-side only). Decks are read from a
+// local directory and from a comma-separated list of mirror URLs, e.g.
+//   ATCF_DECK_URLS=https://mirror.example/btk/bwp022023.dat,https://mirror.example/btk/bsh182023.dat
+// A-decks (model guidance) are looked up per storm, locally first and then under
+// ATCF_AID_BASE_URL, which defaults to NHC's public aids (Atlantic and Pacific only).
+
+const ATCF_DECK_DIR = process.env.ATCF_DECK_DIR || path.join(process.cwd(), 'data', 'atcf');
+const ATCF_DECK_URLS = (process.env.ATCF_DECK_URLS || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(url => url.length > 0);
+const ATCF_AID_BASE_URL = process.env.ATCF_AID_BASE_URL || 'https://ftp.nhc.noaa.gov/atcf/aid_public';
+
+// Decks are often served gzipped
+const decodeDeck = (buffer: Buffer) =>
+  (buffer[0] === 0x1f && buffer[1] === 0x8b ? gunzipSync(buffer) : buffer).toString('utf8');
+
+async function readLocalDecks(): Promise<string[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(ATCF_DECK_DIR)).filter(name => /^b.*\.dat(\.gz)?$/i.test(name));
+  } catch {
+    return [];
+  }
+  return Promise.all(files.map(async fileName => decodeDeck(await fs.readFile(path.join(ATCF_DECK_DIR, fileName)))));
+}
+
+async function fetchMirroredDeck(url: string): Promise<string | null> {
+  try {
+    const response = await upstreamFetch(url, { next: { revalidate: 1800 } });
+    return response.ok ? decodeDeck(Buffer.from(await response.arrayBuffer())) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Every storm in the local and mirrored decks; unreachable mirrors are skipped
+export async function loadBestTrackDecks(): Promise<HistoricalStorm[]> {
+  const [localDecks, mirroredDecks] = await Promise.all([
+    readLocalDecks(),
+    Promise.all(ATCF_DECK_URLS.map(fetchMirroredDeck))
+  ]);
+
+  return [...localDecks, ...mirroredDecks]
+    .filter((content): content is string => content !== null)
+    .flatMap(parseBDeck)
+    .filter(storm => storm.fixes.length > 0);
+}
+
+async function readLocalAidDeck(stormId: string): Promise<string | null> {
+  for (const fileName of [`a${stormId}.dat`, `a${stormId}.dat.gz`]) {
+    try {
+      return decodeDeck(await fs.readFile(path.join(ATCF_DECK_DIR, fileName)));
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+async function fetchAidDeck(stormId: string): Promise<string | null> {
+  try {
+    const response = await upstreamFetch(`${ATCF_AID_BASE_URL}/a${stormId}.dat.gz`, { next: { revalidate: 1800 } });
+    return response.ok ? decodeDeck(Buffer.from(await response.arrayBuffer())) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Latest guidance of the configured models for one storm, e.g. stormId 'al052019'
+export async function loadModelTracks(stormId: string, stormName: string): Promise<ModelTrack[]> {
+  const id = stormId.toLowerCase();
+  const content = await readLocalAidDeck(id) ?? await fetchAidDeck(id);
+  return content ? parseADeck(content, stormId, stormName, APP_CONFIG.HURRICANE_DATA.ATCF.MODELS) : [];
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { assembleBalloonTrails, assembleTimedTrails, treasureValidTime } from '@/lib/balloonData';
+
+const HOUR_MS = 60 * 60 * 1000;
+const REFERENCE = Date.UTC(2024, 8, 10, 12, 25);
+const REFERENCE_HOUR = Date.UTC(2024, 8, 10, 12);
+
+// One balloon drifting east by 0.1° per hour, newest file first like the treasure feed
+const driftingBalloon = (hour: number) => [[30, -60 - hour * 0.1, 18]];
+
+describe('treasureValidTime', () => {
+  it('maps NN.json to NN hours before the reference hour', () => {
+    expect(treasureValidTime(0, REFERENCE)).toBe(REFERENCE_HOUR);
+    expect(treasureValidTime(23, REFERENCE)).toBe(REFERENCE_HOUR - 23 * HOUR_MS);
+  });
+});
+
+describe('assembleBalloonTrails', () => {
+  it('timestamps 00.json as the current hour and orders points oldest first', () => {
+    const snapshots = [0, 1, 2].map(hour => ({ hour, data: driftingBalloon(hour) }));
+    const { trails, report } = assembleBalloonTrails(snapshots, REFERENCE);
+
+    expect(trails).toHaveLength(1);
+    const points = trails[0].points;
+    expect(points.map(point => point.timestamp)).toEqual([
+      new Date(REFERENCE_HOUR - 2 * HOUR_MS).toISOString(),
+      new Date(REFERENCE_HOUR - HOUR_MS).toISOString(),
+      new Date(REFERENCE_HOUR).toISOString(),
+    ]);
+    expect(points[2].longitude).toBe(-60);
+    expect(report.missingHours).toHaveLength(21);
+    expect(report.missingHours).not.toContain(0);
+    expect(report.missingHours).toContain(23);
+  });
+});
+
+describe('assembleTimedTrails', () => {
+  it('keeps stored valid times across multi-day ranges', () => {
+    const start = REFERENCE_HOUR - 50 * HOUR_MS;
+    const snapshots = [0, 1, 2].map(offset => ({
+      validTime: start + offset * HOUR_MS,
+      data: [[30, -60 + offset * 0.1, 18]],
+    }));
+    const { trails, report } = assembleTimedTrails(snapshots, snapshots.map(s => s.validTime), REFERENCE_HOUR);
+
+    expect(trails[0].points.map(point => new Date(point.timestamp).getTime()))
+      .toEqual(snapshots.map(s => s.validTime));
+    expect(report.missingHours).toEqual([]);
+  });
+});
@@ -1,4 +1,6 @@
-import { BalloonDataPoint, BalloonTrail } from '@/types';
+import { BalloonDataPoint, BalloonTrail, DataQualityReport } from '@/types';
+import { associateObservations } from '@/lib/trackAssociation';
+import { sanitizeSnapshots } from '@/lib/dataQuality';
 
 // No longer needed - using Next.js API route instead
 // const CORS_PROXY = 'https://cors-anywhere.herokuapp.com/';
@@ -7,130 +9,178 @@ import { BalloonDataPoint, BalloonTrail } from '@/types';
 // Generate altitude-based colors (blue for low, red for high)
 const getAltitudeColor = (altitude: number): string => {
   // Assuming balloons fly between 0-30km altitude
-  const normalizedAlt = Math.min(altitude / 30000, 1);
+  const normalizedAlt = Math.min(altitude / 30, 1);
   const hue = (1 - normalizedAlt) * 240; // Blue (240) to Red (0)
   return `hsl(${hue}, 70%, 50%)`;
 };
 
 
 
-export async function fetchBalloonData(): Promise<BalloonTrail[]> {
-  try {
-    // Create array of fetch promises for parallel requests
-    const fetchPromises = [];
-    
-    // Fetch last 24 hours of data (files 00.json through 23.json)
-    for (let hour = 0; hour < 24; hour++) {
-      const fileName = hour.toString().padStart(2, '0');
-      
-      // Use Next.js API route to avoid CORS issues
-      const fetchPromise = fetch(`/api/balloon-data?hour=${fileName}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      })
-        .then(async (response) => {
-                if (!response.ok) {
-        return null;
-      }
-          const data = await response.json();
-          return { hour: parseInt(fileName), data };
-        })
-        .catch(() => {
-          return null;
-        });
-      
-      fetchPromises.push(fetchPromise);
-    }
-    
-    // Wait for all requests to complete
-    const results = await Promise.all(fetchPromises);
-    
-    // Filter out failed requests and sort by hour
-    const validResults = results
-      .filter(result => result !== null)
-      .sort((a, b) => a!.hour - b!.hour);
-    
-    // Track each balloon across all hours
-    // Each position in the hourly array represents the same balloon index across time
-    const balloonTrails: BalloonTrail[] = [];
-    
-    // First, determine how many balloons we have (from the first available hour)
-    const firstValidResult = validResults[0];
-    if (!firstValidResult || !Array.isArray(firstValidResult.data)) {
-      return [];
-    }
+// Treasure files 00.json through 23.json
+const EXPECTED_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface HourlySnapshot {
+  hour: number;        // NN of the treasure file NN.json
+  data: unknown;
+  recordedAt?: number; // Set when the snapshot was served from a recorded fixture
+}
+
+// A snapshot placed at its absolute valid time, as stored in the archive
+export interface TimedSnapshot {
+  validTime: number;
+  data: unknown;
+}
+
+export const floorToHour = (time: number) => Math.floor(time / HOUR_MS) * HOUR_MS;
+
+// NN.json holds the fleet as of NN hours before the current hour: 00.json is now, 23.json a day ago
+export const treasureValidTime = (hour: number, referenceTime: number) =>
+  floorToHour(referenceTime) - hour * HOUR_MS;
+
+export interface AssembledTrails {
+  trails: BalloonTrail[];
+  report: DataQualityReport;
+}
+
+export interface BalloonTrailQuery {
+  from?: string;                                  // ISO timestamps, served from the archive when set
+  to?: string;
+  since?: string;                                 // ISO timestamp, only points after it are returned
+  bbox?: [number, number, number, number];        // [minLon, minLat, maxLon, maxLat]
+  ids?: string[];
+}
+
+// Stitch the hourly treasure snapshots (00.json through 23.json) into per-balloon trails
+export function assembleBalloonTrails(
+  snapshots: HourlySnapshot[],
+  referenceTime: number = Date.now(),
+  previousTrails: BalloonTrail[] = []
+): AssembledTrails {
+  return assembleTimedTrails(
+    snapshots.map(snapshot => ({ validTime: treasureValidTime(snapshot.hour, referenceTime), data: snapshot.data })),
+    EXPECTED_HOURS.map(hour => treasureValidTime(hour, referenceTime)),
+    floorToHour(referenceTime),
+    previousTrails
+  );
+}
+
+// Stitch snapshots with known valid times (live or archived) into per-balloon trails
+export function assembleTimedTrails(
+  snapshots: TimedSnapshot[],
+  expectedTimes: number[],
+  referenceTime: number,
+  previousTrails: BalloonTrail[] = []
+): AssembledTrails {
+  // Validate and repair each hour's rows, keeping their array slot as an association hint
+  const { frames, windowStart, report } = sanitizeSnapshots(snapshots, expectedTimes);
+  
+  // Match positions across hours by plausible drift instead of trusting array order
+  const { tracks, rejectedJumps } = associateObservations(frames, previousTrails);
+  
+  const balloonTrails: BalloonTrail[] = tracks.map(track => {
+    const points: BalloonDataPoint[] = track.observations.map(observation => ({
+      latitude: observation.latitude,
+      longitude: observation.longitude,
+      altitude: observation.altitude,
+      // Frame hours count from the start of the window
+      timestamp: new Date(windowStart + observation.hour * HOUR_MS).toISOString(),
+      balloonId: track.balloonId
+    }));
     
-    const numBalloons = firstValidResult.data.length;
+    // Color based on average altitude
+    const avgAltitude = points.reduce((sum, point) => sum + point.altitude, 0) / points.length;
     
-    // Initialize trails for each balloon
-    for (let balloonIndex = 0; balloonIndex < numBalloons; balloonIndex++) {
-      const balloonId = `balloon-${balloonIndex.toString().padStart(4, '0')}`;
-      balloonTrails.push({
-        balloonId,
-        points: [],
-        color: '#0066cc' // Will be updated based on average altitude
-      });
+    return {
+      balloonId: track.balloonId,
+      points,
+      color: getAltitudeColor(avgAltitude)
+    };
+  });
+  
+  // Filter out trails with too few points (need at least 2 points to draw a line)
+  const trails = balloonTrails.filter(trail => trail.points.length >= 2);
+  
+  return {
+    trails,
+    report: {
+      ...report,
+      issues: { ...report.issues, 'speed-violation': rejectedJumps },
+      generatedAt: new Date(referenceTime).toISOString(),
+      balloonsTracked: trails.length
     }
-    
-    // Process each hour and add points to the corresponding balloon trails
-    validResults.forEach((result) => {
-      if (!result || !Array.isArray(result.data)) return;
-      
-      const { hour, data: hourlyData } = result;
-      
-      hourlyData.forEach((balloonCoords: number[], balloonIndex: number) => {
-        // Handle the actual API format: [latitude, longitude, altitude]
-        if (Array.isArray(balloonCoords) && balloonCoords.length >= 3 && balloonIndex < numBalloons) {
-          const latitude = balloonCoords[0];
-          const longitude = balloonCoords[1];
-          const altitude = balloonCoords[2];
-          
-          // Skip if essential data is missing or invalid
-          if (typeof latitude !== 'number' || typeof longitude !== 'number' || 
-              isNaN(latitude) || isNaN(longitude) || 
-              Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
-            return;
-          }
-          
-          // Create timestamp for this hour (hours ago from now)
-          const timestamp = new Date(Date.now() - (23 - hour) * 60 * 60 * 1000).toISOString();
-          
-          // Add data point to the corresponding balloon trail
-          const trail = balloonTrails[balloonIndex];
-          if (trail) {
-            trail.points.push({
-              latitude: latitude,
-              longitude: longitude,
-              altitude: altitude,
-              timestamp: timestamp,
-              balloonId: trail.balloonId
-            });
-          }
-        }
-      });
+  };
+}
+
+// Apply the optional since/bbox/ids restrictions of the trails endpoint
+export function filterBalloonTrails(trails: BalloonTrail[], query: BalloonTrailQuery): BalloonTrail[] {
+  const idSet = query.ids && query.ids.length > 0 ? new Set(query.ids) : null;
+  const sinceTime = query.since ? new Date(query.since).getTime() : null;
+  
+  return trails
+    .filter(trail => !idSet || idSet.has(trail.balloonId))
+    .map(trail => sinceTime === null ? trail : {
+      ...trail,
+      points: trail.points.filter(point => new Date(point.timestamp).getTime() > sinceTime)
+    })
+    // With `since` the caller is appending to trails it already has, so a single new point counts
+    .filter(trail => trail.points.length >= (sinceTime === null ? 2 : 1))
+    .filter(trail => {
+      if (!query.bbox) return true;
+      const [minLon, minLat, maxLon, maxLat] = query.bbox;
+      return trail.points.some(point =>
+        point.longitude >= minLon && point.longitude <= maxLon &&
+        point.latitude >= minLat && point.latitude <= maxLat
+      );
     });
+}
+
+export async function fetchBalloonData(query: BalloonTrailQuery = {}): Promise<BalloonTrail[]> {
+  try {
+    const params = new URLSearchParams();
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.since) params.set('since', query.since);
+    if (query.bbox) params.set('bbox', query.bbox.join(','));
+    if (query.ids && query.ids.length > 0) params.set('ids', query.ids.join(','));
     
-    // Sort points by timestamp for each trail and calculate colors
-    balloonTrails.forEach(trail => {
-      trail.points.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      
-      // Update color based on average altitude
-      if (trail.points.length > 0) {
-        const avgAltitude = trail.points.reduce((sum, point) => sum + point.altitude, 0) / trail.points.length;
-        trail.color = getAltitudeColor(avgAltitude);
-      }
+    // Trails are assembled and cached server-side so every tab shares one upstream fan-in
+    const queryString = params.toString();
+    const response = await fetch(`/api/balloon-trails${queryString ? `?${queryString}` : ''}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
     });
     
-    // Filter out trails with too few points (need at least 2 points to draw a line)
-    const validTrails = balloonTrails.filter(trail => trail.points.length >= 2);
+    if (!response.ok) {
+      return [];
+    }
     
+    const trails = await response.json();
+    return Array.isArray(trails) ? trails : [];
+  } catch {
+    return [];
+  }
+}
 
+// Quality report for the trails the server is currently serving
+export async function fetchDataQualityReport(): Promise<DataQualityReport | null> {
+  try {
+    const response = await fetch('/api/data-quality', {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
     
-    return validTrails;
+    if (!response.ok) {
+      return null;
+    }
+    
+    return await response.json();
   } catch {
-    return [];
+    return null;
   }
 }
 
@@ -146,14 +196,14 @@ export function generateMockBalloonData(): BalloonTrail[] {
     // Start position (somewhere in Atlantic/Pacific for hurricane context)
     let lat = 20 + Math.random() * 30; // 20-50N
     let lon = -100 + Math.random() * 40; // -100 to -60W
-    let altitude = 15000 + Math.random() * 10000; // 15-25km
+    let altitude = 15 + Math.random() * 10; // 15-25km, in km like the treasure API
     
     // Generate 24 hours of drift
     for (let hour = 0; hour < 24; hour++) {
       points.push({
         latitude: lat,
         longitude: lon,
-        altitude: altitude + (Math.random() - 0.5) * 2000,
+        altitude: altitude + (Math.random() - 0.5) * 2,
         timestamp: new Date(Date.now() - (23 - hour) * 60 * 60 * 1000).toISOString(),
         balloonId
       });
@@ -161,7 +211,7 @@ export function generateMockBalloonData(): BalloonTrail[] {
       // Simulate drift
       lat += (Math.random() - 0.5) * 2;
       lon += (Math.random() - 0.5) * 2;
-      altitude += (Math.random() - 0.5) * 1000;
+      altitude += (Math.random() - 0.5) * 1;
     }
     
     trails.push({
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { BALLOON_DATA_SOURCES, BalloonSourceId, getBalloonDataSource, getDefaultBalloonSourceId } from '@/lib/balloonSources';
+
+describe('getBalloonDataSource', () => {
+  it('returns the registered source for each id', () => {
+    (Object.keys(BALLOON_DATA_SOURCES) as BalloonSourceId[]).forEach(id => {
+      expect(getBalloonDataSource(id).id).toBe(id);
+    });
+  });
+
+  it('falls back to the default source for an unknown id', () => {
+    expect(getBalloonDataSource('satellite' as BalloonSourceId).id).toBe(getDefaultBalloonSourceId());
+  });
+
+  it('only marks the mock source as synthetic', () => {
+    expect(Object.values(BALLOON_DATA_SOURCES).filter(source => !source.isRealData).map(source => source.id))
+      .toEqual(['mock']);
+  });
+
+  it('loads mock trails without any network access', async () => {
+    const trails = await getBalloonDataSource('mock').load();
+    expect(trails.length).toBeGreaterThan(0);
+    trails.forEach(trail => expect(trail.points.length).toBeGreaterThan(0));
+  });
+});
@@ -0,0 +1,84 @@
+import { BalloonTrail, DataQualityReport } from '@/types';
+import { fetchBalloonData, fetchDataQualityReport, generateMockBalloonData } from '@/lib/balloonData';
+import { APP_CONFIG, getRealBalloons } from '@/config/app';
+
+export type BalloonSourceId = 'windborne' | 'replay' | 'archive' | 'mock';
+
+/**
+ * A feed of balloon trails the map can load from. New feeds implement this
+ * interface and register in BALLOON_DATA_SOURCES instead of editing loadData.
+ */
+export interface BalloonDataSource {
+  id: BalloonSourceId;
+  label: string;
+  isRealData: boolean;       // Empty results from real feeds fall back to mock data
+  load(): Promise<BalloonTrail[]>;
+  loadSince?(since: string): Promise<BalloonTrail[]>;  // Only points after `since`, for live refresh
+  loadQualityReport?(): Promise<DataQualityReport | null>;
+}
+
+async function fetchTrails(url: string): Promise<BalloonTrail[]> {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      return [];
+    }
+    
+    const trails = await response.json();
+    return Array.isArray(trails) ? trails : [];
+  } catch {
+    return [];
+  }
+}
+
+const windborneSource: BalloonDataSource = {
+  id: 'windborne',
+  label: 'WindBorne API',
+  isRealData: true,
+  load: () => fetchBalloonData(),
+  loadSince: (since) => fetchBalloonData({ since }),
+  loadQualityReport: fetchDataQualityReport
+};
+
+const replaySource: BalloonDataSource = {
+  id: 'replay',
+  label: 'Local File Replay',
+  isRealData: true,
+  load: () => fetchTrails('/api/balloon-replay')
+};
+
+const archiveSource: BalloonDataSource = {
+  id: 'archive',
+  label: 'Recorded Archive',
+  isRealData: true,
+  load: () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - APP_CONFIG.BALLOON_DATA.ARCHIVE_SOURCE_HOURS * 60 * 60 * 1000);
+    return fetchBalloonData({ from: from.toISOString(), to: to.toISOString() });
+  }
+};
+
+const mockSource: BalloonDataSource = {
+  id: 'mock',
+  label: 'Mock Testing',
+  isRealData: false,
+  load: async () => generateMockBalloonData()
+};
+
+export const BALLOON_DATA_SOURCES: Record<BalloonSourceId, BalloonDataSource> = {
+  windborne: windborneSource,
+  replay: replaySource,
+  archive: archiveSource,
+  mock: mockSource
+};
+
+export const getDefaultBalloonSourceId = (): BalloonSourceId => getRealBalloons() ? 'windborne' : 'mock';
+
+export const getBalloonDataSource = (id: BalloonSourceId): BalloonDataSource =>
+  BALLOON_DATA_SOURCES[id] ?? BALLOON_DATA_SOURCES[getDefaultBalloonSourceId()];
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { HistoricalStorm } from '@/types';
+import { bestTrackToStormData } from '@/lib/bestTrack';
+
+const radii = { 34: { ne: 60, se: 60, sw: 40, nw: 40 } };
+const storm: HistoricalStorm = {
+  id: 'AL092011',
+  name: 'IRENE',
+  basin: 'AL',
+  fixes: ['2011-08-21T00:00:00.000Z', '2011-08-21T06:00:00.000Z', '2011-08-21T12:00:00.000Z', '2011-08-21T18:00:00.000Z']
+    .map((time, index) => ({ time, latitude: 15 + index, longitude: -59 - index, maxWindKt: 45, pressureMb: 1006, status: 'TS', windRadii: radii }))
+};
+
+describe('bestTrackToStormData', () => {
+  it('counts hours back from the last fix in the window', () => {
+    const data = bestTrackToStormData(storm, Date.parse('2011-08-21T06:00:00Z'), Date.parse('2011-08-21T18:00:00Z'));
+
+    expect(data.tracks[0].forecastPoints.map(point => point.forecastHour)).toEqual([-12, -6, 0]);
+    expect(data.windFields.map(field => field.forecastHour)).toEqual([-12, -6, 0]);
+    expect(data.cones).toHaveLength(3);
+    expect(new Set(data.cones.map(cone => cone.properties.stormId))).toEqual(new Set(['AL092011']));
+  });
+
+  it('returns no storm data outside the storm lifetime', () => {
+    expect(bestTrackToStormData(storm, 0, 1).cones).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { BestTrackFix, ForecastPoint, HistoricalStorm, HistoricalStormSummary, StormCone, StormData, StormTrack } from '@/types';
+import { buildWindFields, createWindRadiiPolygon } from '@/lib/windRadii';
+
+// Converts best-track storms (HURDAT2 or ATCF b-decks) into the storm types drawn on
+// the map and used by the intersection analysis.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Circle used for a fix without 34 kt radii (e.g. pre-2004 HURDAT2 records)
+const FALLBACK_RADIUS_NM = { hurricane: 100, storm: 75, depression: 50 };
+
+// HURDAT2 status codes and the ATCF TY codes, which are a superset
+const BEST_TRACK_STATUS: Record<string, string> = {
+  TD: 'Tropical Depression',
+  TS: 'Tropical Storm',
+  HU: 'Hurricane',
+  TY: 'Typhoon',
+  ST: 'Super Typhoon',
+  TC: 'Tropical Cyclone',
+  EX: 'Extratropical Cyclone',
+  SD: 'Subtropical Depression',
+  SS: 'Subtropical Storm',
+  MD: 'Monsoon Depression',
+  PT: 'Post-Tropical Cyclone',
+  LO: 'Low',
+  WV: 'Tropical Wave',
+  DB: 'Disturbance'
+};
+
+const maxWind = (fixes: BestTrackFix[]): number | null => {
+  const winds = fixes.map(fix => fix.maxWindKt).filter((wind): wind is number => wind !== null);
+  return winds.length > 0 ? Math.max(...winds) : null;
+};
+
+export function summarizeHistoricalStorm(storm: HistoricalStorm): HistoricalStormSummary {
+  return {
+    id: storm.id,
+    name: storm.name,
+    basin: storm.basin,
+    start: storm.fixes[0].time,
+    end: storm.fixes[storm.fixes.length - 1].time,
+    maxWindKt: maxWind(storm.fixes)
+  };
+}
+
+function classifyFix(fix: BestTrackFix): string {
+  if (fix.status === 'HU' && fix.maxWindKt !== null && fix.maxWindKt >= 96) return 'Major Hurricane';
+  return BEST_TRACK_STATUS[fix.status] ?? fix.status;
+}
+
+// Also the storm extent the intersection analysis assumes where radii are unknown
+export function fallbackRadiusNm(maxWindKt: number | null): number {
+  if (maxWindKt !== null && maxWindKt >= 64) return FALLBACK_RADIUS_NM.hurricane;
+  if (maxWindKt !== null && maxWindKt >= 34) return FALLBACK_RADIUS_NM.storm;
+  return FALLBACK_RADIUS_NM.depression;
+}
+
+// One slice per fix: the 34 kt wind extent at that time, or an estimated circle
+function fixToCone(storm: HistoricalStorm, fix: BestTrackFix): StormCone {
+  const radii = fix.windRadii[34];
+  const circle = fallbackRadiusNm(fix.maxWindKt);
+
+  return {
+    id: `${storm.id}-${fix.time}`,
+    name: `${storm.name} ${fix.time.slice(0, 16).replace('T', ' ')}Z`,
+    geometry: createWindRadiiPolygon(fix.latitude, fix.longitude, radii ?? { ne: circle, se: circle, sw: circle, nw: circle }),
+    properties: {
+      stormId: storm.id,
+      stormName: storm.name,
+      basin: storm.basin,
+      advisoryNumber: 'Best Track',
+      dateTime: fix.time,
+      maxWindSpeed: fix.maxWindKt ?? 0,
+      isEstimated: !radii
+    }
+  };
+}
+
+// Track through the given fixes. Hour 0 is the last fix, the time the analysis runs from,
+// so every earlier fix has a negative hour: it was observed, not forecast.
+function fixesToTrack(storm: HistoricalStorm, fixes: BestTrackFix[]): StormTrack {
+  const analysisTime = new Date(fixes[fixes.length - 1].time).getTime();
+
+  const forecastPoints: ForecastPoint[] = fixes.map(fix => ({
+    validTime: fix.time,
+    forecastHour: Math.round((new Date(fix.time).getTime() - analysisTime) / HOUR_MS),
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    maxWindKt: fix.maxWindKt,
+    pressureMb: fix.pressureMb,
+    classification: classifyFix(fix)
+  }));
+
+  // A single fix still needs two positions for a LineString
+  const coordinates = fixes.map(fix => [fix.longitude, fix.latitude]);
+  if (coordinates.length === 1) coordinates.push(coordinates[0]);
+
+  const peak = fixes.reduce((strongest, fix) => (fix.maxWindKt ?? -1) > (strongest.maxWindKt ?? -1) ? fix : strongest);
+  return {
+    id: `${storm.id}-best-track`,
+    name: `${storm.name} Best Track`,
+    geometry: { type: 'LineString', coordinates },
+    properties: {
+      stormId: storm.id,
+      stormName: storm.name,
+      basin: storm.basin,
+      category: classifyFix(peak),
+      maxWindSpeed: peak.maxWindKt ?? 0
+    },
+    forecastPoints
+  };
+}
+
+/**
+ * Storm data for the part of a historical storm between `from` and `to` (epoch ms): the
+ * best track as a track with one point per fix, a time slice per fix standing in for
+ * the cone, and the wind fields of fixes that have radii. Hours count back from the last
+ * fix in the window, the time the backtest is analyzed at.
+ */
+export function bestTrackToStormData(storm: HistoricalStorm, from: number, to: number): StormData {
+  const fixes = storm.fixes.filter(fix => {
+    const time = new Date(fix.time).getTime();
+    return time >= from && time <= to;
+  });
+  if (fixes.length === 0) {
+    return { cones: [], tracks: [], windFields: [], windProbabilities: [], watchesWarnings: [], modelTracks: [] };
+  }
+
+  const track = fixesToTrack(storm, fixes);
+  const windFields = buildWindFields(storm.id, storm.name, fixes.map((fix, index) => ({
+    validTime: fix.time,
+    forecastHour: track.forecastPoints[index].forecastHour,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    maxWindKt: fix.maxWindKt,
+    windRadii: fix.windRadii
+  })));
+
+  return {
+    cones: fixes.map(fix => fixToCone(storm, fix)),
+    tracks: [track],
+    windFields,
+    windProbabilities: [],
+    watchesWarnings: [],
+    modelTracks: []
+  };
+}
+
+/**
+ * Storm data for a storm that is still active: the whole best track so far, and the
+ * latest fix as its only cone and hour-0 wind fields. There is no forecast in a
+ * best-track deck, so the cone is always marked estimated.
+ */
+export function currentBestTrackToStormData(storm: HistoricalStorm): StormData {
+  const latest = storm.fixes[storm.fixes.length - 1];
+  const cone = fixToCone(storm, latest);
+
+  return {
+    cones: [{ ...cone, id: storm.id, name: storm.name, properties: { ...cone.properties, isEstimated: true } }],
+    tracks: [fixesToTrack(storm, storm.fixes)],
+    windFields: buildWindFields(storm.id, storm.name, [{
+      validTime: latest.time,
+      forecastHour: 0,
+      latitude: latest.latitude,
+      longitude: latest.longitude,
+      maxWindKt: latest.maxWindKt,
+      windRadii: latest.windRadii
+    }]),
+    windProbabilities: [],
+    watchesWarnings: [],
+    modelTracks: []
+  };
+}
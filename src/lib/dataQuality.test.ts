@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeSnapshots } from '@/lib/dataQuality';
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOUR = Date.UTC(2024, 8, 10, 12);
+
+const sanitizeRows = (rows: unknown) => sanitizeSnapshots([{ validTime: HOUR, data: rows }], [HOUR]);
+
+describe('sanitizeSnapshots', () => {
+  it('swaps a latitude that only fits the longitude slot', () => {
+    const { frames, report } = sanitizeRows([[-120.5, 35.2, 18]]);
+
+    expect(frames[0].observations[0]).toMatchObject({ latitude: 35.2, longitude: -120.5 });
+    expect(report.issues['swapped-lat-lon']).toBe(1);
+    expect(report.repairedRows).toBe(1);
+  });
+
+  it('clamps small negative altitudes to the ground and drops larger ones', () => {
+    const { frames, report } = sanitizeRows([[10, 20, -0.3], [11, 21, -2]]);
+
+    expect(frames[0].observations).toHaveLength(1);
+    expect(frames[0].observations[0].altitude).toBe(0);
+    expect(report.issues['negative-altitude']).toBe(2);
+    expect(report.repairedRows).toBe(1);
+    expect(report.droppedRows).toBe(1);
+  });
+
+  it('drops malformed, non-finite, out-of-range, absurd and duplicate rows', () => {
+    const { frames, report } = sanitizeRows([
+      [10, 20],
+      ['10', 20, 15],
+      [10, NaN, 15],
+      [95, 200, 15],
+      [10, 20, 60],
+      [10, 20, 15],
+      [10, 20, 15],
+    ]);
+
+    expect(frames[0].observations).toHaveLength(1);
+    expect(frames[0].observations[0].index).toBe(5);
+    expect(report.issues).toMatchObject({
+      'malformed-row': 2,
+      'nan-field': 1,
+      'out-of-range': 1,
+      'absurd-altitude': 1,
+      'duplicate-point': 1,
+    });
+    expect(report.totalRows).toBe(7);
+    expect(report.acceptedRows).toBe(1);
+  });
+
+  it('numbers frames from the window start and reports missing hours back from the latest', () => {
+    const expectedTimes = [0, 1, 2, 3].map(offset => HOUR - offset * HOUR_MS);
+    const { frames, windowStart, report } = sanitizeSnapshots([
+      { validTime: HOUR, data: [[10, 20, 15]] },
+      { validTime: HOUR - 2 * HOUR_MS, data: [[10, 20, 15]] },
+      { validTime: HOUR - HOUR_MS, data: { error: 'not an array' } },
+    ], expectedTimes);
+
+    expect(windowStart).toBe(HOUR - 3 * HOUR_MS);
+    expect(frames.map(frame => frame.hour)).toEqual([3, 1]);
+    expect(report.missingHours.sort()).toEqual([1, 3]);
+    expect(report.hoursReceived).toBe(2);
+  });
+});
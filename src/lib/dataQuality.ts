@@ -0,0 +1,142 @@
+import { DataQualityIssue, DataQualityReport } from '@/types';
+import { ObservationFrame, RawObservation } from '@/lib/trackAssociation';
+import type { TimedSnapshot } from '@/lib/balloonData';
+
+// Sanitizes raw treasure rows before association and records what was wrong with them
+
+const MAX_ALTITUDE_KM = 45;                  // Above any stratospheric balloon ceiling
+const NEGATIVE_ALTITUDE_TOLERANCE_KM = 0.5;  // Small negatives are sensor noise at ground level
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SanitizedSnapshots {
+  frames: ObservationFrame[];
+  windowStart: number;  // Valid time of frame hour 0
+  report: Omit<DataQualityReport, 'generatedAt' | 'balloonsTracked'>;
+}
+
+export const emptyIssueCounts = (): Record<DataQualityIssue, number> => ({
+  'malformed-row': 0,
+  'nan-field': 0,
+  'swapped-lat-lon': 0,
+  'out-of-range': 0,
+  'negative-altitude': 0,
+  'absurd-altitude': 0,
+  'duplicate-point': 0,
+  'speed-violation': 0,
+});
+
+type RowVerdict =
+  | { status: 'accepted'; observation: RawObservation; repairs: DataQualityIssue[] }
+  | { status: 'dropped'; issue: DataQualityIssue };
+
+// Classify one [latitude, longitude, altitude] row, repairing it when the fix is unambiguous
+function sanitizeRow(row: unknown, index: number): RowVerdict {
+  if (!Array.isArray(row) || row.length < 3) {
+    return { status: 'dropped', issue: 'malformed-row' };
+  }
+
+  let [latitude, longitude, altitude] = row;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number' || typeof altitude !== 'number') {
+    return { status: 'dropped', issue: 'malformed-row' };
+  }
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !Number.isFinite(altitude)) {
+    return { status: 'dropped', issue: 'nan-field' };
+  }
+
+  const repairs: DataQualityIssue[] = [];
+
+  // A latitude beyond ±90 that would be a valid latitude in the longitude slot was swapped
+  if (Math.abs(latitude) > 90 && Math.abs(longitude) <= 90 && Math.abs(latitude) <= 180) {
+    [latitude, longitude] = [longitude, latitude];
+    repairs.push('swapped-lat-lon');
+  }
+
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return { status: 'dropped', issue: 'out-of-range' };
+  }
+
+  if (altitude < 0) {
+    if (altitude < -NEGATIVE_ALTITUDE_TOLERANCE_KM) {
+      return { status: 'dropped', issue: 'negative-altitude' };
+    }
+    altitude = 0;
+    repairs.push('negative-altitude');
+  }
+
+  if (altitude > MAX_ALTITUDE_KM) {
+    return { status: 'dropped', issue: 'absurd-altitude' };
+  }
+
+  return { status: 'accepted', observation: { latitude, longitude, altitude, index }, repairs };
+}
+
+/**
+ * Turns raw hourly snapshots into observation frames, dropping rows that can't be trusted
+ * and repairing the ones that can (swapped coordinates, slightly negative altitudes).
+ * Frames are numbered in hours from the earliest expected or received valid time, and
+ * missing hours are reported as hours before the latest expected one.
+ * Speed-violating jumps are only known after association, so the caller adds those.
+ */
+export function sanitizeSnapshots(snapshots: TimedSnapshot[], expectedTimes: number[]): SanitizedSnapshots {
+  const issues = emptyIssueCounts();
+  let totalRows = 0;
+  let acceptedRows = 0;
+  let repairedRows = 0;
+
+  const usableSnapshots = snapshots.filter(snapshot => Array.isArray(snapshot.data));
+  const receivedTimes = new Set(usableSnapshots.map(snapshot => snapshot.validTime));
+  const allTimes = [...expectedTimes, ...receivedTimes];
+  const windowStart = allTimes.length > 0 ? Math.min(...allTimes) : 0;
+  const windowEnd = expectedTimes.length > 0 ? Math.max(...expectedTimes) : windowStart;
+
+  const frames: ObservationFrame[] = usableSnapshots.map(snapshot => {
+    const observations: RawObservation[] = [];
+    const seenPositions = new Set<string>();
+
+    (snapshot.data as unknown[]).forEach((row, index) => {
+      totalRows++;
+      const verdict = sanitizeRow(row, index);
+
+      if (verdict.status === 'dropped') {
+        issues[verdict.issue]++;
+        return;
+      }
+
+      // Two balloons can't report the exact same fix in the same hour
+      const { latitude, longitude, altitude } = verdict.observation;
+      const positionKey = `${latitude},${longitude},${altitude}`;
+      if (seenPositions.has(positionKey)) {
+        issues['duplicate-point']++;
+        return;
+      }
+      seenPositions.add(positionKey);
+
+      verdict.repairs.forEach(issue => issues[issue]++);
+      if (verdict.repairs.length > 0) repairedRows++;
+      acceptedRows++;
+      observations.push(verdict.observation);
+    });
+
+    return { hour: Math.round((snapshot.validTime - windowStart) / HOUR_MS), observations };
+  });
+
+  const missingHours = expectedTimes
+    .filter(time => !receivedTimes.has(time))
+    .map(time => Math.round((windowEnd - time) / HOUR_MS));
+
+  return {
+    frames,
+    windowStart,
+    report: {
+      hoursExpected: expectedTimes.length,
+      hoursReceived: expectedTimes.length - missingHours.length,
+      missingHours,
+      totalRows,
+      acceptedRows,
+      repairedRows,
+      droppedRows: totalRows - acceptedRows,
+      issues,
+    },
+  };
+}
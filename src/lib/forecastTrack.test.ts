@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseAdvisoryTime, parseForecastPoints } from '@/lib/forecastTrack';
+
+const REFERENCE = Date.UTC(2019, 8, 1);
+
+const point = (longitude: number, latitude: number, description: string, styleUrl?: string) => ({
+  geometry: { type: 'Point', coordinates: [longitude, latitude] },
+  properties: { name: 'Dorian', description, styleUrl }
+});
+
+describe('parseAdvisoryTime', () => {
+  it('converts advisory local times to UTC', () => {
+    expect(parseAdvisoryTime('8:00 PM EDT August 30, 2019')).toBe(Date.UTC(2019, 7, 31, 0));
+    expect(parseAdvisoryTime('12 AM AST Sat Sep 14', REFERENCE)).toBe(Date.UTC(2019, 8, 14, 4));
+  });
+
+  it('falls back to ISO timestamps and rejects unknown zones', () => {
+    expect(parseAdvisoryTime('valid 2019-08-31T00:00Z')).toBe(Date.UTC(2019, 7, 31, 0));
+    expect(parseAdvisoryTime('8:00 PM XYZ August 30, 2019')).toBeNull();
+  });
+});
+
+describe('parseForecastPoints', () => {
+  it('orders points by valid time and reads intensity from the balloon text', () => {
+    const points = parseForecastPoints([
+      point(-72.9, 25.9, '<b>Valid at:</b> 8:00 AM EDT August 31, 2019 <br>Maximum Wind: 135 knots (155 mph) <br>Minimum Pressure: 940 mb'),
+      point(-71.4, 25.5, 'Valid at: 11:00 PM EDT August 30, 2019 Maximum Wind: 130 knots Minimum Pressure: 945 mb'),
+      point(-75, 26, 'No time here'),
+    ], REFERENCE);
+
+    expect(points).toHaveLength(2);
+    expect(points.map(forecastPoint => [forecastPoint.validTime, forecastPoint.forecastHour])).toEqual([
+      ['2019-08-31T03:00:00.000Z', 0],
+      ['2019-08-31T12:00:00.000Z', 9],
+    ]);
+    expect(points[1]).toMatchObject({ latitude: 25.9, longitude: -72.9, maxWindKt: 135, pressureMb: 940, classification: 'Major Hurricane' });
+  });
+
+  it('converts mph, prefers an explicit forecast hour and falls back to the style code', () => {
+    const [forecastPoint] = parseForecastPoints([
+      point(-80, 27, 'Valid at: 2:00 PM EDT September 3, 2019 Forecast Hour: 72 Max Winds: 75 mph', '#ts_point'),
+    ], REFERENCE);
+
+    expect(forecastPoint).toMatchObject({ forecastHour: 72, maxWindKt: 65, pressureMb: null, classification: 'Tropical Storm' });
+  });
+});
@@ -0,0 +1,148 @@
+import { ForecastPoint } from '@/types';
+
+// Parses the Point placemarks of an NHC forecast track KMZ (as returned by /api/nhc-kmz)
+// into time-stamped forecast positions. NHC puts the details in the balloon text, e.g.
+//   "Hurricane Dorian (AL052019) ... Valid at: 8:00 PM EDT August 30, 2019
+//    Maximum Wind: 130 knots (150 mph) ... Minimum Pressure: 945 mb"
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Offsets in hours for the time zones NHC advisories are issued in
+const TIME_ZONE_OFFSETS: Record<string, number> = {
+  UTC: 0, GMT: 0, Z: 0,
+  AST: -4, ADT: -3,
+  EST: -5, EDT: -4,
+  CST: -6, CDT: -5,
+  MST: -7, MDT: -6,
+  PST: -8, PDT: -7,
+  HST: -10, HDT: -9,
+  CHST: 10
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Longest first so 'Major Hurricane' wins over 'Hurricane'
+const CLASSIFICATIONS = [
+  'Potential Tropical Cyclone',
+  'Post-Tropical Cyclone',
+  'Subtropical Depression',
+  'Subtropical Storm',
+  'Tropical Depression',
+  'Tropical Storm',
+  'Major Hurricane',
+  'Remnant Low',
+  'Super Typhoon',
+  'Hurricane',
+  'Typhoon'
+];
+
+// NHC style IDs encode the classification when the text doesn't
+const STYLE_CLASSIFICATIONS: Record<string, string> = {
+  td: 'Tropical Depression',
+  ts: 'Tropical Storm',
+  hu: 'Hurricane',
+  mh: 'Major Hurricane',
+  sd: 'Subtropical Depression',
+  ss: 'Subtropical Storm',
+  lo: 'Post-Tropical Cyclone',
+  ex: 'Post-Tropical Cyclone'
+};
+
+interface PointFeature {
+  geometry?: { type?: string; coordinates?: number[] };
+  properties?: { name?: string; description?: string; styleUrl?: string };
+}
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses advisory-style times such as "8:00 PM EDT August 30, 2019" or "11 AM AST Sat Sep 14".
+ * A missing year is taken from `referenceTime`.
+ */
+export function parseAdvisoryTime(text: string, referenceTime: number = Date.now()): number | null {
+  const match = text.match(
+    /(\d{1,2})(?::(\d{2}))?\s*(AM|PM)\s+([A-Za-z]{1,4})\s+(?:[A-Za-z]{3,9}\.?\s+)?([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:,?\s*(\d{4}))?/i
+  );
+  if (match) {
+    const [, hourText, minuteText, meridiem, zone, monthText, dayText, yearText] = match;
+    const month = MONTHS.indexOf(monthText.slice(0, 3).toLowerCase());
+    const offset = TIME_ZONE_OFFSETS[zone.toUpperCase()];
+    if (month !== -1 && offset !== undefined) {
+      const hour = (parseInt(hourText) % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+      const year = yearText ? parseInt(yearText) : new Date(referenceTime).getUTCFullYear();
+      return Date.UTC(year, month, parseInt(dayText), hour, minuteText ? parseInt(minuteText) : 0) - offset * HOUR_MS;
+    }
+  }
+
+  // ISO timestamps from other producers
+  const isoMatch = text.match(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/);
+  const isoTime = isoMatch ? new Date(isoMatch[0]).getTime() : NaN;
+  return Number.isFinite(isoTime) ? isoTime : null;
+}
+
+function parseClassification(text: string, styleUrl: string | undefined, maxWindKt: number | null): string {
+  const found = CLASSIFICATIONS.find(name => text.toLowerCase().includes(name.toLowerCase()));
+  if (found) return found;
+
+  const styleCode = styleUrl?.replace(/^#/, '').slice(0, 2).toLowerCase();
+  if (styleCode && STYLE_CLASSIFICATIONS[styleCode]) return STYLE_CLASSIFICATIONS[styleCode];
+
+  // Saffir-Simpson style fallback from the wind speed
+  if (maxWindKt === null) return 'Unknown';
+  if (maxWindKt >= 96) return 'Major Hurricane';
+  if (maxWindKt >= 64) return 'Hurricane';
+  if (maxWindKt >= 34) return 'Tropical Storm';
+  return 'Tropical Depression';
+}
+
+function parseNumber(text: string, pattern: RegExp): number | null {
+  const match = text.match(pattern);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function parseMaxWindKt(text: string): number | null {
+  const knots = parseNumber(text, /Max(?:imum)?\s+(?:Sustained\s+)?Winds?:?\s*(\d+)\s*(?:kt|knots)/i);
+  if (knots !== null) return knots;
+  const mph = parseNumber(text, /Max(?:imum)?\s+(?:Sustained\s+)?Winds?:?\s*(\d+)\s*mph/i);
+  return mph === null ? null : Math.round(mph / 1.15078);
+}
+
+/**
+ * Forecast points from KMZ Point features, ordered by valid time. Points whose valid
+ * time can't be read are dropped. When the text gives no forecast hour it is counted
+ * from the earliest point.
+ */
+export function parseForecastPoints(features: PointFeature[], referenceTime: number = Date.now()): ForecastPoint[] {
+  const parsed: Array<Omit<ForecastPoint, 'validTime' | 'forecastHour'> & { time: number; explicitHour: number | null }> = [];
+
+  features.forEach(feature => {
+    const coordinates = feature.geometry?.type === 'Point' ? feature.geometry.coordinates : undefined;
+    if (!coordinates || coordinates.length < 2) return;
+
+    const [longitude, latitude] = coordinates;
+    const text = `${feature.properties?.name ?? ''} ${stripHtml(feature.properties?.description ?? '')}`;
+    const validAt = text.match(/Valid (?:at|time)?:?\s*(.+?)(?=\s+(?:Maximum|Max|Wind|Minimum|Forecast|Motion|Location)\b|$)/i);
+    const time = parseAdvisoryTime(validAt ? validAt[1] : text, referenceTime);
+    if (time === null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+
+    const maxWindKt = parseMaxWindKt(text);
+    parsed.push({
+      time,
+      explicitHour: parseNumber(text, /Forecast Hour:?\s*(\d{1,3})/i) ?? parseNumber(text, /\b(\d{1,3})\s*(?:hr|hour)\b/i),
+      latitude,
+      longitude,
+      maxWindKt,
+      pressureMb: parseNumber(text, /(?:Minimum|Min)(?:\s+Central)?\s+Pressure:?\s*(\d{3,4})\s*(?:mb|hPa)/i),
+      classification: parseClassification(text, feature.properties?.styleUrl, maxWindKt)
+    });
+  });
+
+  parsed.sort((a, b) => a.time - b.time);
+  const firstTime = parsed.length > 0 ? parsed[0].time : 0;
+
+  return parsed.map(({ time, explicitHour, ...point }) => ({
+    ...point,
+    validTime: new Date(time).toISOString(),
+    forecastHour: explicitHour ?? Math.round((time - firstTime) / HOUR_MS)
+  }));
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  distanceToLineKm,
+  distanceToPolygonKm,
+  interpolatePosition,
+  pointInPolygon,
+  splitLineAtAntimeridian,
+  splitPolygonAtAntimeridian
+} from '@/lib/geometry';
+
+// A square spanning the antimeridian from 170°E to 170°W, with a hole from 178°E to 178°W
+const DATELINE_SQUARE: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [[170, 0], [-170, 0], [-170, 10], [170, 10], [170, 0]],
+    [[178, 4], [-178, 4], [-178, 6], [178, 6], [178, 4]],
+  ]
+};
+
+const inRange = (positions: number[][]) => positions.every(([longitude]) => longitude >= -180 && longitude <= 180);
+
+describe('interpolatePosition', () => {
+  it('goes the short way across the antimeridian', () => {
+    const [longitude, latitude] = interpolatePosition([179, 0], [-177, 4], 0.25);
+    expect(longitude).toBeCloseTo(-180);
+    expect(latitude).toBeCloseTo(1);
+  });
+});
+
+describe('splitLineAtAntimeridian', () => {
+  it('breaks a line at the crossing, ending and starting the parts there', () => {
+    expect(splitLineAtAntimeridian([[170, 10], [-170, 20], [-160, 20]])).toEqual([
+      [[170, 10], [180, 15]],
+      [[-180, 15], [-170, 20], [-160, 20]],
+    ]);
+  });
+
+  it('leaves a line that stays on one side whole', () => {
+    expect(splitLineAtAntimeridian([[-80, 20], [-70, 30]])).toEqual([[[-80, 20], [-70, 30]]]);
+  });
+});
+
+describe('splitPolygonAtAntimeridian', () => {
+  it('cuts the outer ring and its holes into in-range parts on each side', () => {
+    const split = splitPolygonAtAntimeridian(DATELINE_SQUARE);
+
+    expect(split.type).toBe('MultiPolygon');
+    const parts = (split as GeoJSON.MultiPolygon).coordinates;
+    expect(parts).toHaveLength(2);
+    parts.forEach(rings => {
+      expect(rings).toHaveLength(2);
+      rings.forEach(ring => {
+        expect(inRange(ring)).toBe(true);
+        expect(ring[ring.length - 1]).toEqual(ring[0]);
+      });
+    });
+
+    const [west, east] = parts;
+    expect(Math.min(...west[0].map(([longitude]) => longitude))).toBe(170);
+    expect(Math.max(...east[0].map(([longitude]) => longitude))).toBe(-170);
+    expect(Math.min(...west[1].map(([longitude]) => longitude))).toBe(178);
+    expect(Math.max(...east[1].map(([longitude]) => longitude))).toBe(-178);
+  });
+
+  it('keeps a polygon that stays on one side as a Polygon', () => {
+    const polygon: GeoJSON.Polygon = { type: 'Polygon', coordinates: [[[-80, 20], [-70, 20], [-70, 30], [-80, 20]]] };
+    expect(splitPolygonAtAntimeridian(polygon)).toEqual(polygon);
+  });
+});
+
+describe('pointInPolygon', () => {
+  it('finds positions on both sides of the antimeridian and excludes the hole', () => {
+    expect(pointInPolygon([175, 2], DATELINE_SQUARE)).toBe(true);
+    expect(pointInPolygon([-175, 8], DATELINE_SQUARE)).toBe(true);
+    expect(pointInPolygon([179.5, 5], DATELINE_SQUARE)).toBe(false);
+    expect(pointInPolygon([0, 5], DATELINE_SQUARE)).toBe(false);
+  });
+
+  it('checks every part of a MultiPolygon', () => {
+    const multi = splitPolygonAtAntimeridian(DATELINE_SQUARE);
+    expect(pointInPolygon([-175, 8], multi)).toBe(true);
+    expect(pointInPolygon([179.5, 5], multi)).toBe(false);
+  });
+});
+
+describe('distanceToPolygonKm', () => {
+  it('is zero inside and measures to the hole edge from inside the hole', () => {
+    expect(distanceToPolygonKm([-175, 8], DATELINE_SQUARE)).toBe(0);
+    // 180° is 2° from either side of the hole, 1° from its north and south edges
+    expect(distanceToPolygonKm([180, 5], DATELINE_SQUARE)).toBeCloseTo(111, -1);
+  });
+
+  it('measures across the antimeridian rather than around the globe', () => {
+    expect(distanceToPolygonKm([-168, 5], DATELINE_SQUARE)).toBeCloseTo(221, -1);
+  });
+});
+
+describe('distanceToLineKm', () => {
+  it('measures to a line crossing the antimeridian', () => {
+    expect(distanceToLineKm([-179.9, 0], [[179, 1], [-179, 1]])).toBeCloseTo(111, -1);
+  });
+});
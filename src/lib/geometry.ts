@@ -0,0 +1,232 @@
+import * as turf from '@turf/turf';
+
+// Geodesic helpers shared by the analysis and the map. Coordinates are GeoJSON
+// [longitude, latitude]. Storm shapes and balloon paths can cross the antimeridian,
+// where longitudes jump between +180 and -180:
+// - for measuring, rings and lines are unwrapped into continuous longitudes (e.g. 179 to
+//   181) and the balloon position is shifted into the same range
+// - for drawing, lines and polygons are split at ±180 into parts that stay in range
+
+type Position = number[];
+
+const EARTH_RADIUS_KM = 6371;
+
+// Longitude in [-180, 180)
+export const normalizeLongitude = (longitude: number) => ((longitude + 540) % 360 + 360) % 360 - 180;
+
+// The equivalent longitude closest to `reference`
+export const unwrapLongitude = (longitude: number, reference: number) =>
+  reference + normalizeLongitude(longitude - reference);
+
+// Positions with each longitude moved to within 180° of the one before, starting near `reference`
+export function unwrapPositions(positions: Position[], reference: number = positions[0]?.[0] ?? 0): Position[] {
+  let previous = reference;
+  return positions.map(([longitude, ...rest]) => {
+    previous = unwrapLongitude(longitude, previous);
+    return [previous, ...rest];
+  });
+}
+
+// Linear interpolation between two positions, the short way round in longitude
+export function interpolatePosition(from: Position, to: Position, fraction: number): Position {
+  const toLongitude = unwrapLongitude(to[0], from[0]);
+  return [
+    normalizeLongitude(from[0] + (toLongitude - from[0]) * fraction),
+    from[1] + (to[1] - from[1]) * fraction
+  ];
+}
+
+export function distanceKm(from: Position, to: Position): number {
+  return turf.distance(turf.point(from), turf.point(to), { units: 'kilometers' } as any);
+}
+
+// Initial great-circle bearing, degrees clockwise from north in [0, 360)
+export function bearingDegrees(from: Position, to: Position): number {
+  return ((turf as any).bearing(turf.point(from), turf.point(to)) + 360) % 360;
+}
+
+/**
+ * Position `km` along the great circle leaving `from` on `bearing`. The longitude is
+ * not normalized, so consecutive calls around one center give a continuous ring; paths
+ * over a pole come out on the far side.
+ */
+export function destination(from: Position, km: number, bearing: number): Position {
+  const angular = km / EARTH_RADIUS_KM;
+  const lat1 = from[1] * Math.PI / 180;
+  const lon1 = from[0] * Math.PI / 180;
+  const theta = bearing * Math.PI / 180;
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return [lon2 * 180 / Math.PI, lat2 * 180 / Math.PI];
+}
+
+// A line unwrapped, and the position shifted next to it
+function unwrapAround(position: Position, line: Position[]): { position: Position; line: Position[] } {
+  const unwrapped = unwrapPositions(line);
+  const longitudes = unwrapped.map(p => p[0]);
+  const center = (Math.min(...longitudes) + Math.max(...longitudes)) / 2;
+  return { position: [unwrapLongitude(position[0], center), position[1]], line: unwrapped };
+}
+
+// Geodesic distance from a position to the nearest point of a line
+export function distanceToLineKm(position: Position, line: Position[]): number {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return distanceKm(position, line[0]);
+
+  const unwrapped = unwrapAround(position, line);
+  return (turf as any).pointToLineDistance(turf.point(unwrapped.position), turf.lineString(unwrapped.line), { units: 'kilometers' });
+}
+
+// Nearest point of a line to a position (a line needs at least two positions)
+export function closestPointOnLine(position: Position, line: Position[]): Position {
+  const unwrapped = unwrapAround(position, line);
+  const [longitude, latitude] = (turf as any).nearestPointOnLine(turf.lineString(unwrapped.line), turf.point(unwrapped.position)).geometry.coordinates;
+  return [normalizeLongitude(longitude), latitude];
+}
+
+interface UnwrappedPolygon {
+  rings: Position[][];
+  center: number; // Middle of the outer ring's longitudes
+}
+
+// Unwrapped parts of each polygon, kept while the polygon object lives
+const unwrappedPolygons = new WeakMap<object, UnwrappedPolygon[]>();
+
+function unwrapPolygon(polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): UnwrappedPolygon[] {
+  const cached = unwrappedPolygons.get(polygon);
+  if (cached) return cached;
+
+  const parts = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates;
+  const unwrapped = parts
+    .filter(rings => rings.length > 0 && rings[0].length > 0)
+    .map(rings => {
+      // Holes share the outer ring's longitude range
+      const reference = rings[0][0][0];
+      const unwrappedRings = rings.map(ring => unwrapPositions(ring, reference));
+      const longitudes = unwrappedRings[0].map(p => p[0]);
+      return { rings: unwrappedRings, center: (Math.min(...longitudes) + Math.max(...longitudes)) / 2 };
+    });
+  unwrappedPolygons.set(polygon, unwrapped);
+  return unwrapped;
+}
+
+// Whether a position is inside any part of the polygon and outside its holes
+export function pointInPolygon(position: Position, polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): boolean {
+  return unwrapPolygon(polygon).some(({ rings, center }) =>
+    (turf as any).booleanPointInPolygon(
+      turf.point([unwrapLongitude(position[0], center), position[1]]),
+      { type: 'Polygon', coordinates: rings }
+    )
+  );
+}
+
+/**
+ * Geodesic distance from a position to a polygon: 0 inside it, otherwise to the nearest
+ * ring of any part. A position inside a hole measures to the hole's edge.
+ */
+export function distanceToPolygonKm(position: Position, polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): number {
+  if (pointInPolygon(position, polygon)) return 0;
+
+  let minDistance = Infinity;
+  unwrapPolygon(polygon).forEach(({ rings, center }) => {
+    const shifted = [unwrapLongitude(position[0], center), position[1]];
+    rings.forEach(ring => {
+      if (ring.length < 2) return;
+      const distance = (turf as any).pointToLineDistance(turf.point(shifted), turf.lineString(ring), { units: 'kilometers' });
+      minDistance = Math.min(minDistance, distance);
+    });
+  });
+  return minDistance;
+}
+
+// Which 360° band a longitude falls in; 0 is [-180, 180)
+const turnOf = (longitude: number) => Math.floor((longitude + 180) / 360);
+
+// Moves a part split off an unwrapped shape back into [-180, 180], judged by its middle
+function shiftIntoRange(positions: Position[]): Position[] {
+  const longitudes = positions.map(p => p[0]);
+  const shift = turnOf((Math.min(...longitudes) + Math.max(...longitudes)) / 2) * 360;
+  return shift === 0 ? positions : positions.map(([longitude, ...rest]) => [longitude - shift, ...rest]);
+}
+
+/**
+ * A line as parts that each stay within [-180, 180], broken where it crosses the
+ * antimeridian, with the crossing point at the end of one part and the start of the next.
+ */
+export function splitLineAtAntimeridian(line: Position[]): Position[][] {
+  const unwrapped = unwrapPositions(line);
+  const parts: Position[][] = [];
+  let part: Position[] = [];
+
+  unwrapped.forEach((position, index) => {
+    const previous = unwrapped[index - 1];
+    if (previous && turnOf(previous[0]) !== turnOf(position[0])) {
+      const meridian = Math.max(turnOf(previous[0]), turnOf(position[0])) * 360 - 180;
+      const fraction = (meridian - previous[0]) / (position[0] - previous[0]);
+      const crossing = [meridian, previous[1] + (position[1] - previous[1]) * fraction];
+      part.push(crossing);
+      parts.push(part);
+      part = [crossing];
+    }
+    part.push(position);
+  });
+  parts.push(part);
+
+  return parts.filter(p => p.length >= 2).map(shiftIntoRange);
+}
+
+// The side of a closed ring west (or east) of a meridian, Sutherland-Hodgman style
+function clipRing(ring: Position[], meridian: number, keepWest: boolean): Position[] {
+  const open = ring.slice(0, -1);
+  const inside = (p: Position) => keepWest ? p[0] <= meridian : p[0] >= meridian;
+  const crossing = (a: Position, b: Position) =>
+    [meridian, a[1] + (b[1] - a[1]) * (meridian - a[0]) / (b[0] - a[0])];
+
+  const clipped: Position[] = [];
+  open.forEach((current, index) => {
+    const previous = open[(index + open.length - 1) % open.length];
+    if (inside(current)) {
+      if (!inside(previous)) clipped.push(crossing(previous, current));
+      clipped.push(current);
+    } else if (inside(previous)) {
+      clipped.push(crossing(previous, current));
+    }
+  });
+
+  return clipped.length >= 3 ? [...clipped, clipped[0]] : [];
+}
+
+function splitRings(rings: Position[][]): Position[][][] {
+  if (rings.length === 0 || rings[0].length === 0) return [];
+  const unwrapped = rings.map(ring => unwrapPositions(ring, rings[0][0][0]));
+  const longitudes = unwrapped[0].map(p => p[0]);
+  const west = Math.min(...longitudes);
+  const east = Math.max(...longitudes);
+
+  const meridian = turnOf(west) !== turnOf(east) ? turnOf(east) * 360 - 180 : null;
+  if (meridian === null) return [unwrapped.map(shiftIntoRange)];
+
+  return [true, false].flatMap(keepWest => {
+    const side = unwrapped.map(ring => clipRing(ring, meridian, keepWest));
+    if (side[0].length === 0) return [];
+    const outer = shiftIntoRange(side[0]);
+    const shift = side[0][0][0] - outer[0][0];
+    const holes = side.slice(1)
+      .filter(ring => ring.length > 0)
+      .map(ring => ring.map(([longitude, ...rest]) => [longitude - shift, ...rest]));
+    return [[outer, ...holes]];
+  });
+}
+
+// A polygon as parts that each stay within [-180, 180], cut along the antimeridian
+export function splitPolygonAtAntimeridian(polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): GeoJSON.Polygon | GeoJSON.MultiPolygon {
+  const parts = (polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates).flatMap(splitRings);
+  return parts.length === 1
+    ? { type: 'Polygon', coordinates: parts[0] }
+    : { type: 'MultiPolygon', coordinates: parts };
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HistoricalStorm } from '@/types';
+import { parseHurdat2 } from '@/lib/hurdat2';
+
+// Local best-track archive for backtesting (server-side only). Drop HURDAT2 text files
+// (e.g. hurdat2-1851-2023-051124.txt, hurdat2-nepac-1949-2023.txt) into the directory.
+
+const HURDAT2_DIR = process.env.HURDAT2_DIR || path.join(process.cwd(), 'data', 'hurdat2');
+
+let cachedStorms: Promise<HistoricalStorm[]> | null = null;
+
+async function loadStorms(): Promise<HistoricalStorm[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(HURDAT2_DIR)).filter(name => name.endsWith('.txt')).sort();
+  } catch {
+    return [];
+  }
+
+  const storms: HistoricalStorm[] = [];
+  for (const fileName of files) {
+    const content = await fs.readFile(path.join(HURDAT2_DIR, fileName), 'utf8');
+    storms.push(...parseHurdat2(content));
+  }
+
+  // Most recent first, matching how storms are picked in the UI
+  return storms.sort((a, b) => b.fixes[0].time.localeCompare(a.fixes[0].time));
+}
+
+// Parsed once per server process; the files are large and never change while running
+export function getHistoricalStorms(): Promise<HistoricalStorm[]> {
+  if (!cachedStorms) {
+    cachedStorms = loadStorms().catch(error => {
+      cachedStorms = null;
+      throw error;
+    });
+  }
+  return cachedStorms;
+}
+
+export async function getHistoricalStorm(id: string): Promise<HistoricalStorm | null> {
+  const storms = await getHistoricalStorms();
+  return storms.find(storm => storm.id === id.toUpperCase()) ?? null;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseHurdat2 } from '@/lib/hurdat2';
+
+const IRENE = `AL092011,              IRENE,      3,
+20110821, 0000,  , TS, 15.0N,  59.0W,  45, 1006,  105,    0,    0,   45,    0,    0,    0,    0,    0,    0,    0,    0,
+20110821, 0600,  , TS, 16.0N,  60.6W,  45, 1006,  130,    0,    0,   80,    0,    0,    0,    0,    0,    0,    0,    0,
+20110822, 0530, L, HU, 18.2N,  65.9W,  70,  990, -999, -999, -999, -999, -999, -999, -999, -999, -999, -999, -999, -999,
+EP012020,            UNNAMED,      1,
+20200425, 1200,  , TD, bad,  -99.0W,  30, 1007,
+`;
+
+describe('parseHurdat2', () => {
+  it('parses header, fixes, landfall records and radii', () => {
+    const [irene] = parseHurdat2(IRENE);
+
+    expect(irene).toMatchObject({ id: 'AL092011', name: 'IRENE', basin: 'AL' });
+    expect(irene.fixes).toHaveLength(3);
+    expect(irene.fixes[0]).toMatchObject({
+      time: '2011-08-21T00:00:00.000Z',
+      latitude: 15,
+      longitude: -59,
+      maxWindKt: 45,
+      pressureMb: 1006,
+      status: 'TS',
+      windRadii: { 34: { ne: 105, se: 0, sw: 0, nw: 45 } }
+    });
+    expect(irene.fixes[2]).toMatchObject({ time: '2011-08-22T05:30:00.000Z', recordId: 'L', windRadii: {} });
+  });
+
+  it('drops unreadable fixes and storms left without any', () => {
+    expect(parseHurdat2(IRENE).map(storm => storm.id)).toEqual(['AL092011']);
+  });
+});
@@ -0,0 +1,79 @@
+import { BestTrackFix, HistoricalStorm, StormBasin, WindRadii, WindThreshold } from '@/types';
+import { WIND_THRESHOLDS } from '@/lib/windRadii';
+
+// Parses NHC HURDAT2 best-track files. Each storm is a header line followed by its fixes:
+//   AL092011,              IRENE,     39,
+//   20110821, 0000,  , TS, 15.0N,  59.0W,  45, 1006,  105,    0,    0,   45, ...
+// i.e. date, time, record identifier, status, position, wind (kt), pressure (mb), then
+// the 34/50/64 kt radii (NE, SE, SW, NW in nm). Missing values are -99 or -999.
+
+const parseValue = (value: string | undefined): number | null => {
+  const number = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(number) && number > -99 ? number : null;
+};
+
+const parseCoordinate = (value: string): number => {
+  const match = value.match(/^([\d.]+)([NSEW])$/);
+  if (!match) return NaN;
+  return parseFloat(match[1]) * (match[2] === 'S' || match[2] === 'W' ? -1 : 1);
+};
+
+// Wind radii start at column 8, four quadrants per threshold
+function parseRadii(fields: string[]): Partial<Record<WindThreshold, WindRadii>> {
+  const radii: Partial<Record<WindThreshold, WindRadii>> = {};
+  WIND_THRESHOLDS.forEach((threshold, index) => {
+    const [ne, se, sw, nw] = fields.slice(8 + index * 4, 12 + index * 4).map(parseValue);
+    if (ne === null || se === null || sw === null || nw === null) return;
+    if (ne <= 0 && se <= 0 && sw <= 0 && nw <= 0) return;
+    radii[threshold] = { ne, se, sw, nw };
+  });
+  return radii;
+}
+
+/**
+ * Parses every storm in a HURDAT2 file. Fixes with an unreadable time or position are
+ * skipped; storms without any fixes are dropped.
+ */
+export function parseHurdat2(content: string): HistoricalStorm[] {
+  const storms: HistoricalStorm[] = [];
+  let current: HistoricalStorm | null = null;
+
+  content.split(/\r?\n/).forEach(line => {
+    const fields = line.split(',').map(field => field.trim());
+    if (fields.length < 3 || fields[0] === '') return;
+
+    // Header: id, name, number of fixes
+    if (/^[A-Z]{2}\d{6}$/.test(fields[0])) {
+      current = {
+        id: fields[0],
+        name: fields[1] || 'UNNAMED',
+        basin: fields[0].slice(0, 2) as StormBasin, // AL, EP or CP
+        fixes: []
+      };
+      storms.push(current);
+      return;
+    }
+
+    if (!current || fields.length < 8) return;
+
+    const date = fields[0].match(/^(\d{4})(\d{2})(\d{2})$/);
+    const time = fields[1].match(/^(\d{2})(\d{2})$/);
+    const latitude = parseCoordinate(fields[4]);
+    const longitude = parseCoordinate(fields[5]);
+    if (!date || !time || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+
+    const fix: BestTrackFix = {
+      time: new Date(Date.UTC(+date[1], +date[2] - 1, +date[3], +time[1], +time[2])).toISOString(),
+      latitude,
+      longitude,
+      maxWindKt: parseValue(fields[6]),
+      pressureMb: parseValue(fields[7]),
+      status: fields[3],
+      windRadii: parseRadii(fields)
+    };
+    if (fields[2]) fix.recordId = fields[2];
+    current.fixes.push(fix);
+  });
+
+  return storms.filter(storm => storm.fixes.length > 0);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { kmlToFeatures, kmzToFeatures } from '@/lib/kmz';
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <StyleMap id="coneMap">
+      <Pair><key>normal</key><styleUrl>#cone</styleUrl></Pair>
+    </StyleMap>
+    <Style id="cone">
+      <LineStyle><color>ff0000ff</color><width>2</width></LineStyle>
+      <PolyStyle><color>7fffffff</color></PolyStyle>
+    </Style>
+    <Folder>
+      <name>Forecast</name>
+      <Folder>
+        <name>Cone</name>
+        <Placemark>
+          <name>12</name>
+          <styleUrl>#coneMap</styleUrl>
+          <TimeSpan><begin>2024-09-10T12:00:00Z</begin><end>2024-09-15T12:00:00Z</end></TimeSpan>
+          <ExtendedData>
+            <Data name="stormType"><value>HU</value></Data>
+            <SchemaData><SimpleData name="advisnum">12</SimpleData></SchemaData>
+          </ExtendedData>
+          <Polygon>
+            <outerBoundaryIs><LinearRing><coordinates>-80,20,0 -70,20,0 -70,30,0 -80,30,0</coordinates></LinearRing></outerBoundaryIs>
+            <innerBoundaryIs><LinearRing><coordinates>-76,24 -74,24 -74,26 -76,26 -76,24</coordinates></LinearRing></innerBoundaryIs>
+          </Polygon>
+        </Placemark>
+      </Folder>
+      <Placemark>
+        <name>Points</name>
+        <MultiGeometry>
+          <Point><coordinates>-75,25,0</coordinates></Point>
+          <LineString><coordinates>-75,25 -74,26</coordinates></LineString>
+        </MultiGeometry>
+      </Placemark>
+      <Placemark>
+        <gx:Track>
+          <when>2024-09-10T12:00:00Z</when>
+          <when>2024-09-10T18:00:00Z</when>
+          <gx:coord>-75 25 0</gx:coord>
+          <gx:coord>-74 26 0</gx:coord>
+        </gx:Track>
+      </Placemark>
+    </Folder>
+  </Document>
+</kml>`;
+
+describe('kmlToFeatures', () => {
+  const features = kmlToFeatures(KML);
+  const byName = (name: string) => features.filter(feature => feature.properties?.name === name);
+
+  it('closes rings and keeps polygon holes', () => {
+    expect(byName('12')[0].geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [
+        [[-80, 20], [-70, 20], [-70, 30], [-80, 30], [-80, 20]],
+        [[-76, 24], [-74, 24], [-74, 26], [-76, 26], [-76, 24]],
+      ]
+    });
+  });
+
+  it('keeps names as text and resolves folder, time span, extended data and StyleMap styles', () => {
+    expect(byName('12')[0].properties).toMatchObject({
+      name: '12',
+      folder: 'Cone',
+      begin: '2024-09-10T12:00:00Z',
+      end: '2024-09-15T12:00:00Z',
+      stormType: 'HU',
+      advisnum: '12',
+      stroke: '#ff0000',
+      'stroke-width': 2,
+      fill: '#ffffff',
+      'fill-opacity': 0.5,
+    });
+  });
+
+  it('splits MultiGeometry into one feature per part sharing the placemark properties', () => {
+    const parts = byName('Points');
+    expect(parts.map(feature => feature.geometry.type)).toEqual(['Point', 'LineString']);
+    expect(parts.every(feature => feature.properties?.folder === 'Forecast')).toBe(true);
+  });
+
+  it('reads gx:Track as a line with its timestamps', () => {
+    const [track] = byName('Track');
+    expect(track.geometry).toEqual({ type: 'LineString', coordinates: [[-75, 25], [-74, 26]] });
+    expect(track.properties).toMatchObject({ name: 'Track', coordTimes: ['2024-09-10T12:00:00Z', '2024-09-10T18:00:00Z'] });
+  });
+});
+
+describe('kmzToFeatures', () => {
+  it('reads every KML file in the archive and returns null when there is none', async () => {
+    const zip = new JSZip();
+    zip.file('doc.kml', KML);
+    zip.file('extra/more.kml', '<kml><Placemark><Point><coordinates>10,20</coordinates></Point></Placemark></kml>');
+    const features = await kmzToFeatures(await zip.generateAsync({ type: 'arraybuffer' }));
+    expect(features).toHaveLength(5);
+
+    const empty = new JSZip();
+    empty.file('readme.txt', 'no KML here');
+    expect(await kmzToFeatures(await empty.generateAsync({ type: 'arraybuffer' }))).toBeNull();
+  });
+});
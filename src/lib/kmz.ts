@@ -0,0 +1,263 @@
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+
+// KMZ/KML helpers shared by the NHC product routes
+
+type KmlNode = Record<string, unknown>;
+type StyleProperties = Record<string, string | number>;
+
+// Tag values stay text so names like "12" and coordinates aren't turned into numbers
+const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', removeNSPrefix: true, parseTagValue: false });
+
+const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+// Text of every KML document inside a KMZ archive, the root doc.kml first
+export async function extractKmlFiles(zipBuffer: ArrayBuffer): Promise<string[]> {
+  const zip = new JSZip();
+  const contents = await zip.loadAsync(zipBuffer);
+
+  const kmlFiles = Object.keys(contents.files)
+    .filter(name => name.toLowerCase().endsWith('.kml') && !contents.files[name].dir)
+    .sort((a, b) => Number(b === 'doc.kml') - Number(a === 'doc.kml') || a.localeCompare(b));
+  return Promise.all(kmlFiles.map(name => contents.files[name].async('text')));
+}
+
+// Features of every KML document in a KMZ, or null if the archive holds no KML
+export async function kmzToFeatures(zipBuffer: ArrayBuffer): Promise<GeoJSON.Feature[] | null> {
+  const kmlFiles = await extractKmlFiles(zipBuffer);
+  return kmlFiles.length > 0 ? kmlFiles.flatMap(kmlToFeatures) : null;
+}
+
+// "lon,lat[,alt] lon,lat[,alt] ..." as 2D positions, skipping unreadable tuples
+function parseCoordinates(value: unknown): number[][] {
+  return (text(value) ?? '')
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(([lon, lat]) => Number.isFinite(lon) && Number.isFinite(lat))
+    .map(([lon, lat]) => [lon, lat]);
+}
+
+// Rings must end where they start
+function closeRing(ring: number[][]): number[][] {
+  if (ring.length === 0) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// KML colors are aabbggrr
+function parseColor(value: unknown): { color: string; opacity: number } | null {
+  const match = text(value)?.trim().match(/^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return null;
+  const [, alpha, blue, green, red] = match;
+  return { color: `#${red}${green}${blue}`.toLowerCase(), opacity: Math.round(parseInt(alpha, 16) / 255 * 100) / 100 };
+}
+
+// LineStyle, PolyStyle and IconStyle as simplestyle properties (stroke, fill, icon)
+function parseStyle(style: KmlNode | undefined): StyleProperties {
+  const properties: StyleProperties = {};
+  if (!style) return properties;
+
+  const lineStyle = style.LineStyle as KmlNode | undefined;
+  const lineColor = parseColor(lineStyle?.color);
+  if (lineColor) {
+    properties.stroke = lineColor.color;
+    properties['stroke-opacity'] = lineColor.opacity;
+  }
+  const lineWidth = Number(text(lineStyle?.width));
+  if (Number.isFinite(lineWidth) && text(lineStyle?.width) !== undefined) properties['stroke-width'] = lineWidth;
+
+  const polyStyle = style.PolyStyle as KmlNode | undefined;
+  const fillColor = parseColor(polyStyle?.color);
+  if (fillColor) {
+    properties.fill = fillColor.color;
+    properties['fill-opacity'] = fillColor.opacity;
+  }
+  if (text(polyStyle?.fill) === '0') properties['fill-opacity'] = 0;
+
+  const icon = text(((style.IconStyle as KmlNode | undefined)?.Icon as KmlNode | undefined)?.href);
+  if (icon) properties.icon = icon;
+
+  return properties;
+}
+
+// Shared styles by id, with StyleMaps resolved to their "normal" style
+function collectStyles(node: unknown, styles: Map<string, StyleProperties> = new Map()): Map<string, StyleProperties> {
+  if (!node || typeof node !== 'object') return styles;
+
+  Object.entries(node as KmlNode).forEach(([key, value]) => {
+    if (key === 'Style') {
+      asArray(value as KmlNode | KmlNode[]).forEach(style => {
+        const id = text(style['@_id']);
+        if (id) styles.set(id, parseStyle(style));
+      });
+    } else if (key !== 'StyleMap' && key !== 'Placemark' && typeof value === 'object') {
+      asArray(value).forEach(child => collectStyles(child, styles));
+    }
+  });
+
+  // StyleMaps point at styles that may be declared after them, so resolve them last
+  const resolveStyleMaps = (current: unknown) => {
+    if (!current || typeof current !== 'object') return;
+    Object.entries(current as KmlNode).forEach(([key, value]) => {
+      if (key === 'StyleMap') {
+        asArray(value as KmlNode | KmlNode[]).forEach(styleMap => {
+          const id = text(styleMap['@_id']);
+          const normal = asArray(styleMap.Pair as KmlNode | KmlNode[]).find(pair => text(pair.key) === 'normal');
+          const target = text(normal?.styleUrl)?.replace(/^.*#/, '');
+          if (id && target && styles.has(target)) styles.set(id, styles.get(target)!);
+        });
+      } else if (key !== 'Placemark' && typeof value === 'object') {
+        asArray(value).forEach(resolveStyleMaps);
+      }
+    });
+  };
+  resolveStyleMaps(node);
+
+  return styles;
+}
+
+// ExtendedData as flat properties: <Data name><value> and <SchemaData><SimpleData name>
+function parseExtendedData(extendedData: KmlNode | undefined): Record<string, string> {
+  const properties: Record<string, string> = {};
+  if (!extendedData) return properties;
+
+  asArray(extendedData.Data as KmlNode | KmlNode[]).forEach(data => {
+    const name = text(data['@_name']);
+    const value = text(data.value);
+    if (name && value !== undefined) properties[name] = value;
+  });
+  asArray(extendedData.SchemaData as KmlNode | KmlNode[]).forEach(schemaData => {
+    asArray(schemaData.SimpleData as KmlNode | KmlNode[] | string).forEach(simpleData => {
+      if (typeof simpleData !== 'object') return;
+      const name = text(simpleData['@_name']);
+      const value = text(simpleData['#text']) ?? '';
+      if (name) properties[name] = value;
+    });
+  });
+
+  return properties;
+}
+
+interface KmlGeometry {
+  geometry: GeoJSON.Point | GeoJSON.LineString | GeoJSON.Polygon;
+  coordTimes?: string[]; // gx:Track timestamps, one per position
+}
+
+// Every simple geometry below a node, flattening MultiGeometry and gx:MultiTrack
+function collectGeometries(node: KmlNode): KmlGeometry[] {
+  const geometries: KmlGeometry[] = [];
+
+  asArray(node.Point as KmlNode | KmlNode[]).forEach(point => {
+    const [position] = parseCoordinates(point.coordinates);
+    if (position) geometries.push({ geometry: { type: 'Point', coordinates: position } });
+  });
+
+  asArray(node.LineString as KmlNode | KmlNode[]).forEach(line => {
+    const coordinates = parseCoordinates(line.coordinates);
+    if (coordinates.length >= 2) geometries.push({ geometry: { type: 'LineString', coordinates } });
+  });
+
+  asArray(node.LinearRing as KmlNode | KmlNode[]).forEach(ring => {
+    const coordinates = closeRing(parseCoordinates(ring.coordinates));
+    if (coordinates.length >= 4) geometries.push({ geometry: { type: 'Polygon', coordinates: [coordinates] } });
+  });
+
+  asArray(node.Polygon as KmlNode | KmlNode[]).forEach(polygon => {
+    const outerRing = asArray((polygon.outerBoundaryIs as KmlNode | undefined)?.LinearRing as KmlNode | KmlNode[] | undefined)[0];
+    const outer = closeRing(parseCoordinates(outerRing?.coordinates));
+    if (outer.length < 4) return;
+
+    // Holes, whether each innerBoundaryIs holds one LinearRing or several
+    const holes = asArray(polygon.innerBoundaryIs as KmlNode | KmlNode[])
+      .flatMap(boundary => asArray(boundary.LinearRing as KmlNode | KmlNode[]))
+      .map(ring => closeRing(parseCoordinates(ring.coordinates)))
+      .filter(ring => ring.length >= 4);
+
+    geometries.push({ geometry: { type: 'Polygon', coordinates: [outer, ...holes] } });
+  });
+
+  // gx:Track pairs <when> timestamps with <gx:coord> "lon lat alt" entries
+  asArray(node.Track as KmlNode | KmlNode[]).forEach(track => {
+    const whens = asArray(track.when as string | string[]).map(when => text(when) ?? '');
+    const coordinates = asArray(track.coord as string | string[])
+      .map(coord => (text(coord) ?? '').trim().split(/\s+/).map(Number))
+      .map(([lon, lat]) => [lon, lat]);
+    if (coordinates.length < 2 || coordinates.some(([lon, lat]) => !Number.isFinite(lon) || !Number.isFinite(lat))) return;
+    geometries.push({
+      geometry: { type: 'LineString', coordinates },
+      coordTimes: whens.length === coordinates.length ? whens : undefined
+    });
+  });
+
+  asArray(node.MultiTrack as KmlNode | KmlNode[]).forEach(multiTrack => geometries.push(...collectGeometries(multiTrack)));
+  asArray(node.MultiGeometry as KmlNode | KmlNode[]).forEach(multiGeometry => geometries.push(...collectGeometries(multiGeometry)));
+
+  return geometries;
+}
+
+const DEFAULT_NAMES: Record<KmlGeometry['geometry']['type'], string> = {
+  Point: 'Point',
+  LineString: 'Track',
+  Polygon: 'Polygon'
+};
+
+function placemarkToFeatures(placemark: KmlNode, folder: string | undefined, styles: Map<string, StyleProperties>): GeoJSON.Feature[] {
+  const styleUrl = text(placemark.styleUrl);
+  const timeStamp = placemark.TimeStamp as KmlNode | undefined;
+  const timeSpan = placemark.TimeSpan as KmlNode | undefined;
+
+  const properties: Record<string, unknown> = {
+    name: text(placemark.name),
+    // NHC products put their details (valid time, wind, pressure) in the balloon text
+    description: text(placemark.description),
+    styleUrl,
+    folder,
+    timestamp: text(timeStamp?.when),
+    begin: text(timeSpan?.begin),
+    end: text(timeSpan?.end),
+    ...parseExtendedData(placemark.ExtendedData as KmlNode | undefined),
+    // Shared style first, inline style on the placemark wins
+    ...(styleUrl ? styles.get(styleUrl.replace(/^.*#/, '')) : undefined),
+    ...parseStyle(asArray(placemark.Style as KmlNode | KmlNode[])[0])
+  };
+  Object.keys(properties).forEach(key => properties[key] === undefined && delete properties[key]);
+
+  return collectGeometries(placemark).map(({ geometry, coordTimes }) => ({
+    type: 'Feature',
+    geometry,
+    properties: {
+      ...properties,
+      name: properties.name ?? DEFAULT_NAMES[geometry.type],
+      ...(coordTimes ? { coordTimes } : {})
+    }
+  }));
+}
+
+/**
+ * Every placemark of a KML document as GeoJSON features, however deeply nested in
+ * Documents and Folders. Multi-part geometries (MultiGeometry, gx:MultiTrack) become one
+ * Point, LineString or Polygon feature per part, all sharing the placemark's properties:
+ * name, description, styleUrl, the enclosing folder name, time stamp or span,
+ * ExtendedData fields and the resolved style as simplestyle properties.
+ */
+export function kmlToFeatures(kmlContent: string): GeoJSON.Feature[] {
+  const kmlData = xmlParser.parse(kmlContent);
+  const styles = collectStyles(kmlData?.kml);
+  const features: GeoJSON.Feature[] = [];
+
+  const walk = (node: KmlNode, folder: string | undefined) => {
+    asArray(node.Placemark as KmlNode | KmlNode[]).forEach(placemark => {
+      features.push(...placemarkToFeatures(placemark, folder, styles));
+    });
+    asArray(node.Document as KmlNode | KmlNode[]).forEach(document => walk(document, folder));
+    asArray(node.Folder as KmlNode | KmlNode[]).forEach(child => walk(child, text(child.name) ?? folder));
+  };
+
+  if (kmlData?.kml && typeof kmlData.kml === 'object') walk(kmlData.kml, undefined);
+  return features;
+}
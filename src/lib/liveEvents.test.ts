@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BalloonTrail, HurricaneIntersection, LiveStreamEvent } from '@/types';
+
+const upstream = vi.hoisted(() => ({
+  trails: [] as BalloonTrail[],
+  storms: { cones: [] as unknown[], tracks: [], windFields: [], windProbabilities: [], watchesWarnings: [], modelTracks: [] }
+}));
+
+vi.mock('@/lib/windborne', () => ({
+  getCachedBalloonTrails: async () => ({ trails: upstream.trails, report: { balloonsTracked: upstream.trails.length } })
+}));
+vi.mock('@/lib/stormData', () => ({
+  EMPTY_STORM_DATA: { cones: [], tracks: [], windFields: [], windProbabilities: [], watchesWarnings: [], modelTracks: [] },
+  fetchActiveStorms: async () => ({ ...upstream.storms, isRealData: false })
+}));
+// One future intersection per analyzed trail
+vi.mock('@/lib/proximityAnalysis', () => ({
+  analyzeHurricaneIntersections: vi.fn((trails: BalloonTrail[]) => trails.map(trail => ({
+    balloonId: trail.balloonId,
+    stormName: 'MILTON',
+    intersectionType: 'future',
+    hoursFromNow: trail.points.length
+  }) as HurricaneIntersection))
+}));
+vi.mock('@/lib/advisoryArchive', () => ({
+  archiveAdvisories: async () => 0,
+  readStormAdvisories: async () => []
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const POLL_MS = 60 * 1000;
+const START = Date.UTC(2024, 8, 10, 0);
+
+const trail = (balloonId: string, hours: number[]): BalloonTrail => ({
+  balloonId,
+  color: '#ffffff',
+  points: hours.map(hour => ({
+    balloonId,
+    latitude: 10,
+    longitude: 20 + hour,
+    altitude: 15,
+    timestamp: new Date(START + hour * HOUR_MS).toISOString()
+  }))
+});
+
+describe('subscribeToLiveEvents', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records a baseline, skips unchanged polls and re-analyzes only changed trails', async () => {
+    const { subscribeToLiveEvents } = await import('@/lib/liveEvents');
+    const { analyzeHurricaneIntersections } = await import('@/lib/proximityAnalysis');
+    const analyze = vi.mocked(analyzeHurricaneIntersections);
+    analyze.mockClear();
+
+    upstream.trails = [trail('a', [0, 1]), trail('b', [0, 1])];
+    const events: LiveStreamEvent[] = [];
+    const unsubscribe = subscribeToLiveEvents(event => events.push(event), 'http://localhost');
+
+    // The first poll analyzes everything and announces nothing
+    await vi.advanceTimersByTimeAsync(0);
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(analyze.mock.calls[0][0].map(analyzed => analyzed.balloonId)).toEqual(['a', 'b']);
+    expect(events).toEqual([]);
+
+    // Reassembled but identical trails are not analyzed again
+    upstream.trails = [trail('a', [0, 1]), trail('b', [0, 1])];
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([]);
+
+    // A new hour for one balloon, and a new balloon
+    upstream.trails = [trail('a', [0, 1, 2]), trail('b', [0, 1]), trail('c', [2])];
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(analyze.mock.calls[1][0].map(analyzed => analyzed.balloonId)).toEqual(['a', 'c']);
+
+    const balloonUpdate = events.find(event => event.type === 'balloon-update');
+    expect(balloonUpdate?.type === 'balloon-update' && balloonUpdate.data.trails.map(update => update.balloonId)).toEqual(['a', 'c']);
+    // Intersection keys ignore the changed hours, so only the new balloon is announced
+    expect(events.filter(event => event.type === 'alert-new').map(event => (event.data as HurricaneIntersection).balloonId)).toEqual(['c']);
+
+    unsubscribe();
+  });
+
+  it('re-analyzes every trail and sends a storm update when the storms change', async () => {
+    const { subscribeToLiveEvents } = await import('@/lib/liveEvents');
+    const { analyzeHurricaneIntersections } = await import('@/lib/proximityAnalysis');
+    const analyze = vi.mocked(analyzeHurricaneIntersections);
+    analyze.mockClear();
+
+    upstream.trails = [trail('a', [0]), trail('b', [0])];
+    upstream.storms = { ...upstream.storms, cones: [] };
+    const events: LiveStreamEvent[] = [];
+    const unsubscribe = subscribeToLiveEvents(event => events.push(event), 'http://localhost');
+    await vi.advanceTimersByTimeAsync(0);
+
+    upstream.storms = { ...upstream.storms, cones: [{ id: 'al142024' }] };
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(analyze.mock.calls[1][0]).toHaveLength(2);
+    expect(events.map(event => event.type)).toEqual(['storm-update']);
+
+    unsubscribe();
+  });
+});
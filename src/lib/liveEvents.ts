@@ -0,0 +1,152 @@
+import { BalloonTrail, HurricaneIntersection, LiveStreamEvent, StormAdvisory, StormData } from '@/types';
+import { filterBalloonTrails } from '@/lib/balloonData';
+import { getCachedBalloonTrails } from '@/lib/windborne';
+import { EMPTY_STORM_DATA, fetchActiveStorms } from '@/lib/stormData';
+import { analyzeHurricaneIntersections } from '@/lib/proximityAnalysis';
+import { archiveAdvisories, readStormAdvisories } from '@/lib/advisoryArchive';
+import { getLatestTimestamp, mergeResults } from '@/lib/liveRefresh';
+import { APP_CONFIG } from '@/config/app';
+
+// Server-side change detector behind /api/stream. One poller per server process checks
+// upstream while anyone is subscribed and fans typed events out to every subscriber.
+
+type Listener = (event: LiveStreamEvent) => void;
+
+const listeners = new Set<Listener>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let isPolling = false;
+let apiBaseUrl = '';
+
+// What subscribers have already been told about
+let lastBalloonTimestamp: string | null = null;
+let lastStormSignature: string | null = null;
+let knownIntersectionKeys: Set<string> | null = null;
+let currentStorms: StormData = EMPTY_STORM_DATA;
+let currentHistory: StormAdvisory[] = [];
+
+// Last analysis, so a poll only re-analyzes trails that gained or lost points
+let analyzedSignatures = new Map<string, string>();
+let currentIntersections: HurricaneIntersection[] = [];
+
+// Cached trails are reassembled on every refresh, so compare their points rather than the objects
+const trailSignature = (trail: BalloonTrail) =>
+  `${trail.points.length}|${trail.points[0]?.timestamp}|${trail.points[trail.points.length - 1]?.timestamp}`;
+
+function emit(event: LiveStreamEvent) {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch {
+      // A broken subscriber must not stop the others
+    }
+  });
+}
+
+async function poll() {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    const { trails, report } = await getCachedBalloonTrails();
+    const latestTimestamp = getLatestTimestamp(trails);
+    const stormResult = await fetchActiveStorms(apiBaseUrl);
+
+    // New hourly snapshot: send only the points after the previous one
+    if (latestTimestamp && latestTimestamp !== lastBalloonTimestamp) {
+      if (lastBalloonTimestamp) {
+        emit({
+          type: 'balloon-update',
+          data: {
+            latestTimestamp,
+            balloonsTracked: report.balloonsTracked,
+            trails: filterBalloonTrails(trails, { since: lastBalloonTimestamp })
+          }
+        });
+      }
+      lastBalloonTimestamp = latestTimestamp;
+    }
+
+    // Advisory update
+    const { isRealData, ...storms } = stormResult;
+    const stormSignature = JSON.stringify(storms);
+    const stormsChanged = stormSignature !== lastStormSignature;
+    if (stormsChanged) {
+      currentStorms = storms;
+      if (isRealData) {
+        await archiveAdvisories(storms).catch(() => undefined);
+        // Earlier advisories place each storm in the past for the intersection analysis
+        const stormIds = [...new Set(storms.cones.map(cone => cone.id))];
+        currentHistory = (await Promise.all(stormIds.map(readStormAdvisories))).flat();
+      } else {
+        currentHistory = [];
+      }
+      if (lastStormSignature) {
+        emit({ type: 'storm-update', data: { ...currentStorms, isRealData } });
+      }
+      lastStormSignature = stormSignature;
+    }
+
+    // With the same storms only changed or removed trails need a new analysis
+    const signatures = new Map(trails.map(trail => [trail.balloonId, trailSignature(trail)]));
+    const changed = stormsChanged
+      ? trails
+      : trails.filter(trail => analyzedSignatures.get(trail.balloonId) !== signatures.get(trail.balloonId));
+    const affectedIds = new Set(changed.map(trail => trail.balloonId));
+    analyzedSignatures.forEach((_, balloonId) => {
+      if (!signatures.has(balloonId)) affectedIds.add(balloonId);
+    });
+    if (!stormsChanged && affectedIds.size === 0) return;
+
+    const recomputed = analyzeHurricaneIntersections(
+      changed,
+      currentStorms.cones,
+      currentStorms.tracks,
+      currentStorms.windFields,
+      currentStorms.windProbabilities,
+      currentStorms.modelTracks,
+      currentHistory
+    );
+    const intersections = stormsChanged
+      ? recomputed
+      : mergeResults(currentIntersections, recomputed, affectedIds, (a, b) => a.hoursFromNow - b.hoursFromNow);
+    currentIntersections = intersections;
+    analyzedSignatures = signatures;
+
+    // Intersections we haven't announced yet; the first poll only records the baseline
+    const keys = new Set(intersections.map(i => `${i.balloonId}|${i.stormName}|${i.intersectionType}`));
+    if (knownIntersectionKeys) {
+      const known = knownIntersectionKeys;
+      intersections
+        .filter(i => !known.has(`${i.balloonId}|${i.stormName}|${i.intersectionType}`))
+        .forEach(intersection => emit({ type: 'alert-new', data: intersection }));
+    }
+    knownIntersectionKeys = keys;
+  } catch {
+    // Try again on the next tick
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Registers a stream listener and starts polling with the first one.
+ * `baseUrl` is the app's own origin, needed to reach the NHC routes from the server.
+ * Returns an unsubscribe function; polling stops with the last listener.
+ */
+export function subscribeToLiveEvents(listener: Listener, baseUrl: string): () => void {
+  listeners.add(listener);
+  apiBaseUrl = baseUrl;
+
+  if (!pollTimer) {
+    poll();
+    pollTimer = setInterval(poll, APP_CONFIG.REFRESH.STREAM_POLL_SECONDS * 1000);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
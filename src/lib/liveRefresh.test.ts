@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { computeRefreshHighlights, diffTrails, getLatestTimestamp, mergeResults, mergeTrailUpdates } from '@/lib/liveRefresh';
+import { BalloonTrail, HurricaneIntersection, ProximityAlert } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 8, 10, 0);
+
+const trail = (balloonId: string, hours: number[]): BalloonTrail => ({
+  balloonId,
+  color: '#ffffff',
+  points: hours.map(hour => ({
+    balloonId,
+    latitude: 10,
+    longitude: 20 + hour,
+    altitude: 15,
+    timestamp: new Date(START + hour * HOUR_MS).toISOString()
+  }))
+});
+
+const alert = (balloonId: string, stormName: string) => ({ balloonId, stormName }) as ProximityAlert;
+const intersection = (balloonId: string, intersectionType: 'current' | 'future') =>
+  ({ balloonId, intersectionType }) as HurricaneIntersection;
+
+describe('getLatestTimestamp', () => {
+  it('returns the newest point across trails, or null without points', () => {
+    expect(getLatestTimestamp([trail('a', [0, 2]), trail('b', [5])])).toBe(new Date(START + 5 * HOUR_MS).toISOString());
+    expect(getLatestTimestamp([trail('a', [])])).toBeNull();
+  });
+});
+
+describe('mergeTrailUpdates', () => {
+  it('appends only newer points and keeps untouched trails as the same objects', () => {
+    const a = trail('a', [0, 1]);
+    const b = trail('b', [0, 1]);
+    const merged = mergeTrailUpdates([a, b], [trail('a', [1, 2])]);
+
+    expect(merged[0].points.map(point => point.timestamp)).toEqual([0, 1, 2].map(hour => new Date(START + hour * HOUR_MS).toISOString()));
+    expect(merged[0]).not.toBe(a);
+    expect(merged[1]).toBe(b);
+  });
+
+  it('adds new balloons and returns the same array when there are no updates', () => {
+    const existing = [trail('a', [0])];
+    expect(mergeTrailUpdates(existing, [])).toBe(existing);
+    expect(mergeTrailUpdates(existing, [trail('c', [1])]).map(merged => merged.balloonId)).toEqual(['a', 'c']);
+  });
+
+  it('trims points older than the window and drops trails left empty', () => {
+    const merged = mergeTrailUpdates([trail('a', [0, 1]), trail('old', [0])], [trail('a', [26])]);
+
+    expect(merged.map(kept => kept.balloonId)).toEqual(['a']);
+    expect(merged[0].points.map(point => new Date(point.timestamp).getTime())).toEqual([START + 26 * HOUR_MS]);
+  });
+});
+
+describe('diffTrails', () => {
+  it('reports replaced and new trails as changed and removed ones as affected', () => {
+    const kept = trail('kept', [0]);
+    const previous = new Map([['kept', kept], ['updated', trail('updated', [0])], ['gone', trail('gone', [0])]]);
+    const { changed, affectedIds } = diffTrails(previous, [kept, trail('updated', [0, 1]), trail('new', [1])]);
+
+    expect(changed.map(changedTrail => changedTrail.balloonId)).toEqual(['updated', 'new']);
+    expect([...affectedIds].sort()).toEqual(['gone', 'new', 'updated']);
+  });
+});
+
+describe('mergeResults', () => {
+  it('replaces results of affected balloons only', () => {
+    const merged = mergeResults(
+      [alert('a', 'OLD'), alert('b', 'KEPT')],
+      [alert('a', 'NEW')],
+      new Set(['a']),
+      (x, y) => x.balloonId.localeCompare(y.balloonId)
+    );
+    expect(merged.map(result => `${result.balloonId}:${result.stormName}`)).toEqual(['a:NEW', 'b:KEPT']);
+  });
+});
+
+describe('computeRefreshHighlights', () => {
+  it('lists balloons with new alerts and newly gained future intersections', () => {
+    const highlights = computeRefreshHighlights(
+      [alert('a', 'MILTON')],
+      [alert('a', 'MILTON'), alert('a', 'KIRK'), alert('b', 'MILTON')],
+      [intersection('c', 'future'), intersection('d', 'current')],
+      [intersection('c', 'future'), intersection('d', 'future'), intersection('e', 'current')]
+    );
+
+    expect(highlights.newAlertBalloonIds).toEqual(['a', 'b']);
+    expect(highlights.newlyAtRiskBalloonIds).toEqual(['d']);
+  });
+});
@@ -0,0 +1,111 @@
+import { BalloonTrail, HurricaneIntersection, ProximityAlert } from '@/types';
+
+// Helpers for the map's background refresh: merge new points into existing trails,
+// work out which balloons need re-analysis, and what changed since the last refresh.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RefreshHighlights {
+  refreshedAt: string;
+  newAlertBalloonIds: string[];     // Balloons with a proximity alert they didn't have before
+  newlyAtRiskBalloonIds: string[];  // Balloons that gained a future intersection
+}
+
+// Latest point timestamp across all trails, used as the `since` of the next incremental fetch
+export function getLatestTimestamp(trails: BalloonTrail[]): string | null {
+  let latest = -Infinity;
+  trails.forEach(trail => {
+    const last = trail.points[trail.points.length - 1];
+    if (last) latest = Math.max(latest, new Date(last.timestamp).getTime());
+  });
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : null;
+}
+
+/**
+ * Appends new points to existing trails and adds trails for new balloons. Trails that
+ * gain nothing keep their object identity, which is what analysis diffing relies on.
+ * Points older than `windowHours` before the newest point are trimmed.
+ */
+export function mergeTrailUpdates(
+  existing: BalloonTrail[],
+  updates: BalloonTrail[],
+  windowHours: number = 24
+): BalloonTrail[] {
+  if (updates.length === 0) return existing;
+
+  const updatesById = new Map(updates.map(update => [update.balloonId, update]));
+  const newestTime = new Date(getLatestTimestamp([...existing, ...updates]) ?? 0).getTime();
+  const cutoffTime = newestTime - windowHours * HOUR_MS;
+
+  const merged = existing.map(trail => {
+    const update = updatesById.get(trail.balloonId);
+    const needsTrim = trail.points.length > 0 && new Date(trail.points[0].timestamp).getTime() < cutoffTime;
+    if (!update && !needsTrim) return trail;
+
+    updatesById.delete(trail.balloonId);
+    const lastTime = trail.points.length > 0
+      ? new Date(trail.points[trail.points.length - 1].timestamp).getTime()
+      : -Infinity;
+    const newPoints = (update?.points ?? []).filter(point => new Date(point.timestamp).getTime() > lastTime);
+
+    return {
+      ...trail,
+      points: [...trail.points, ...newPoints].filter(point => new Date(point.timestamp).getTime() >= cutoffTime)
+    };
+  });
+
+  // Whatever is left are balloons we haven't seen before
+  return [...merged, ...updatesById.values()].filter(trail => trail.points.length > 0);
+}
+
+/**
+ * Trails whose object changed since the last analysis, plus IDs of trails that are
+ * gone. Unchanged trails can keep their previous analysis results.
+ */
+export function diffTrails(
+  previous: Map<string, BalloonTrail>,
+  current: BalloonTrail[]
+): { changed: BalloonTrail[]; affectedIds: Set<string> } {
+  const changed = current.filter(trail => previous.get(trail.balloonId) !== trail);
+  const affectedIds = new Set(changed.map(trail => trail.balloonId));
+  const currentIds = new Set(current.map(trail => trail.balloonId));
+  previous.forEach((_, balloonId) => {
+    if (!currentIds.has(balloonId)) affectedIds.add(balloonId);
+  });
+  return { changed, affectedIds };
+}
+
+// Replace results for the affected balloons, keeping everyone else's
+export function mergeResults<T extends { balloonId: string }>(
+  previous: T[],
+  recomputed: T[],
+  affectedIds: Set<string>,
+  compare: (a: T, b: T) => number
+): T[] {
+  return [...previous.filter(result => !affectedIds.has(result.balloonId)), ...recomputed].sort(compare);
+}
+
+export function computeRefreshHighlights(
+  previousAlerts: ProximityAlert[],
+  alerts: ProximityAlert[],
+  previousIntersections: HurricaneIntersection[],
+  intersections: HurricaneIntersection[]
+): RefreshHighlights {
+  const alertKey = (alert: ProximityAlert) => `${alert.balloonId}|${alert.stormName}`;
+  const previousAlertKeys = new Set(previousAlerts.map(alertKey));
+  const previousAtRisk = new Set(
+    previousIntersections.filter(i => i.intersectionType === 'future').map(i => i.balloonId)
+  );
+
+  return {
+    refreshedAt: new Date().toISOString(),
+    newAlertBalloonIds: Array.from(new Set(
+      alerts.filter(alert => !previousAlertKeys.has(alertKey(alert))).map(alert => alert.balloonId)
+    )),
+    newlyAtRiskBalloonIds: Array.from(new Set(
+      intersections
+        .filter(i => i.intersectionType === 'future' && !previousAtRisk.has(i.balloonId))
+        .map(i => i.balloonId)
+    ))
+  };
+}
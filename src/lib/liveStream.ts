@@ -0,0 +1,45 @@
+import { BalloonUpdateEvent, HurricaneIntersection, LiveStreamEvent, StormUpdateEvent } from '@/types';
+
+// Browser client for /api/stream. EventSource reconnects on its own after network errors.
+
+export interface LiveStreamHandlers {
+  onBalloonUpdate?: (update: BalloonUpdateEvent) => void;
+  onStormUpdate?: (update: StormUpdateEvent) => void;
+  onNewAlert?: (intersection: HurricaneIntersection) => void;
+}
+
+const EVENT_TYPES: LiveStreamEvent['type'][] = ['balloon-update', 'storm-update', 'alert-new'];
+
+export function subscribeToLiveStream(handlers: LiveStreamHandlers): () => void {
+  const source = new EventSource('/api/stream');
+
+  const dispatch = (type: LiveStreamEvent['type'], data: string) => {
+    try {
+      const payload = JSON.parse(data);
+      switch (type) {
+        case 'balloon-update':
+          handlers.onBalloonUpdate?.(payload);
+          break;
+        case 'storm-update':
+          handlers.onStormUpdate?.(payload);
+          break;
+        case 'alert-new':
+          handlers.onNewAlert?.(payload);
+          break;
+      }
+    } catch {
+      // Ignore malformed events
+    }
+  };
+
+  const listeners = EVENT_TYPES.map(type => {
+    const listener = (event: MessageEvent) => dispatch(type, event.data);
+    source.addEventListener(type, listener);
+    return { type, listener };
+  });
+
+  return () => {
+    listeners.forEach(({ type, listener }) => source.removeEventListener(type, listener));
+    source.close();
+  };
+}
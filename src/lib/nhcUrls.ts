@@ -0,0 +1,21 @@
+// The NHC proxy routes fetch a `url` query parameter server-side; only NHC's own hosts are
+// allowed so the routes can't be used to reach anything else.
+
+const NHC_HOSTS = new Set(['www.nhc.noaa.gov', 'ftp.nhc.noaa.gov']);
+
+export const NHC_URL_ERROR = 'url must point to www.nhc.noaa.gov or ftp.nhc.noaa.gov';
+
+// The parameter as a normalized NHC URL, or null when it is missing or points elsewhere
+export function parseNhcUrl(value: string | null): string | null {
+  if (!value) return null;
+
+  try {
+    const url = new URL(value);
+    const isWeb = url.protocol === 'https:' || url.protocol === 'http:';
+    return isWeb && NHC_HOSTS.has(url.hostname) && !url.port && !url.username && !url.password
+      ? url.href
+      : null;
+  } catch {
+    return null;
+  }
+}
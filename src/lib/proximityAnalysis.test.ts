@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { BalloonTrail, CoastalWatchWarning, ForecastPoint, ModelTrack, StormAdvisory, StormCone, StormTrack } from '@/types';
+import { analyzeAdvisoryRisk, analyzeHurricaneIntersections, analyzeWarningCrossings, mergeAdvisoryRisks } from '@/lib/proximityAnalysis';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.now();
+
+// A nearly stationary balloon at 25N 60W over the last four hours
+const trail: BalloonTrail = {
+  balloonId: 'balloon-1',
+  color: '#000',
+  points: [3, 2, 1, 0].map(hoursAgo => ({
+    latitude: 25,
+    longitude: -60 + (3 - hoursAgo) * 0.01,
+    altitude: 10,
+    timestamp: new Date(NOW - hoursAgo * HOUR_MS).toISOString(),
+    balloonId: 'balloon-1'
+  }))
+};
+
+// Forecast positions every 12 h, starting at `start` hours from now
+const forecast = (start: number, positions: number[][]): ForecastPoint[] =>
+  positions.map(([longitude, latitude], index) => ({
+    validTime: new Date(NOW + (start + index * 12) * HOUR_MS).toISOString(),
+    forecastHour: index * 12,
+    latitude,
+    longitude,
+    maxWindKt: 100,
+    pressureMb: null,
+    classification: 'Hurricane'
+  }));
+
+const passingTrack = [[-60, 22], [-60, 25.5], [-60, 29]];
+
+const cone: StormCone = {
+  id: 'al012024',
+  name: 'TEST',
+  geometry: { type: 'Polygon', coordinates: [[[-62, 20], [-58, 20], [-58, 30], [-62, 30], [-62, 20]]] },
+  properties: { stormId: 'al012024', stormName: 'TEST', basin: 'AL', advisoryNumber: '1', dateTime: new Date(NOW).toISOString(), maxWindSpeed: 100 }
+};
+
+const track: StormTrack = {
+  id: 'al012024-track',
+  name: 'TEST Forecast Track',
+  geometry: { type: 'LineString', coordinates: passingTrack },
+  properties: { stormId: 'al012024', stormName: 'TEST', basin: 'AL', category: 'Hurricane', maxWindSpeed: 100 },
+  forecastPoints: forecast(0, passingTrack)
+};
+
+const model = (name: string, startHours: number): ModelTrack => ({
+  id: `al012024-${name}`,
+  stormId: 'al012024',
+  stormName: 'TEST',
+  basin: 'AL',
+  model: name,
+  initTime: new Date(NOW).toISOString(),
+  geometry: { type: 'LineString', coordinates: passingTrack },
+  forecastPoints: forecast(startHours, passingTrack)
+});
+
+describe('analyzeHurricaneIntersections', () => {
+  it('counts models that are near the balloon at the same time, not just on the same line', () => {
+    const intersections = analyzeHurricaneIntersections(
+      [trail], [cone], [track], [], [], [model('OFCL', 0), model('LATE', 72)]
+    );
+
+    const future = intersections.find(intersection => intersection.intersectionType === 'future');
+    expect(future?.modelAgreement).toEqual({ inRange: ['OFCL'], total: 2 });
+  });
+
+  // A balloon heading east along 29N at about 100 km/h, at 60W three hours ago
+  const crossingTrail: BalloonTrail = {
+    balloonId: 'balloon-4',
+    color: '#000',
+    points: [3, 2, 1, 0].map(hoursAgo => ({
+      latitude: 29,
+      longitude: -57 - hoursAgo,
+      altitude: 10,
+      timestamp: new Date(NOW - hoursAgo * HOUR_MS).toISOString(),
+      balloonId: 'balloon-4'
+    }))
+  };
+  // The passing track, reaching 29N 60W `hoursFromNow` from now
+  const trackReaching = (hoursFromNow: number): StormTrack => ({ ...track, forecastPoints: forecast(hoursFromNow - 24, passingTrack) });
+
+  it('does not flag a balloon that passed where the storm is going hours before it got there', () => {
+    expect(analyzeHurricaneIntersections([crossingTrail], [cone], [trackReaching(24)])).toEqual([]);
+  });
+
+  it('flags a balloon that was where the storm was at the same time', () => {
+    const intersections = analyzeHurricaneIntersections([crossingTrail], [cone], [trackReaching(-3)]);
+
+    expect(intersections.map(intersection => intersection.intersectionType)).toEqual(['past']);
+    expect(intersections[0].hoursFromNow).toBeCloseTo(-3, 0);
+  });
+
+  it('measures past and future from the reference time it is given', () => {
+    const intersections = analyzeHurricaneIntersections(
+      [crossingTrail], [cone], [trackReaching(-3)], [], [], [], [], undefined, true, NOW + 2 * HOUR_MS
+    );
+
+    expect(intersections[0].hoursFromNow).toBeCloseTo(-5, 0);
+  });
+});
+
+const advisory = (advisoryNumber: string, coneLongitude: number): StormAdvisory => ({
+  stormId: 'al012024',
+  stormName: 'TEST',
+  basin: 'AL',
+  advisoryNumber,
+  issuance: new Date(NOW - (10 - Number(advisoryNumber)) * HOUR_MS).toISOString(),
+  recordedAt: new Date(NOW).toISOString(),
+  cone: {
+    ...cone,
+    geometry: { type: 'Polygon', coordinates: [[[coneLongitude - 2, 20], [coneLongitude + 2, 20], [coneLongitude + 2, 30], [coneLongitude - 2, 30], [coneLongitude - 2, 20]]] },
+    properties: { ...cone.properties, advisoryNumber }
+  },
+  track: null
+});
+
+describe('analyzeAdvisoryRisk', () => {
+  it('lists balloons at risk per advisory and which ones each advisory added', () => {
+    const risks = analyzeAdvisoryRisk([trail], [advisory('1', 0), advisory('2', -60), advisory('3', -60)]);
+
+    expect(risks.map(risk => [risk.advisoryNumber, risk.atRiskBalloonIds, risk.newlyAtRiskBalloonIds])).toEqual([
+      ['1', [], []],
+      ['2', ['balloon-1'], ['balloon-1']],
+      ['3', ['balloon-1'], []],
+    ]);
+  });
+
+  it('gives the same risks when the trails are analyzed in batches and merged', () => {
+    const eastern = { ...trail, balloonId: 'balloon-3', points: trail.points.map(point => ({ ...point, longitude: point.longitude + 60, balloonId: 'balloon-3' })) };
+    const advisories = [advisory('1', 0), advisory('2', -60), advisory('3', -60)];
+
+    const merged = mergeAdvisoryRisks(analyzeAdvisoryRisk([trail], advisories), analyzeAdvisoryRisk([eastern], advisories));
+
+    expect(merged).toEqual(analyzeAdvisoryRisk([trail, eastern], advisories));
+    expect(merged.map(risk => risk.newlyAtRiskBalloonIds)).toEqual([['balloon-3'], ['balloon-1'], []]);
+  });
+});
+
+// A balloon drifting east along 25N at about 50 km/h
+const driftingTrail: BalloonTrail = {
+  balloonId: 'balloon-2',
+  color: '#000',
+  points: [2, 1, 0].map(hoursAgo => ({
+    latitude: 25,
+    longitude: -69 - hoursAgo * 0.5,
+    altitude: 10,
+    timestamp: new Date(NOW - hoursAgo * HOUR_MS).toISOString(),
+    balloonId: 'balloon-2'
+  }))
+};
+
+const coastline = (type: CoastalWatchWarning['type'], longitude: number): CoastalWatchWarning => ({
+  id: `al012024-${type}`,
+  stormName: 'TEST',
+  type,
+  geometry: { type: 'LineString', coordinates: [[longitude, 24], [longitude, 26]] }
+});
+
+describe('analyzeWarningCrossings', () => {
+  it('flags the first hour the extrapolated path reaches a warned coastline', () => {
+    const crossings = analyzeWarningCrossings([driftingTrail], [coastline('hurricane-warning', -66.8)]);
+
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0]).toMatchObject({ balloonId: 'balloon-2', warningType: 'hurricane-warning' });
+    expect(crossings[0].timestamp).toBe(new Date(NOW + 4 * HOUR_MS).toISOString());
+    expect(crossings[0].distance).toBeLessThan(50);
+  });
+
+  it('counts a crossing between hourly positions and ignores watches', () => {
+    // The path crosses 67.25W between hours 3 and 4, about 25 km from either position
+    const crossings = analyzeWarningCrossings([driftingTrail], [coastline('tropical-storm-watch', -67.25), coastline('tropical-storm-warning', -67.25)], 48, 10);
+
+    expect(crossings.map(crossing => [crossing.warningType, crossing.distance])).toEqual([['tropical-storm-warning', 0]]);
+    expect(crossings[0].timestamp).toBe(new Date(NOW + 4 * HOUR_MS).toISOString());
+  });
+
+  it('skips balloons heading away and trails too short to extrapolate', () => {
+    const shortTrail = { ...driftingTrail, balloonId: 'short', points: driftingTrail.points.slice(-2) };
+    expect(analyzeWarningCrossings([shortTrail], [coastline('hurricane-warning', -66.8)])).toEqual([]);
+    expect(analyzeWarningCrossings([driftingTrail], [coastline('hurricane-warning', -75)])).toEqual([]);
+  });
+});
@@ -1,18 +1,118 @@
 import * as turf from '@turf/turf';
-import { BalloonTrail, StormCone, StormTrack, ProximityAlert, HurricaneIntersection } from '@/types';
+import {
+  BalloonDataPoint,
+  BalloonTrail,
+  CoastalWatchWarning,
+  StormCone,
+  StormTrack,
+  ProximityAlert,
+  HurricaneIntersection,
+  WindField,
+  WindProbabilityContour,
+  WarningCrossing,
+  WindThreshold,
+  ModelTrack,
+  ModelAgreement,
+  StormAdvisory,
+  AdvisoryRisk,
+  StormData,
+  AnalysisResults
+} from '@/types';
+import { isWarning } from '@/lib/watchesWarnings';
+import { StormState, buildModelTimeline, buildStormTimeline, stormStateAt } from '@/lib/stormTimeline';
+import { assessVerticalRisk, weightedDistanceKm } from '@/lib/verticalRisk';
+import {
+  BoundingBox,
+  SpatialIndex,
+  boundsContain,
+  boundsIntersect,
+  createSpatialIndex,
+  expandBounds,
+  geometryBounds,
+  pointsBounds,
+  unionBounds
+} from '@/lib/spatialIndex';
+import {
+  bearingDegrees,
+  closestPointOnLine,
+  destination,
+  distanceKm,
+  distanceToLineKm,
+  distanceToPolygonKm,
+  interpolatePosition,
+  normalizeLongitude,
+  pointInPolygon,
+  unwrapLongitude
+} from '@/lib/geometry';
 
 const RISK_THRESHOLD_KM = 100; // Distance threshold for risk alerts
+const WARNING_PREDICTION_HOURS = 48; // How far ahead predicted paths are checked against warnings
+const WARNING_BUFFER_KM = 50; // Passing this close to a warned coastline counts as crossing
+const MODEL_AGREEMENT_HOURS = 48; // How far ahead predicted paths are compared with model tracks
+const FUTURE_PREDICTION_HOURS = 48; // How far ahead predicted paths are compared with the storm
+const PAST_SAMPLE_MINUTES = 15; // Spacing of positions interpolated between trail points
+const WIND_FIELD_TOLERANCE_HOURS = 3; // Wind fields count for balloon times this close to their valid time
+const HOUR_MS = 60 * 60 * 1000;
+
+// Cones by their box padded with the risk threshold; null runs every exact check (benchmarking)
+function indexCones(stormCones: StormCone[], riskThreshold: number, useSpatialIndex: boolean): SpatialIndex<StormCone> | null {
+  return useSpatialIndex
+    ? createSpatialIndex(stormCones, cone => expandBounds(geometryBounds(cone.geometry), riskThreshold))
+    : null;
+}
+
+const isNearCone = (coneIndex: SpatialIndex<StormCone> | null, cone: StormCone, longitude: number, latitude: number) =>
+  !coneIndex || coneIndex.query(longitude, latitude).includes(cone);
+
+// Everything the map shows for a set of trails: cone alerts, storm intersections and warning
+// crossings. `referenceTime` is "now", which separates past from future: a backtest passes its own.
+export function analyzeTrails(
+  balloonTrails: BalloonTrail[],
+  storms: StormData,
+  advisories: StormAdvisory[] = [],
+  referenceTime: number = Date.now()
+): AnalysisResults {
+  return {
+    alerts: analyzeProximity(balloonTrails, storms.cones, storms.windFields),
+    intersections: analyzeHurricaneIntersections(
+      balloonTrails,
+      storms.cones,
+      storms.tracks,
+      storms.windFields,
+      storms.windProbabilities,
+      storms.modelTracks,
+      advisories,
+      RISK_THRESHOLD_KM,
+      true,
+      referenceTime
+    ),
+    warningCrossings: analyzeWarningCrossings(
+      balloonTrails,
+      storms.watchesWarnings,
+      WARNING_PREDICTION_HOURS,
+      WARNING_BUFFER_KM,
+      referenceTime
+    )
+  };
+}
 
 export function analyzeProximity(
   balloonTrails: BalloonTrail[],
-  stormCones: StormCone[]
+  stormCones: StormCone[],
+  windFields: WindField[] = [],
+  useSpatialIndex: boolean = true
 ): ProximityAlert[] {
   const alerts: ProximityAlert[] = [];
+  const coneIndex = indexCones(stormCones, RISK_THRESHOLD_KM, useSpatialIndex);
 
   balloonTrails.forEach(trail => {
-    stormCones.forEach(storm => {
+    // Points outside a cone's padded box can't be within the threshold, so only the rest are measured
+    const nearbyCones = coneIndex ? coneIndex.queryBounds(pointsBounds(trail.points)) : stormCones;
+    nearbyCones.forEach(storm => {
+      const candidates = trail.points.filter(point => isNearCone(coneIndex, storm, point.longitude, point.latitude));
+
       // Find the closest point on the trail to the storm and its distance
-      const closestPointResult = findClosestPointToStorm(trail, storm);
+      const closestPointResult = findClosestPointToStorm(candidates, storm);
       
       if (closestPointResult && closestPointResult.distance <= RISK_THRESHOLD_KM) {
         alerts.push({
@@ -21,39 +121,28 @@ export function analyzeProximity(
           closestDistance: closestPointResult.distance,
           timestamp: closestPointResult.point.timestamp,
           altitude: closestPointResult.point.altitude,
-          insideForcastCone: isPointInsidePolygon(closestPointResult.point, storm.geometry)
+          insideForcastCone: isPointInsidePolygon(closestPointResult.point, storm.geometry),
+          windField: findWindField(closestPointResult.point, storm.properties.stormId, windFields),
+          verticalRisk: assessVerticalRisk(closestPointResult.point.altitude, storm.properties.maxWindSpeed, closestPointResult.point.latitude)
         });
       }
     });
   });
 
-  return alerts.sort((a, b) => a.closestDistance - b.closestDistance);
+  return alerts.sort(compareAlerts);
 }
 
-function findClosestPointToStorm(trail: BalloonTrail, storm: StormCone): { point: { longitude: number; latitude: number; altitude: number; timestamp: string; balloonId: string }, distance: number } | null {
-  let closestPoint: { longitude: number; latitude: number; altitude: number; timestamp: string; balloonId: string } | null = null;
+// Closest first, with distances weighted by how exposed the balloon's altitude band is
+export const compareAlerts = (a: ProximityAlert, b: ProximityAlert) =>
+  weightedDistanceKm(a.closestDistance, a.verticalRisk) - weightedDistanceKm(b.closestDistance, b.verticalRisk);
+
+function findClosestPointToStorm(points: BalloonDataPoint[], storm: StormCone): { point: BalloonDataPoint, distance: number } | null {
+  let closestPoint: BalloonDataPoint | null = null;
   let minDistance = Infinity;
 
-  trail.points.forEach(point => {
-    const pointGeom = turf.point([point.longitude, point.latitude]);
-    
-    // Calculate distance from point to polygon
-    let distance: number;
-    
-    // Check if point is inside the polygon first
-    if ((turf as any).booleanPointInPolygon(pointGeom, storm.geometry)) {
-      distance = 0; // Inside the storm cone
-    } else {
-      // Calculate distance to the polygon boundary
-      // For polygons, we need to find the closest point on the polygon boundary
-      const polygonCoords = storm.geometry.type === 'Polygon' 
-        ? storm.geometry.coordinates[0] 
-        : storm.geometry.coordinates[0][0];
-      
-      const polygonLine = turf.lineString(polygonCoords);
-      const nearestPointOnLine = (turf as any).nearestPointOnLine(polygonLine, pointGeom);
-      distance = turf.distance(pointGeom, nearestPointOnLine, { units: 'kilometers' } as any);
-    }
+  points.forEach(point => {
+    // 0 inside the cone, otherwise to its nearest edge
+    const distance = distanceToPolygonKm([point.longitude, point.latitude], storm.geometry);
     
     if (distance < minDistance) {
       minDistance = distance;
@@ -65,8 +154,56 @@ function findClosestPointToStorm(trail: BalloonTrail, storm: StormCone): { point
 }
 
 function isPointInsidePolygon(point: { longitude: number, latitude: number }, polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): boolean {
-  const pointGeom = turf.point([point.longitude, point.latitude]);
-  return (turf as any).booleanPointInPolygon(pointGeom, polygon);
+  return pointInPolygon([point.longitude, point.latitude], polygon);
+}
+
+// Strongest wind field of the storm containing the point. Uses the fields at the
+// advisory position, i.e. where the damaging winds are now.
+function findWindField(
+  point: { longitude: number, latitude: number },
+  stormId: string,
+  windFields: WindField[]
+): WindThreshold | undefined {
+  const containing = windFields.filter(field =>
+    field.stormId === stormId &&
+    field.forecastHour === 0 &&
+    isPointInsidePolygon(point, field.geometry)
+  );
+  return containing.length > 0
+    ? Math.max(...containing.map(field => field.threshold)) as WindThreshold
+    : undefined;
+}
+
+// Strongest wind field of the storm containing the point, from the fields valid
+// closest to the time (within WIND_FIELD_TOLERANCE_HOURS)
+function findWindFieldAt(
+  point: { longitude: number, latitude: number },
+  stormId: string,
+  time: number,
+  windFields: WindField[]
+): WindThreshold | undefined {
+  const stormFields = windFields.filter(field => field.stormId === stormId);
+  const offsets = stormFields.map(field => Math.abs(new Date(field.validTime).getTime() - time));
+  const closest = Math.min(...offsets);
+  if (!(closest <= WIND_FIELD_TOLERANCE_HOURS * HOUR_MS)) return undefined;
+
+  const containing = stormFields.filter((field, index) =>
+    offsets[index] === closest && isPointInsidePolygon(point, field.geometry)
+  );
+  return containing.length > 0
+    ? Math.max(...containing.map(field => field.threshold)) as WindThreshold
+    : undefined;
+}
+
+// Chance of tropical-storm-force winds at the point: the highest band containing it
+function findWindProbability(
+  point: { longitude: number, latitude: number },
+  windProbabilities: WindProbabilityContour[]
+): number | undefined {
+  const containing = windProbabilities.filter(contour =>
+    contour.threshold === 34 && isPointInsidePolygon(point, contour.geometry)
+  );
+  return containing.length > 0 ? Math.max(...containing.map(contour => contour.probability)) : undefined;
 }
 
 export function getTrailSegmentsInRisk(
@@ -77,13 +214,13 @@ export function getTrailSegmentsInRisk(
   const riskSegments: number[] = [];
 
   for (let i = 0; i < trail.points.length - 1; i++) {
-    const startPoint = turf.point([trail.points[i].longitude, trail.points[i].latitude]);
-    const endPoint = turf.point([trail.points[i + 1].longitude, trail.points[i + 1].latitude]);
+    const startPoint = [trail.points[i].longitude, trail.points[i].latitude];
+    const endPoint = [trail.points[i + 1].longitude, trail.points[i + 1].latitude];
 
     const isInRisk = stormCones.some(storm => {
       // Check if either endpoint is within risk threshold
-      const startDistance = calculateDistanceToPolygon(startPoint, storm.geometry);
-      const endDistance = calculateDistanceToPolygon(endPoint, storm.geometry);
+      const startDistance = distanceToPolygonKm(startPoint, storm.geometry);
+      const endDistance = distanceToPolygonKm(endPoint, storm.geometry);
       
       return startDistance <= riskThreshold || endDistance <= riskThreshold;
     });
@@ -100,47 +237,311 @@ export function analyzeHurricaneIntersections(
   balloonTrails: BalloonTrail[],
   stormCones: StormCone[],
   stormTracks: StormTrack[] = [],
-  riskThreshold: number = RISK_THRESHOLD_KM
+  windFields: WindField[] = [],
+  windProbabilities: WindProbabilityContour[] = [],
+  modelTracks: ModelTrack[] = [],
+  advisories: StormAdvisory[] = [],
+  riskThreshold: number = RISK_THRESHOLD_KM,
+  useSpatialIndex: boolean = true,
+  referenceTime: number = Date.now()
 ): HurricaneIntersection[] {
   const intersections: HurricaneIntersection[] = [];
-  const now = new Date();
+  const now = referenceTime;
+  const coneIndex = indexCones(stormCones, riskThreshold, useSpatialIndex);
+
+  // One analysis per storm (a backtest draws a cone slice per best-track fix), against
+  // where the storm was or will be at each balloon time. Grouped by ID, since storms in
+  // different basins can share a name or a placeholder like 'INVEST'.
+  const conesByStorm = new Map<string, StormCone[]>();
+  stormCones.forEach(cone => {
+    const { stormId } = cone.properties;
+    conesByStorm.set(stormId, [...(conesByStorm.get(stormId) ?? []), cone]);
+  });
+  const storms = [...conesByStorm.values()].map(cones => {
+    const { stormId, stormName } = cones[0].properties;
+    const timeline = buildStormTimeline(cones, stormTracks, windFields, advisories);
+    // Everywhere the storm's extent comes within the threshold at some time
+    const reach = useSpatialIndex && timeline.length > 0
+      ? unionBounds(timeline.map(state =>
+          expandBounds(pointsBounds([state]), state.windRadiusKm + state.coneRadiusKm + riskThreshold)
+        ))
+      : null;
+    return { stormId, stormName, cones, timeline, reach };
+  });
 
   balloonTrails.forEach(trail => {
-    stormCones.forEach(storm => {
-      // Analyze each point in the balloon's trail
-      trail.points.forEach(point => {
-        const pointGeom = (turf as any).point([point.longitude, point.latitude]);
-        const distance = calculateDistanceToPolygon(pointGeom, storm.geometry);
-        
-        if (distance <= riskThreshold) {
-          const pointTime = new Date(point.timestamp);
-          const hoursFromNow = (pointTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-          
-          // Determine if this is a past or future intersection
-          const intersectionType: 'past' | 'future' = hoursFromNow <= 0 ? 'past' : 'future';
-          
-          intersections.push({
-            balloonId: trail.balloonId,
-            stormName: storm.properties.stormName,
-            intersectionType,
-            closestDistance: distance,
-            timestamp: point.timestamp,
-            altitude: point.altitude,
-            insideForcastCone: (turf as any).booleanPointInPolygon(pointGeom, storm.geometry),
-            hoursFromNow
-          });
-        }
-      });
+    storms.forEach(({ stormId, stormName, cones, timeline, reach }) => {
+      // Storms without a timed track can only be compared with their cone as drawn now
+      const stormIntersections = timeline.length > 0
+        ? findTimeMatchedIntersections(trail, stormId, stormName, timeline, reach, windFields, windProbabilities, riskThreshold, now)
+        : cones.flatMap(storm => findConeIntersections(trail, storm, coneIndex, stormTracks, windFields, windProbabilities, riskThreshold, now));
 
-      // Check future trajectory intersections with hurricane track
-      const futureIntersections = analyzeFutureTrajectoryIntersections(trail, storm, stormTracks, riskThreshold);
-      intersections.push(...futureIntersections);
+      const futureIntersections = stormIntersections.filter(intersection => intersection.intersectionType === 'future');
+      const modelAgreement = futureIntersections.length > 0
+        ? findModelAgreement(trail, modelTracks.filter(track => track.stormId === stormId), riskThreshold, now)
+        : undefined;
+      if (modelAgreement) {
+        futureIntersections.forEach(intersection => { intersection.modelAgreement = modelAgreement; });
+      }
+      intersections.push(...stormIntersections);
     });
   });
 
   return intersections.sort((a, b) => a.hoursFromNow - b.hoursFromNow);
 }
 
+interface ClosestApproach {
+  time: number;
+  latitude: number;
+  longitude: number;
+  distance: number; // km outside the storm's wind extent plus track uncertainty, 0 inside it
+  maxWindKt: number | null;
+}
+
+// Distance from a position to the storm as it is at the position's time
+function approachAt(timeline: StormState[], time: number, latitude: number, longitude: number): ClosestApproach | null {
+  const state = stormStateAt(timeline, time);
+  if (!state) return null;
+
+  const centerDistance = distanceKm([longitude, latitude], [state.longitude, state.latitude]);
+  return {
+    time,
+    latitude,
+    longitude,
+    distance: Math.max(0, centerDistance - state.windRadiusKm - state.coneRadiusKm),
+    maxWindKt: state.maxWindKt
+  };
+}
+
+/**
+ * Closest point of approach in space and time, at most one past and one future per storm.
+ * Past: the recorded trail, sampled every PAST_SAMPLE_MINUTES between its points. Future:
+ * the extrapolated path over the next FUTURE_PREDICTION_HOURS. Each position is compared
+ * with the storm's interpolated position and extent at that same time. Positions outside
+ * the storm's `reach`, if given, are skipped without measuring.
+ */
+function findTimeMatchedIntersections(
+  trail: BalloonTrail,
+  stormId: string,
+  stormName: string,
+  timeline: StormState[],
+  reach: BoundingBox | null,
+  windFields: WindField[],
+  windProbabilities: WindProbabilityContour[],
+  riskThreshold: number,
+  now: number
+): HurricaneIntersection[] {
+  const intersections: HurricaneIntersection[] = [];
+  const closer = (a: ClosestApproach | null, b: ClosestApproach | null) =>
+    b && (!a || b.distance < a.distance) ? b : a;
+
+  let pastApproach: ClosestApproach | null = null;
+  let pastAltitude = 0;
+  // Samples stay within the box of the recorded points
+  const pastPoints = !reach || boundsIntersect(pointsBounds(trail.points), reach) ? trail.points : [];
+  for (const [index, point] of pastPoints.entries()) {
+    const next = pastPoints[index + 1];
+    const time = new Date(point.timestamp).getTime();
+    const nextTime = next ? new Date(next.timestamp).getTime() : time;
+    const steps = next ? Math.max(1, Math.ceil((nextTime - time) / (PAST_SAMPLE_MINUTES * 60 * 1000))) : 1;
+
+    for (let step = 0; step < steps; step++) {
+      const fraction = step / steps;
+      const sampleTime = time + (nextTime - time) * fraction;
+      if (sampleTime > now) break;
+
+      const [longitude, latitude] = interpolatePosition(
+        [point.longitude, point.latitude],
+        [next?.longitude ?? point.longitude, next?.latitude ?? point.latitude],
+        fraction
+      );
+      if (reach && !boundsContain(reach, longitude, latitude)) continue;
+
+      const approach = approachAt(timeline, sampleTime, latitude, longitude);
+      if (closer(pastApproach, approach) !== pastApproach) {
+        pastApproach = approach;
+        pastAltitude = point.altitude;
+      }
+    }
+  }
+
+  const toIntersection = (approach: ClosestApproach, intersectionType: 'past' | 'future', altitude: number): HurricaneIntersection => {
+    const position = { latitude: approach.latitude, longitude: approach.longitude };
+    return {
+      balloonId: trail.balloonId,
+      stormName,
+      intersectionType,
+      closestDistance: approach.distance,
+      timestamp: new Date(approach.time).toISOString(),
+      altitude,
+      insideForcastCone: approach.distance === 0,
+      hoursFromNow: (approach.time - now) / HOUR_MS,
+      windField: findWindFieldAt(position, stormId, approach.time, windFields),
+      ...(intersectionType === 'past' ? { tsWindProbability: findWindProbability(position, windProbabilities) } : {}),
+      verticalRisk: assessVerticalRisk(altitude, approach.maxWindKt, approach.latitude)
+    };
+  };
+
+  if (pastApproach && pastApproach.distance <= riskThreshold) {
+    intersections.push(toIntersection(pastApproach, 'past', pastAltitude));
+  }
+
+  // Future: the extrapolated path from the next half hour on
+  const drift = estimateDrift(trail);
+  const lastTime = drift ? new Date(drift.lastPoint.timestamp).getTime() : 0;
+  const start = Math.max(lastTime, now);
+  // The path stays within its longest drift of the last point
+  const futureInReach = drift && (!reach || boundsIntersect(
+    expandBounds(pointsBounds([drift.lastPoint]), drift.speedKmh * ((start - lastTime) / HOUR_MS + FUTURE_PREDICTION_HOURS)),
+    reach
+  ));
+  if (drift && futureInReach) {
+    const { lastPoint } = drift;
+    let futureApproach: ClosestApproach | null = null;
+
+    for (let hours = 0.5; hours <= FUTURE_PREDICTION_HOURS; hours += 0.5) {
+      const time = start + hours * HOUR_MS;
+      const elapsedHours = (time - lastTime) / HOUR_MS;
+      const [longitude, latitude] = driftPosition(drift, elapsedHours);
+      if (reach && !boundsContain(reach, longitude, latitude)) continue;
+
+      futureApproach = closer(futureApproach, approachAt(timeline, time, latitude, longitude));
+    }
+
+    if (futureApproach && futureApproach.distance <= riskThreshold) {
+      intersections.push(toIntersection(futureApproach, 'future', lastPoint.altitude));
+    }
+  }
+
+  return intersections;
+}
+
+// Every trail point near the cone as drawn now, plus the extrapolated path against the track
+function findConeIntersections(
+  trail: BalloonTrail,
+  storm: StormCone,
+  coneIndex: SpatialIndex<StormCone> | null,
+  stormTracks: StormTrack[],
+  windFields: WindField[],
+  windProbabilities: WindProbabilityContour[],
+  riskThreshold: number,
+  now: number
+): HurricaneIntersection[] {
+  const intersections: HurricaneIntersection[] = [];
+
+  trail.points.forEach(point => {
+    if (!isNearCone(coneIndex, storm, point.longitude, point.latitude)) return;
+
+    const distance = distanceToPolygonKm([point.longitude, point.latitude], storm.geometry);
+
+    if (distance <= riskThreshold) {
+      const pointTime = new Date(point.timestamp);
+      const hoursFromNow = (pointTime.getTime() - now) / HOUR_MS;
+
+      // Determine if this is a past or future intersection
+      const intersectionType: 'past' | 'future' = hoursFromNow <= 0 ? 'past' : 'future';
+
+      intersections.push({
+        balloonId: trail.balloonId,
+        stormName: storm.properties.stormName,
+        intersectionType,
+        closestDistance: distance,
+        timestamp: point.timestamp,
+        altitude: point.altitude,
+        insideForcastCone: distance === 0,
+        hoursFromNow,
+        windField: findWindField(point, storm.properties.stormId, windFields),
+        tsWindProbability: findWindProbability(point, windProbabilities),
+        verticalRisk: assessVerticalRisk(point.altitude, storm.properties.maxWindSpeed, point.latitude)
+      });
+    }
+  });
+
+  // Check future trajectory intersections with hurricane track
+  intersections.push(...analyzeFutureTrajectoryIntersections(trail, storm, coneIndex, stormTracks, riskThreshold));
+
+  return intersections;
+}
+
+// Models whose storm, at its forecast position for each hour of the balloon's predicted
+// path, comes within the risk threshold of where the balloon is at that same hour
+function findModelAgreement(
+  balloonTrail: BalloonTrail,
+  modelTracks: ModelTrack[],
+  riskThreshold: number,
+  now: number
+): ModelAgreement | undefined {
+  if (modelTracks.length === 0) return undefined;
+
+  const drift = estimateDrift(balloonTrail);
+  if (!drift) return undefined;
+
+  const lastTime = new Date(drift.lastPoint.timestamp).getTime();
+  const start = Math.max(lastTime, now);
+  const predictedPath = Array.from({ length: MODEL_AGREEMENT_HOURS }, (_, index) => {
+    const time = start + (index + 1) * HOUR_MS;
+    return { time, position: driftPosition(drift, (time - lastTime) / HOUR_MS) };
+  });
+
+  const inRange = modelTracks
+    .filter(track => {
+      const timeline = buildModelTimeline(track);
+      return predictedPath.some(({ time, position: [longitude, latitude] }) => {
+        const approach = approachAt(timeline, time, latitude, longitude);
+        return approach !== null && approach.distance <= riskThreshold;
+      });
+    })
+    .map(track => track.model);
+
+  return { inRange, total: modelTracks.length };
+}
+
+/**
+ * Re-runs the intersection analysis against each advisory's cone and track in turn
+ * (advisories oldest first), recording which balloons each one puts at risk and which
+ * of those no earlier advisory had.
+ */
+export function analyzeAdvisoryRisk(
+  balloonTrails: BalloonTrail[],
+  advisories: StormAdvisory[]
+): AdvisoryRisk[] {
+  const seen = new Set<string>();
+
+  return advisories.map((advisory, index) => {
+    // Earlier advisories place the storm before this one's track starts
+    const intersections = analyzeHurricaneIntersections(
+      balloonTrails,
+      [advisory.cone],
+      advisory.track ? [advisory.track] : [],
+      [],
+      [],
+      [],
+      advisories.slice(0, index)
+    );
+    const atRiskBalloonIds = [...new Set(intersections.map(intersection => intersection.balloonId))];
+    const newlyAtRiskBalloonIds = atRiskBalloonIds.filter(balloonId => !seen.has(balloonId));
+    newlyAtRiskBalloonIds.forEach(balloonId => seen.add(balloonId));
+
+    return {
+      advisoryNumber: advisory.advisoryNumber,
+      issuance: advisory.issuance,
+      atRiskBalloonIds,
+      newlyAtRiskBalloonIds
+    };
+  });
+}
+
+// Joins the advisory risks of two sets of trails analyzed against the same advisories
+export function mergeAdvisoryRisks(risks: AdvisoryRisk[], more: AdvisoryRisk[]): AdvisoryRisk[] {
+  if (risks.length === 0) return more;
+
+  return risks.map((risk, index) => ({
+    ...risk,
+    atRiskBalloonIds: [...risk.atRiskBalloonIds, ...(more[index]?.atRiskBalloonIds ?? [])],
+    newlyAtRiskBalloonIds: [...risk.newlyAtRiskBalloonIds, ...(more[index]?.newlyAtRiskBalloonIds ?? [])]
+  }));
+}
+
 export function getPastIntersections(intersections: HurricaneIntersection[]): HurricaneIntersection[] {
   return intersections.filter(intersection => intersection.intersectionType === 'past');
 }
@@ -177,67 +578,130 @@ export function getRecentTrajectory(trail: BalloonTrail, hours: number = 5): Bal
   };
 }
 
-function calculateDistanceToPolygon(point: GeoJSON.Feature<GeoJSON.Point>, polygon: GeoJSON.Polygon | GeoJSON.MultiPolygon): number {
-  // Check if point is inside the polygon first
-  if ((turf as any).booleanPointInPolygon(point, polygon)) {
-    return 0; // Inside the storm cone
-  }
+interface Drift {
+  lastPoint: BalloonDataPoint;
+  speedKmh: number;
+  bearing: number; // Heading at the last point, degrees clockwise from north
+}
+
+// Average drift over the last few points, as a great-circle speed and heading, used to
+// extrapolate the balloon's path. Works across the antimeridian and near the poles.
+function estimateDrift(balloonTrail: BalloonTrail): Drift | null {
+  if (balloonTrail.points.length < 3) return null;
+  
+  // Get balloon's recent trajectory for better velocity estimation
+  const recentPoints = balloonTrail.points.slice(-5); // Use more points for better accuracy
+  const firstPoint = recentPoints[0];
+  const lastPoint = recentPoints[recentPoints.length - 1];
   
-  // Calculate distance to the polygon boundary
-  const polygonCoords = polygon.type === 'Polygon' 
-    ? polygon.coordinates[0] 
-    : polygon.coordinates[0][0];
+  // Live points are an hour apart; fall back to that if timestamps don't say
+  const elapsedHours = (new Date(lastPoint.timestamp).getTime() - new Date(firstPoint.timestamp).getTime()) / HOUR_MS;
+  const hours = elapsedHours > 0 ? elapsedHours : recentPoints.length - 1;
+
+  const from = [firstPoint.longitude, firstPoint.latitude];
+  const to = [lastPoint.longitude, lastPoint.latitude];
+  const distance = distanceKm(from, to);
   
-  const polygonLine = turf.lineString(polygonCoords);
-  const nearestPointOnLine = (turf as any).nearestPointOnLine(polygonLine, point);
-  return turf.distance(point, nearestPointOnLine, { units: 'kilometers' } as any);
+  return {
+    lastPoint,
+    speedKmh: distance / hours,
+    // Reverse of the bearing back to the start, i.e. the direction of travel on arrival
+    bearing: distance > 0 ? (bearingDegrees(to, from) + 180) % 360 : 0
+  };
+}
+
+// Where the drift carries the balloon `hours` after its last point
+function driftPosition(drift: Drift, hours: number): number[] {
+  const [longitude, latitude] = destination(
+    [drift.lastPoint.longitude, drift.lastPoint.latitude],
+    drift.speedKmh * hours,
+    drift.bearing
+  );
+  return [normalizeLongitude(longitude), latitude];
+}
+
+/**
+ * Balloons whose extrapolated path crosses, or passes within `bufferKm` of, a coastal
+ * hurricane or tropical storm warning in the next `hours` hours. One crossing per
+ * balloon and warning type, at the first hour it happens.
+ */
+export function analyzeWarningCrossings(
+  balloonTrails: BalloonTrail[],
+  watchesWarnings: CoastalWatchWarning[],
+  hours: number = WARNING_PREDICTION_HOURS,
+  bufferKm: number = WARNING_BUFFER_KM,
+  referenceTime: number = Date.now()
+): WarningCrossing[] {
+  const warnings = watchesWarnings
+    .filter(segment => isWarning(segment.type))
+    .map(segment => ({ segment, line: turf.lineString(segment.geometry.coordinates) }));
+  if (warnings.length === 0) return [];
+
+  const crossings: WarningCrossing[] = [];
+  const now = referenceTime;
+
+  balloonTrails.forEach(trail => {
+    const drift = estimateDrift(trail);
+    if (!drift) return;
+
+    const { lastPoint } = drift;
+    const lastTime = new Date(lastPoint.timestamp).getTime();
+    const found = new Set<string>();
+
+    for (let hour = 1; hour <= hours; hour++) {
+      const from = driftPosition(drift, hour - 1);
+      const to = driftPosition(drift, hour);
+      // The step stays continuous if it crosses the antimeridian
+      const step = turf.lineString([from, [unwrapLongitude(to[0], from[0]), to[1]]]);
+
+      warnings.forEach(({ segment, line }) => {
+        const key = `${segment.stormName}|${segment.type}`;
+        if (found.has(key)) return;
+
+        const distance = turf.lineIntersect(step, line).features.length > 0
+          ? 0
+          : distanceToLineKm(to, segment.geometry.coordinates);
+        if (distance > bufferKm) return;
+
+        found.add(key);
+        const time = lastTime + hour * 60 * 60 * 1000;
+        crossings.push({
+          balloonId: trail.balloonId,
+          stormName: segment.stormName,
+          warningType: segment.type,
+          timestamp: new Date(time).toISOString(),
+          hoursFromNow: (time - now) / (1000 * 60 * 60),
+          distance
+        });
+      });
+    }
+  });
+
+  return crossings.sort((a, b) => a.hoursFromNow - b.hoursFromNow);
 }
 
 function analyzeFutureTrajectoryIntersections(
   balloonTrail: BalloonTrail,
   storm: StormCone,
+  coneIndex: SpatialIndex<StormCone> | null,
   stormTracks: StormTrack[],
   riskThreshold: number
 ): HurricaneIntersection[] {
   const intersections: HurricaneIntersection[] = [];
   const now = new Date();
   
-  if (balloonTrail.points.length < 3) return intersections;
-  
-  // Get balloon's recent trajectory for better velocity estimation
-  const recentPoints = balloonTrail.points.slice(-5); // Use more points for better accuracy
-  const lastPoint = recentPoints[recentPoints.length - 1];
+  const drift = estimateDrift(balloonTrail);
+  if (!drift) return intersections;
   
-  if (!lastPoint) return intersections;
-  
-  // Calculate average velocity over recent points (each point is 1 hour apart)
-  let totalLatVelocity = 0;
-  let totalLonVelocity = 0;
-  
-  for (let i = 1; i < recentPoints.length; i++) {
-    const current = recentPoints[i];
-    const previous = recentPoints[i - 1];
-    
-    // Simple difference since points are exactly 1 hour apart
-    totalLatVelocity += current.latitude - previous.latitude;
-    totalLonVelocity += current.longitude - previous.longitude;
-  }
-  
-  const velocityCount = recentPoints.length - 1;
-  if (velocityCount === 0) return intersections;
-  
-  const avgLatVelocity = totalLatVelocity / velocityCount;  // degrees per hour
-  const avgLonVelocity = totalLonVelocity / velocityCount;  // degrees per hour
+  const { lastPoint } = drift;
   
   // Find storm track for this storm
-  const stormTrack = stormTracks.find(track => track.properties.stormName === storm.properties.stormName);
+  const stormTrack = stormTracks.find(track => track.properties.stormId === storm.properties.stormId);
   
   // If we have a storm track, find closest approach between balloon and hurricane trajectories
   if (stormTrack?.geometry?.type === 'LineString') {
     const closestApproach = findClosestApproachBetweenTrajectories(
-      { ...lastPoint, balloonId: balloonTrail.balloonId },
-      avgLatVelocity,
-      avgLonVelocity,
+      drift,
       stormTrack.geometry.coordinates,
       riskThreshold
     );
@@ -253,17 +717,17 @@ function analyzeFutureTrajectoryIntersections(
         timestamp: futureTime.toISOString(),
         altitude: lastPoint.altitude,
         insideForcastCone: false,
-        hoursFromNow: closestApproach.hours
+        hoursFromNow: closestApproach.hours,
+        verticalRisk: assessVerticalRisk(lastPoint.altitude, storm.properties.maxWindSpeed, lastPoint.latitude)
       });
     }
   } else {
     // Fallback to simple cone intersection if no track available
     for (let hours = 1; hours <= 48; hours++) {
-      const balloonLat = lastPoint.latitude + (avgLatVelocity * hours);
-      const balloonLon = lastPoint.longitude + (avgLonVelocity * hours);
-      const balloonPoint = (turf as any).point([balloonLon, balloonLat]);
-      
-      const distanceToCone = calculateDistanceToPolygon(balloonPoint, storm.geometry);
+      const [balloonLon, balloonLat] = driftPosition(drift, hours);
+      if (!isNearCone(coneIndex, storm, balloonLon, balloonLat)) continue;
+
+      const distanceToCone = distanceToPolygonKm([balloonLon, balloonLat], storm.geometry);
       
       if (distanceToCone <= riskThreshold) {
         const futureTime = new Date(now.getTime() + hours * 60 * 60 * 1000);
@@ -276,7 +740,8 @@ function analyzeFutureTrajectoryIntersections(
           timestamp: futureTime.toISOString(),
           altitude: lastPoint.altitude,
           insideForcastCone: true,
-          hoursFromNow: hours
+          hoursFromNow: hours,
+          verticalRisk: assessVerticalRisk(lastPoint.altitude, storm.properties.maxWindSpeed, balloonLat)
         });
         
         break;
@@ -289,9 +754,7 @@ function analyzeFutureTrajectoryIntersections(
 
 // Find closest approach between balloon trajectory and hurricane track with vector analysis
 function findClosestApproachBetweenTrajectories(
-  balloonPosition: { longitude: number; latitude: number; balloonId?: string },
-  balloonLatVel: number,
-  balloonLonVel: number,
+  drift: Drift,
   stormTrackCoords: number[][],
   riskThreshold: number
 ): { distance: number; hours: number } | null {
@@ -300,19 +763,13 @@ function findClosestApproachBetweenTrajectories(
   let isConverging = false;
   
   // Calculate current distance to storm track for reference
-  const currentBalloonPoint = (turf as any).point([balloonPosition.longitude, balloonPosition.latitude]);
-  const stormLine = (turf as any).lineString(stormTrackCoords);
-  const currentDistance = (turf as any).pointToLineDistance(currentBalloonPoint, stormLine, { units: 'kilometers' });
+  const currentPosition = [drift.lastPoint.longitude, drift.lastPoint.latitude];
+  const currentDistance = distanceToLineKm(currentPosition, stormTrackCoords);
   
   // Sample time points over next 48 hours
   for (let hours = 1; hours <= 48; hours += 0.5) {
-    // Predicted balloon position
-    const balloonLat = balloonPosition.latitude + (balloonLatVel * hours);
-    const balloonLon = balloonPosition.longitude + (balloonLonVel * hours);
-    const balloonPoint = (turf as any).point([balloonLon, balloonLat]);
-    
-    // Find distance to storm track
-    const distance = (turf as any).pointToLineDistance(balloonPoint, stormLine, { units: 'kilometers' });
+    // Predicted balloon position, and its distance to the storm track
+    const distance = distanceToLineKm(driftPosition(drift, hours), stormTrackCoords);
     
     if (distance < minDistance) {
       minDistance = distance;
@@ -324,15 +781,7 @@ function findClosestApproachBetweenTrajectories(
   }
   
   // Additional vector analysis: check if balloon is heading toward storm track
-  const vectorConvergence = calculateVectorConvergence(
-    balloonPosition,
-    balloonLatVel,
-    balloonLonVel,
-    stormTrackCoords
-  );
-  
-  // Debug logging (use balloonTrail.balloonId since balloonPosition might not have it)
-  // const balloonId = balloonPosition.balloonId || 'unknown';
+  const vectorConvergence = calculateVectorConvergence(drift, stormTrackCoords);
   
   // Stricter conditions - balloon must be actively heading toward storm
   const willIntersect = minDistance <= riskThreshold && 
@@ -343,37 +792,18 @@ function findClosestApproachBetweenTrajectories(
   return willIntersect ? { distance: minDistance, hours: bestTime } : null;
 }
 
-// Calculate if balloon vector is pointing toward storm track
-function calculateVectorConvergence(
-  balloonPosition: { longitude: number; latitude: number },
-  balloonLatVel: number,
-  balloonLonVel: number,
-  stormTrackCoords: number[][]
-): number {
+// Calculate if balloon vector is pointing toward storm track: the cosine of the angle
+// between its heading and the bearing to the nearest track point
+// > 0 means balloon is heading toward storm
+// < 0 means balloon is heading away from storm
+function calculateVectorConvergence(drift: Drift, stormTrackCoords: number[][]): number {
+  const balloonPosition = [drift.lastPoint.longitude, drift.lastPoint.latitude];
+  if (drift.speedKmh === 0 || stormTrackCoords.length < 2) return 0;
+
   // Find nearest point on storm track to current balloon position
-  const balloonPoint = (turf as any).point([balloonPosition.longitude, balloonPosition.latitude]);
-  const stormLine = (turf as any).lineString(stormTrackCoords);
-  const nearestPoint = (turf as any).nearestPointOnLine(stormLine, balloonPoint);
-  
-  // Vector from balloon to nearest storm point
-  const toStormLat = nearestPoint.geometry.coordinates[1] - balloonPosition.latitude;
-  const toStormLon = nearestPoint.geometry.coordinates[0] - balloonPosition.longitude;
-  
-  // Normalize vectors
-  const balloonSpeed = Math.sqrt(balloonLatVel * balloonLatVel + balloonLonVel * balloonLonVel);
-  const toStormDistance = Math.sqrt(toStormLat * toStormLat + toStormLon * toStormLon);
-  
-  if (balloonSpeed === 0 || toStormDistance === 0) return 0;
-  
-  const balloonDirLat = balloonLatVel / balloonSpeed;
-  const balloonDirLon = balloonLonVel / balloonSpeed;
-  const toStormDirLat = toStormLat / toStormDistance;
-  const toStormDirLon = toStormLon / toStormDistance;
-  
-  // Dot product gives cosine of angle between vectors
-  // > 0 means balloon is heading toward storm
-  // < 0 means balloon is heading away from storm
-  const dotProduct = (balloonDirLat * toStormDirLat) + (balloonDirLon * toStormDirLon);
-  
-  return dotProduct;
+  const nearestPoint = closestPointOnLine(balloonPosition, stormTrackCoords);
+  if (distanceKm(balloonPosition, nearestPoint) === 0) return 0;
+
+  const toStorm = bearingDegrees(balloonPosition, nearestPoint);
+  return Math.cos((drift.bearing - toStorm) * Math.PI / 180);
 }
@@ -0,0 +1,116 @@
+import { BalloonDataPoint, BalloonTrail } from '@/types';
+import { generateMockStormData } from '@/lib/stormData';
+import { analyzeHurricaneIntersections, analyzeProximity } from '@/lib/proximityAnalysis';
+
+// Times the proximity analysis with and without the spatial index on a synthetic fleet
+// spread over the globe, against the mock storms.
+
+const FLEET_HOURS = 24;
+
+export interface BenchmarkRun {
+  milliseconds: number;
+  alerts: number;
+  intersections: number;
+}
+
+export interface ProximityBenchmarkResult {
+  balloons: number;
+  points: number;
+  storms: number;
+  bruteForce: BenchmarkRun;
+  indexed: BenchmarkRun;
+  speedup: number;
+  resultsMatch: boolean; // Both runs found the same alerts and intersections
+}
+
+// Small seeded generator, so runs compare the same fleet
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// `count` balloons with hourly positions over the last day, between 60°S and 60°N
+export function generateSyntheticFleet(count: number, seed: number = 1): BalloonTrail[] {
+  const random = mulberry32(seed);
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, i) => {
+    const balloonId = `synthetic-${i + 1}`;
+    let latitude = -60 + random() * 120;
+    let longitude = -180 + random() * 360;
+    const altitude = 5 + random() * 20;
+    // Mostly zonal drift, as in the jet streams
+    const lonDrift = (random() - 0.3) * 1.5;
+    const latDrift = (random() - 0.5) * 0.5;
+
+    const points: BalloonDataPoint[] = [];
+    for (let hour = 0; hour < FLEET_HOURS; hour++) {
+      points.push({
+        latitude,
+        longitude,
+        altitude: altitude + (random() - 0.5),
+        timestamp: new Date(now - (FLEET_HOURS - 1 - hour) * 60 * 60 * 1000).toISOString(),
+        balloonId
+      });
+      latitude = Math.max(-85, Math.min(85, latitude + latDrift + (random() - 0.5) * 0.2));
+      longitude = ((longitude + lonDrift + (random() - 0.5) * 0.2 + 540) % 360) - 180;
+    }
+
+    return { balloonId, points, color: '#3b82f6' };
+  });
+}
+
+// Runs are compared by which balloons they flag for which storms
+const resultKey = (item: { balloonId: string; stormName: string; intersectionType?: string }) =>
+  `${item.balloonId}|${item.stormName}|${item.intersectionType ?? 'alert'}`;
+
+export function runProximityBenchmark(balloonCount: number = 5000): ProximityBenchmarkResult {
+  const trails = generateSyntheticFleet(balloonCount);
+  const storms = generateMockStormData();
+  // Both runs time future intersections from the same moment
+  const referenceTime = Date.now();
+
+  const run = (useSpatialIndex: boolean) => {
+    const start = performance.now();
+    const alerts = analyzeProximity(trails, storms.cones, storms.windFields, useSpatialIndex);
+    const intersections = analyzeHurricaneIntersections(
+      trails,
+      storms.cones,
+      storms.tracks,
+      storms.windFields,
+      storms.windProbabilities,
+      storms.modelTracks,
+      [],
+      undefined,
+      useSpatialIndex,
+      referenceTime
+    );
+    return { milliseconds: performance.now() - start, alerts, intersections };
+  };
+
+  const bruteForce = run(false);
+  const indexed = run(true);
+  const keys = (r: typeof indexed) => [...r.alerts, ...r.intersections].map(resultKey).sort().join('\n');
+
+  const summary = (r: typeof indexed): BenchmarkRun => ({
+    milliseconds: Math.round(r.milliseconds),
+    alerts: r.alerts.length,
+    intersections: r.intersections.length
+  });
+
+  return {
+    balloons: trails.length,
+    points: trails.reduce((sum, trail) => sum + trail.points.length, 0),
+    storms: storms.cones.length,
+    bruteForce: summary(bruteForce),
+    indexed: summary(indexed),
+    speedup: Math.round(bruteForce.milliseconds / Math.max(1, indexed.milliseconds) * 10) / 10,
+    resultsMatch: keys(bruteForce) === keys(indexed)
+  };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { isGeographicPrj, parseDbf, parseShp, shapefileZipToFeatures } from '@/lib/shapefile';
+
+type Ring = Array<[number, number]>;
+
+// Record contents, little-endian like the .shp body
+const pointRecord = ([x, y]: [number, number]) => {
+  const view = new DataView(new ArrayBuffer(20));
+  view.setInt32(0, 1, true);
+  view.setFloat64(4, x, true);
+  view.setFloat64(12, y, true);
+  return view.buffer;
+};
+
+const partsRecord = (shapeType: number, parts: Ring[]) => {
+  const points = parts.flat();
+  const view = new DataView(new ArrayBuffer(44 + parts.length * 4 + points.length * 16));
+  view.setInt32(0, shapeType, true);
+  view.setInt32(36, parts.length, true);
+  view.setInt32(40, points.length, true);
+  let start = 0;
+  parts.forEach((part, i) => {
+    view.setInt32(44 + i * 4, start, true);
+    start += part.length;
+  });
+  points.forEach(([x, y], i) => {
+    view.setFloat64(44 + parts.length * 4 + i * 16, x, true);
+    view.setFloat64(44 + parts.length * 4 + i * 16 + 8, y, true);
+  });
+  return view.buffer;
+};
+
+// A .shp with a blank 100-byte header and big-endian record headers
+const buildShp = (records: ArrayBuffer[]) => {
+  const bytes = new Uint8Array(100 + records.reduce((sum, record) => sum + 8 + record.byteLength, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 100;
+  records.forEach((record, i) => {
+    view.setInt32(offset, i + 1, false);
+    view.setInt32(offset + 4, record.byteLength / 2, false);
+    bytes.set(new Uint8Array(record), offset + 8);
+    offset += 8 + record.byteLength;
+  });
+  return bytes.buffer;
+};
+
+const buildDbf = (fields: Array<{ name: string; type: string; length: number }>, rows: Array<{ deleted?: boolean; values: string[] }>) => {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + rows.length * recordLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    bytes.set(new TextEncoder().encode(field.name), 32 + i * 32);
+    bytes[32 + i * 32 + 11] = field.type.charCodeAt(0);
+    bytes[32 + i * 32 + 16] = field.length;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  rows.forEach((row, i) => {
+    let offset = headerLength + i * recordLength;
+    bytes[offset++] = row.deleted ? 0x2a : 0x20;
+    fields.forEach((field, j) => {
+      bytes.set(new TextEncoder().encode(row.values[j].padEnd(field.length).slice(0, field.length)), offset);
+      offset += field.length;
+    });
+  });
+  return bytes.buffer;
+};
+
+// Shapefile outer rings run clockwise, holes counterclockwise
+const OUTER: Ring = [[-80, 20], [-80, 30], [-70, 30], [-70, 20], [-80, 20]];
+const HOLE: Ring = [[-76, 24], [-74, 24], [-74, 26], [-76, 26], [-76, 24]];
+const SECOND_OUTER: Ring = [[10, 10], [10, 11], [11, 11], [11, 10], [10, 10]];
+
+describe('parseShp', () => {
+  it('assigns holes to the outer ring containing them', () => {
+    const [polygon] = parseShp(buildShp([partsRecord(5, [OUTER, HOLE])]));
+    expect(polygon).toEqual({ type: 'Polygon', coordinates: [OUTER, HOLE] });
+  });
+
+  it('returns separate outer rings as a MultiPolygon', () => {
+    const [polygon] = parseShp(buildShp([partsRecord(5, [OUTER, HOLE, SECOND_OUTER])]));
+    expect(polygon).toEqual({ type: 'MultiPolygon', coordinates: [[OUTER, HOLE], [SECOND_OUTER]] });
+  });
+
+  it('treats a counterclockwise ring outside every outer ring as an outer ring', () => {
+    const [polygon] = parseShp(buildShp([partsRecord(5, [HOLE])]));
+    expect(polygon).toEqual({ type: 'Polygon', coordinates: [HOLE] });
+  });
+
+  it('reads points, Z polylines and multi-part lines in record order', () => {
+    const geometries = parseShp(buildShp([
+      pointRecord([-75, 25]),
+      partsRecord(13, [[[0, 0], [1, 1]]]),
+      partsRecord(3, [[[0, 0], [1, 1]], [[2, 2], [3, 3]]]),
+    ]));
+    expect(geometries.map(geometry => geometry?.type)).toEqual(['Point', 'LineString', 'MultiLineString']);
+    expect(geometries[0]).toEqual({ type: 'Point', coordinates: [-75, 25] });
+  });
+});
+
+describe('parseDbf', () => {
+  it('parses typed values and keeps deleted records as empty rows', () => {
+    const rows = parseDbf(buildDbf(
+      [{ name: 'STORMNAME', type: 'C', length: 10 }, { name: 'ADVISNUM', type: 'N', length: 4 }, { name: 'ADVDATE', type: 'D', length: 8 }, { name: 'ACTIVE', type: 'L', length: 1 }],
+      [
+        { values: ['MILTON', '12', '20241008', 'T'] },
+        { deleted: true, values: ['GONE', '1', '20241001', 'F'] },
+        { values: ['', '****', '', '?'] },
+      ]
+    ));
+
+    expect(rows).toEqual([
+      { STORMNAME: 'MILTON', ADVISNUM: 12, ADVDATE: '2024-10-08', ACTIVE: true },
+      {},
+      { STORMNAME: null, ADVISNUM: null, ADVDATE: null, ACTIVE: null },
+    ]);
+  });
+});
+
+describe('shapefileZipToFeatures', () => {
+  it('tags features with their layer and attributes and skips projected layers', async () => {
+    const zip = new JSZip();
+    zip.file('al142024_5day_pgn.shp', buildShp([partsRecord(5, [OUTER, HOLE])]));
+    zip.file('al142024_5day_pgn.dbf', buildDbf([{ name: 'STORMNAME', type: 'C', length: 10 }], [{ values: ['MILTON'] }]));
+    zip.file('al142024_5day_pgn.prj', 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984"]]');
+    zip.file('mercator.shp', buildShp([pointRecord([1, 1])]));
+    zip.file('mercator.prj', 'PROJCS["WGS_1984_Web_Mercator",GEOGCS["GCS_WGS_1984"]]');
+
+    const features = await shapefileZipToFeatures(await zip.generateAsync({ type: 'arraybuffer' }));
+    expect(features).toHaveLength(1);
+    expect(features![0].properties).toEqual({ STORMNAME: 'MILTON', layer: 'al142024_5day_pgn' });
+  });
+
+  it('returns null when the zip holds no shapefile', async () => {
+    const zip = new JSZip();
+    zip.file('readme.txt', 'nothing here');
+    expect(await shapefileZipToFeatures(await zip.generateAsync({ type: 'arraybuffer' }))).toBeNull();
+  });
+});
+
+describe('isGeographicPrj', () => {
+  it('accepts geographic and rejects projected coordinate systems', () => {
+    expect(isGeographicPrj('GEOGCS["GCS_WGS_1984"]')).toBe(true);
+    expect(isGeographicPrj(' PROJCS["NAD_1983_UTM_Zone_17N"]')).toBe(false);
+  });
+});
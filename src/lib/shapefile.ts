@@ -0,0 +1,234 @@
+import JSZip from 'jszip';
+
+// Zipped ESRI shapefiles, as NHC publishes most GIS products next to their KMZs.
+// Each layer is a .shp (geometry), .dbf (attributes) and optional .prj (coordinate
+// system) sharing a base name; NHC archives often hold several, e.g. the cone zip's
+// _5day_pgn, _5day_lin, _5day_pts and _ww_wwlin layers.
+
+type Position = number[];
+
+// Shape types; the Z (+10) and M (+20) variants share the 2D layout up front
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+const SHAPE_MULTIPOINT = 8;
+
+const SHP_HEADER_BYTES = 100;
+
+function readPoints(view: DataView, offset: number, count: number): Position[] {
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([view.getFloat64(offset + i * 16, true), view.getFloat64(offset + i * 16 + 8, true)]);
+  }
+  return points;
+}
+
+// Parts of a PolyLine or Polygon record, each a list of positions
+function readParts(view: DataView, offset: number): Position[][] {
+  const numParts = view.getInt32(offset + 36, true);
+  const numPoints = view.getInt32(offset + 40, true);
+  const pointsOffset = offset + 44 + numParts * 4;
+  const starts = Array.from({ length: numParts }, (_, i) => view.getInt32(offset + 44 + i * 4, true));
+
+  return starts.map((start, i) => readPoints(view, pointsOffset + start * 16, (starts[i + 1] ?? numPoints) - start));
+}
+
+// Twice the signed area; shapefile outer rings are clockwise (negative), holes counterclockwise
+function signedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area;
+}
+
+function ringContains(ring: Position[], [x, y]: Position): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Groups rings into polygons: each hole goes to the first outer ring containing it
+function ringsToPolygon(rings: Position[][]): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  const polygons: Position[][][] = [];
+  const holes: Position[][] = [];
+
+  rings.filter(ring => ring.length >= 4).forEach(ring => {
+    if (signedArea(ring) < 0) polygons.push([ring]);
+    else holes.push(ring);
+  });
+
+  holes.forEach(hole => {
+    const owner = polygons.find(polygon => ringContains(polygon[0], hole[0]));
+    // A counterclockwise ring outside every outer ring is an outer ring drawn the wrong way
+    if (owner) owner.push(hole);
+    else polygons.push([hole]);
+  });
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function readGeometry(view: DataView, offset: number): GeoJSON.Geometry | null {
+  const shapeType = view.getInt32(offset, true);
+  if (shapeType === SHAPE_NULL) return null;
+
+  switch (shapeType % 10) {
+    case SHAPE_POINT:
+      return { type: 'Point', coordinates: readPoints(view, offset + 4, 1)[0] };
+    case SHAPE_MULTIPOINT: {
+      const points = readPoints(view, offset + 40, view.getInt32(offset + 36, true));
+      return points.length === 1 ? { type: 'Point', coordinates: points[0] } : { type: 'MultiPoint', coordinates: points };
+    }
+    case SHAPE_POLYLINE: {
+      const parts = readParts(view, offset).filter(part => part.length >= 2);
+      if (parts.length === 0) return null;
+      return parts.length === 1 ? { type: 'LineString', coordinates: parts[0] } : { type: 'MultiLineString', coordinates: parts };
+    }
+    case SHAPE_POLYGON:
+      return ringsToPolygon(readParts(view, offset));
+    default:
+      return null; // MultiPatch and other 3D types
+  }
+}
+
+// Geometries in record order; null where a record has no shape
+export function parseShp(buffer: ArrayBuffer): Array<GeoJSON.Geometry | null> {
+  const view = new DataView(buffer);
+  const geometries: Array<GeoJSON.Geometry | null> = [];
+
+  // Record headers are big-endian: record number, then content length in 16-bit words
+  let offset = SHP_HEADER_BYTES;
+  while (offset + 8 <= view.byteLength) {
+    const contentBytes = view.getInt32(offset + 4, false) * 2;
+    if (contentBytes <= 0 || offset + 8 + contentBytes > view.byteLength) break;
+    geometries.push(readGeometry(view, offset + 8));
+    offset += 8 + contentBytes;
+  }
+
+  return geometries;
+}
+
+type DbfValue = string | number | boolean | null;
+
+/**
+ * Attribute rows of a dBASE file in record order. Numbers are parsed, dates become
+ * YYYY-MM-DD, logicals booleans, and blanks null. Deleted records stay as empty rows
+ * so rows still line up with the .shp records.
+ */
+export function parseDbf(buffer: ArrayBuffer, encoding: string = 'latin1'): Array<Record<string, DbfValue>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder(encoding);
+
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  // Field descriptors are 32 bytes each, ended by 0x0D
+  const fields: Array<{ name: string; type: string; offset: number; length: number }> = [];
+  let fieldOffset = 1; // Past the deletion flag
+  for (let offset = 32; offset + 32 <= headerLength && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    const length = bytes[offset + 16];
+    fields.push({
+      name: decoder.decode(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)).trim(),
+      type: String.fromCharCode(bytes[offset + 11]),
+      offset: fieldOffset,
+      length
+    });
+    fieldOffset += length;
+  }
+
+  const rows: Array<Record<string, DbfValue>> = [];
+  for (let i = 0; i < numRecords; i++) {
+    const recordOffset = headerLength + i * recordLength;
+    if (recordOffset + recordLength > bytes.length) break;
+
+    const row: Record<string, DbfValue> = {};
+    if (bytes[recordOffset] !== 0x2a) { // '*' marks a deleted record
+      fields.forEach(field => {
+        const raw = decoder.decode(bytes.subarray(recordOffset + field.offset, recordOffset + field.offset + field.length)).trim();
+        row[field.name] = parseDbfValue(raw, field.type);
+      });
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function parseDbfValue(raw: string, type: string): DbfValue {
+  if (raw === '' || /^\*+$/.test(raw)) return null;
+
+  switch (type) {
+    case 'N':
+    case 'F': {
+      const number = parseFloat(raw);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'D': {
+      const date = raw.match(/^(\d{4})(\d{2})(\d{2})$/);
+      return date ? `${date[1]}-${date[2]}-${date[3]}` : raw;
+    }
+    case 'L':
+      return /^[TtYy]$/.test(raw) ? true : /^[FfNn]$/.test(raw) ? false : null;
+    default:
+      return raw;
+  }
+}
+
+// Only geographic (longitude/latitude) layers can be served as GeoJSON without reprojecting
+export const isGeographicPrj = (wkt: string) => !/^\s*PROJCS\[/i.test(wkt);
+
+/**
+ * Features of every shapefile layer in a zip, each tagged with its layer (base file
+ * name) and carrying its .dbf attributes. Layers with a projected .prj are skipped.
+ * Returns null if the zip holds no .shp at all.
+ */
+export async function shapefileZipToFeatures(zipBuffer: ArrayBuffer): Promise<GeoJSON.Feature[] | null> {
+  const zip = new JSZip();
+  const contents = await zip.loadAsync(zipBuffer);
+
+  // Files of each layer by lower-case extension, keyed by path without extension
+  const layers = new Map<string, Record<string, JSZip.JSZipObject>>();
+  Object.values(contents.files).forEach(file => {
+    const match = file.name.match(/^(.*)\.(shp|dbf|prj|cpg)$/i);
+    if (file.dir || !match || /(^|\/)__MACOSX\//.test(file.name)) return;
+    const layerFiles = layers.get(match[1]) ?? {};
+    layerFiles[match[2].toLowerCase()] = file;
+    layers.set(match[1], layerFiles);
+  });
+
+  const shapefiles = Array.from(layers.entries()).filter(([, files]) => files.shp);
+  if (shapefiles.length === 0) return null;
+
+  const features: GeoJSON.Feature[] = [];
+  for (const [path, files] of shapefiles) {
+    if (files.prj && !isGeographicPrj(await files.prj.async('text'))) continue;
+
+    const encoding = files.cpg && /utf-?8/i.test(await files.cpg.async('text')) ? 'utf-8' : 'latin1';
+    const geometries = parseShp(await files.shp.async('arraybuffer'));
+    const rows = files.dbf ? parseDbf(await files.dbf.async('arraybuffer'), encoding) : [];
+    const layer = path.split('/').pop() ?? path;
+
+    geometries.forEach((geometry, index) => {
+      if (!geometry) return;
+      features.push({
+        type: 'Feature',
+        geometry,
+        properties: { ...rows[index], layer }
+      });
+    });
+  }
+
+  return features;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { boundsIntersect, createSpatialIndex, expandBounds, geometryBounds } from '@/lib/spatialIndex';
+
+describe('geometryBounds', () => {
+  it('spans all longitudes for a geometry crossing the antimeridian', () => {
+    const bounds = geometryBounds({ type: 'LineString', coordinates: [[175, 10], [-175, 12]] });
+    expect(bounds).toEqual({ west: -180, south: 10, east: 180, north: 12 });
+  });
+});
+
+describe('expandBounds', () => {
+  it('pads past ±180 without wrapping', () => {
+    const bounds = expandBounds({ west: 170, south: 0, east: 179, north: 0 }, 333.57);
+    expect(bounds.east).toBeCloseTo(182, 1);
+    expect(bounds.south).toBeCloseTo(-3, 1);
+  });
+
+  it('spans all longitudes when the pad reaches a pole', () => {
+    expect(expandBounds({ west: 0, south: 85, east: 10, north: 89 }, 200)).toMatchObject({ west: -180, east: 180, north: 90 });
+  });
+});
+
+describe('boundsIntersect', () => {
+  it('matches boxes that meet across the antimeridian', () => {
+    expect(boundsIntersect({ west: 170, south: 0, east: 182, north: 10 }, { west: -179, south: 5, east: -170, north: 6 })).toBe(true);
+    expect(boundsIntersect({ west: 170, south: 0, east: 179, north: 10 }, { west: -179, south: 5, east: -170, north: 6 })).toBe(false);
+  });
+});
+
+describe('createSpatialIndex', () => {
+  const items = [
+    { id: 'dateline', bounds: { west: 175, south: 0, east: 185, north: 10 } },
+    { id: 'atlantic', bounds: { west: -80, south: 20, east: -70, north: 30 } },
+  ];
+  const index = createSpatialIndex(items, item => item.bounds);
+
+  it('finds a box padded past 180° from positions on both sides of the antimeridian', () => {
+    expect(index.query(178, 5).map(item => item.id)).toEqual(['dateline']);
+    expect(index.query(-176, 5).map(item => item.id)).toEqual(['dateline']);
+    expect(index.query(-170, 5)).toEqual([]);
+  });
+
+  it('answers point and box queries in item order', () => {
+    expect(index.query(-75, 25).map(item => item.id)).toEqual(['atlantic']);
+    expect(index.queryBounds({ west: -180, south: -90, east: 180, north: 90 }).map(item => item.id)).toEqual(['dateline', 'atlantic']);
+    expect(index.queryBounds({ west: -179, south: 1, east: -178, north: 2 }).map(item => item.id)).toEqual(['dateline']);
+  });
+});
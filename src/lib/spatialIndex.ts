@@ -0,0 +1,144 @@
+import { BalloonDataPoint } from '@/types';
+
+// Grid buckets over geometry bounding boxes, so the analysis only runs exact geodesic
+// checks for balloon positions that could be near a storm. Boxes are padded by the risk
+// threshold; a position outside every padded box cannot be within the threshold.
+
+export interface BoundingBox {
+  west: number; // May run past ±180 when padded across the antimeridian
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface SpatialIndex<T> {
+  query(longitude: number, latitude: number): T[];
+  queryBounds(bounds: BoundingBox): T[];
+}
+
+const KM_PER_DEGREE_LATITUDE = 111.19; // On turf's 6371 km sphere, rounded down so pads never fall short
+const CELL_DEGREES = 2;
+const COLUMNS = 360 / CELL_DEGREES;
+
+// Box of every position in a geometry. A box wider than a hemisphere is taken to cross
+// the antimeridian and spans all longitudes.
+export function geometryBounds(geometry: GeoJSON.Geometry): BoundingBox {
+  const bounds: BoundingBox = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+
+  const visit = (coordinates: unknown): void => {
+    if (!Array.isArray(coordinates)) return;
+    if (typeof coordinates[0] === 'number') {
+      const [longitude, latitude] = coordinates as number[];
+      bounds.west = Math.min(bounds.west, longitude);
+      bounds.east = Math.max(bounds.east, longitude);
+      bounds.south = Math.min(bounds.south, latitude);
+      bounds.north = Math.max(bounds.north, latitude);
+      return;
+    }
+    coordinates.forEach(visit);
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach(g => visit((g as GeoJSON.Point).coordinates));
+  } else {
+    visit(geometry.coordinates);
+  }
+
+  if (bounds.east - bounds.west > 180) {
+    bounds.west = -180;
+    bounds.east = 180;
+  }
+  return bounds;
+}
+
+export function pointsBounds(points: Array<Pick<BalloonDataPoint, 'latitude' | 'longitude'>>): BoundingBox {
+  return geometryBounds({ type: 'MultiPoint', coordinates: points.map(p => [p.longitude, p.latitude]) });
+}
+
+export function unionBounds(boxes: BoundingBox[]): BoundingBox {
+  return {
+    west: Math.min(...boxes.map(box => box.west)),
+    south: Math.min(...boxes.map(box => box.south)),
+    east: Math.max(...boxes.map(box => box.east)),
+    north: Math.max(...boxes.map(box => box.north))
+  };
+}
+
+/**
+ * Box grown by `km` on every side. Longitude padding uses the degree length at the
+ * box's most poleward edge, so the box never undershoots; boxes reaching a pole span
+ * all longitudes.
+ */
+export function expandBounds(bounds: BoundingBox, km: number): BoundingBox {
+  const latitudePad = km / KM_PER_DEGREE_LATITUDE;
+  const south = Math.max(-90, bounds.south - latitudePad);
+  const north = Math.min(90, bounds.north + latitudePad);
+
+  const cosine = Math.cos(Math.max(Math.abs(south), Math.abs(north)) * Math.PI / 180);
+  const longitudePad = cosine > 0.01 ? latitudePad / cosine : Infinity;
+  if (bounds.east - bounds.west + 2 * longitudePad >= 360) {
+    return { west: -180, south, east: 180, north };
+  }
+  return { west: bounds.west - longitudePad, south, east: bounds.east + longitudePad, north };
+}
+
+// Whether the longitude, shifted by whole turns to just east of the box's west edge, is inside it
+const inLongitudes = (bounds: BoundingBox, longitude: number) =>
+  ((longitude - bounds.west) % 360 + 360) % 360 + bounds.west <= bounds.east;
+
+export function boundsContain(bounds: BoundingBox, longitude: number, latitude: number): boolean {
+  return latitude >= bounds.south && latitude <= bounds.north && inLongitudes(bounds, longitude);
+}
+
+export function boundsIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  if (a.south > b.north || b.south > a.north) return false;
+  return [0, -360, 360].some(shift => a.west + shift <= b.east && b.west <= a.east + shift);
+}
+
+const columnOf = (longitude: number) =>
+  ((Math.floor((longitude + 180) / CELL_DEGREES) % COLUMNS) + COLUMNS) % COLUMNS;
+const rowOf = (latitude: number) =>
+  Math.min(180 / CELL_DEGREES - 1, Math.floor((latitude + 90) / CELL_DEGREES));
+
+// Grid cells a box covers, wrapping columns across the antimeridian
+function cellsOf(bounds: BoundingBox): string[] {
+  const columnCount = Math.min(COLUMNS, Math.floor((bounds.east + 180) / CELL_DEGREES) - Math.floor((bounds.west + 180) / CELL_DEGREES) + 1);
+  const firstColumn = columnOf(bounds.west);
+  const cells: string[] = [];
+  for (let row = rowOf(bounds.south); row <= rowOf(bounds.north); row++) {
+    for (let i = 0; i < columnCount; i++) {
+      cells.push(`${(firstColumn + i) % COLUMNS}:${row}`);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Index of items by their bounding boxes. Queries return the items whose box contains
+ * the position (or meets the box), in the order the items were given.
+ */
+export function createSpatialIndex<T>(items: T[], boundsOf: (item: T) => BoundingBox): SpatialIndex<T> {
+  const boxes = items.map(boundsOf);
+  const buckets = new Map<string, number[]>();
+  boxes.forEach((box, index) => {
+    cellsOf(box).forEach(cell => {
+      const bucket = buckets.get(cell);
+      if (bucket) bucket.push(index);
+      else buckets.set(cell, [index]);
+    });
+  });
+
+  const collect = (indices: Iterable<number>, matches: (box: BoundingBox) => boolean) =>
+    [...new Set(indices)].sort((a, b) => a - b).filter(index => matches(boxes[index])).map(index => items[index]);
+
+  return {
+    query: (longitude, latitude) => collect(
+      buckets.get(`${columnOf(longitude)}:${rowOf(latitude)}`) ?? [],
+      box => boundsContain(box, longitude, latitude)
+    ),
+    queryBounds: (bounds) => collect(
+      cellsOf(bounds).flatMap(cell => buckets.get(cell) ?? []),
+      box => boundsIntersect(box, bounds)
+    )
+  };
+}
@@ -1,4 +1,19 @@
-import { StormCone, StormTrack } from '@/types';
+import {
+  AdvisoryStormSummary,
+  CoastalWatchWarning,
+  ForecastPoint,
+  HistoricalStormSummary,
+  ModelTrack,
+  StormAdvisory,
+  StormBasin,
+  StormCone,
+  StormData,
+  StormTrack,
+  WindField,
+  WindProbabilityContour
+} from '@/types';
+import { parseForecastPoints } from '@/lib/forecastTrack';
+import { AdvisoryPosition, buildWindFields, createWindRadiiPolygon } from '@/lib/windRadii';
 
 
 
@@ -27,6 +42,7 @@ interface NHCStorm {
   windSpeedProbabilities: {
     url: string;
     issuance: string;
+    kmzFile?: string;
   };
   track: {
     url: string;
@@ -35,46 +51,89 @@ interface NHCStorm {
   windWatchesWarnings: {
     url: string;
     issuance: string;
+    kmzFile?: string;
   };
   cone: {
     url: string;
     issuance: string;
   };
+  // GIS products; CurrentStorms.json only lists the ones issued for the latest advisory
+  trackCone?: NHCGisProduct;
+  forecastTrack?: NHCGisProduct;
+  forecastGraphics?: NHCGisProduct & { url?: string };
 }
 
-export async function fetchActiveStorms(): Promise<{ cones: StormCone[], tracks: StormTrack[], isRealData: boolean }> {
+interface NHCGisProduct {
+  advNum?: string;
+  issuance?: string;
+  kmzFile?: string;
+  zipFile?: string;
+}
+
+export const EMPTY_STORM_DATA: StormData = {
+  cones: [],
+  tracks: [],
+  windFields: [],
+  windProbabilities: [],
+  watchesWarnings: [],
+  modelTracks: []
+};
+
+// baseUrl lets server-side callers reach the API routes; the browser uses relative URLs
+export async function fetchActiveStorms(baseUrl: string = ''): Promise<StormData & { isRealData: boolean }> {
   try {
-    // First, get the list of active storms
-    const activeStormsResponse = await fetch('/api/nhc-storms');
-    
-    if (!activeStormsResponse.ok) {
-      return { ...generateMockStormData(), isRealData: false };
-    }
+    // First, get the list of active storms, plus other basins from ATCF decks
+    const [activeStormsResponse, atcfStorms] = await Promise.all([
+      fetch(`${baseUrl}/api/nhc-storms`),
+      fetchAtcfStorms(baseUrl)
+    ]);
     
-    const activeStorms: NHCStorm[] = await activeStormsResponse.json();
+    const activeStorms: NHCStorm[] = activeStormsResponse.ok ? (await activeStormsResponse.json()) ?? [] : [];
     
-    if (!activeStorms || activeStorms.length === 0) {
+    if (activeStorms.length === 0 && atcfStorms.cones.length === 0) {
       return { ...generateMockStormData(), isRealData: false };
     }
     
     // Process each active storm
-    const cones: StormCone[] = [];
-    const tracks: StormTrack[] = [];
+    const cones: StormCone[] = [...atcfStorms.cones];
+    const tracks: StormTrack[] = [...atcfStorms.tracks];
+    const windFields: WindField[] = [...atcfStorms.windFields];
+    const watchesWarnings: CoastalWatchWarning[] = [];
+    const modelTracks: ModelTrack[] = [...atcfStorms.modelTracks];
     
     for (const storm of activeStorms) {
       try {
-        // Get cone and track data
-        const cone = createSimpleConeFromPoint(storm);
+        // Official cone of uncertainty, from the full-resolution shapefile if NHC listed one,
+        // then the KMZ, or an estimated circle if NHC hasn't published one
+        const coneZipUrl = storm.trackCone?.zipFile;
+        const coneKmzUrl = getConeKmzUrl(storm);
+        const cone = (coneZipUrl && await fetchCone(storm, `${baseUrl}/api/nhc-shapefile?layer=5day_pgn&url=${encodeURIComponent(coneZipUrl)}`))
+          || (coneKmzUrl && await fetchCone(storm, `${baseUrl}/api/nhc-kmz?url=${encodeURIComponent(coneKmzUrl)}`))
+          || createSimpleConeFromPoint(storm);
         cones.push(cone);
 
         // Try to get forecast track from KMZ
-        const trackUrl = (storm as { forecastTrack?: { kmzFile?: string } }).forecastTrack?.kmzFile;
+        const trackUrl = storm.forecastTrack?.kmzFile;
         if (trackUrl) {
-          const track = await fetchTrackFromKMZ(storm, trackUrl);
+          const track = await fetchTrackFromKMZ(storm, trackUrl, baseUrl);
           if (track) {
             tracks.push(track);
           }
         }
+
+        // Wind radii from the forecast advisory text
+        if (storm.forecastAdvisory?.url) {
+          windFields.push(...await fetchWindFields(storm, storm.forecastAdvisory.url, baseUrl));
+        }
+
+        // Coastal watches and warnings
+        const watchesWarningsUrl = storm.windWatchesWarnings?.kmzFile ?? storm.windWatchesWarnings?.url;
+        if (watchesWarningsUrl && /\.kmz$/i.test(watchesWarningsUrl)) {
+          watchesWarnings.push(...await fetchWatchesWarnings(storm, watchesWarningsUrl, baseUrl));
+        }
+
+        // Model guidance from the storm's a-deck
+        modelTracks.push(...await fetchModelTracks(storm, baseUrl));
       } catch {
         // Storm processing failed, continue with next storm
       }
@@ -84,15 +143,87 @@ export async function fetchActiveStorms(): Promise<{ cones: StormCone[], tracks:
       return { ...generateMockStormData(), isRealData: false };
     }
     
-    return { cones, tracks, isRealData: true };
+    // The probability product covers the whole NHC area, so it is fetched once
+    const windProbabilities = activeStorms.length === 0 ? [] : await fetchWindProbabilities(
+      activeStorms.find(storm => storm.windSpeedProbabilities?.kmzFile)?.windSpeedProbabilities.kmzFile,
+      baseUrl
+    );
+
+    return { cones, tracks, windFields, windProbabilities, watchesWarnings, modelTracks, isRealData: true };
     
   } catch {
     return { ...generateMockStormData(), isRealData: false };
   }
 }
 
+// Storms available in the local HURDAT2 archive for backtesting
+export async function fetchHistoricalStorms(baseUrl: string = ''): Promise<HistoricalStormSummary[]> {
+  try {
+    const response = await fetch(`${baseUrl}/api/historical-storms`);
+    if (!response.ok) return [];
+
+    const storms = await response.json();
+    return Array.isArray(storms) ? storms : [];
+  } catch {
+    return [];
+  }
+}
+
+// Best track of a historical storm between from and to (ISO timestamps)
+export async function fetchHistoricalStormData(
+  id: string,
+  from: string,
+  to: string,
+  baseUrl: string = ''
+): Promise<StormData | null> {
+  try {
+    const params = new URLSearchParams({ id, from, to });
+    const response = await fetch(`${baseUrl}/api/historical-storms?${params.toString()}`);
+    if (!response.ok) return null;
+
+    const { cones, tracks, windFields, windProbabilities, watchesWarnings, modelTracks } = await response.json();
+    return { cones, tracks, windFields, windProbabilities, watchesWarnings, modelTracks };
+  } catch {
+    return null;
+  }
+}
+
+// Storms with recorded advisory history
+export async function fetchAdvisoryStorms(baseUrl: string = ''): Promise<AdvisoryStormSummary[]> {
+  try {
+    const response = await fetch(`${baseUrl}/api/storm-advisories`);
+    if (!response.ok) return [];
+
+    const storms = await response.json();
+    return Array.isArray(storms) ? storms : [];
+  } catch {
+    return [];
+  }
+}
+
+// Every recorded advisory of one storm, oldest first
+export async function fetchStormAdvisories(stormId: string, baseUrl: string = ''): Promise<StormAdvisory[]> {
+  try {
+    const response = await fetch(`${baseUrl}/api/storm-advisories?stormId=${encodeURIComponent(stormId)}`);
+    if (!response.ok) return [];
+
+    const advisories = await response.json();
+    return Array.isArray(advisories) ? advisories : [];
+  } catch {
+    return [];
+  }
+}
+
+// Recorded advisories of every storm in the cones, which places each storm in the past
+// for the time-matched intersection analysis
+export async function fetchAdvisoryHistory(cones: StormCone[], baseUrl: string = ''): Promise<StormAdvisory[]> {
+  const stormIds = [...new Set(cones.map(cone => cone.id))];
+  const histories = await Promise.all(stormIds.map(stormId => fetchStormAdvisories(stormId, baseUrl)));
+  return histories.flat();
+}
+
 // Mock storm data for development and testing
-export function generateMockStormData(): { cones: StormCone[], tracks: StormTrack[] } {
+export function generateMockStormData(): StormData {
   // Large Mock Hurricanes strategically positioned to test future intersections with balloon trajectories
   const mockCones: StormCone[] = [
     {
@@ -108,10 +239,12 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]]
       },
       properties: {
+        stormId: 'hurricane-mock-1',
         stormName: 'Hurricane Testing Large',
+        basin: 'AL',
         advisoryNumber: '15A',
         dateTime: new Date().toISOString(),
-        maxWindSpeed: 140
+        maxWindSpeed: 120
       }
     },
     {
@@ -127,10 +260,12 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]]
       },
       properties: {
+        stormId: 'hurricane-mock-2',
         stormName: 'Hurricane Pacific Giant',
+        basin: 'EP',
         advisoryNumber: '08A',
         dateTime: new Date().toISOString(),
-        maxWindSpeed: 110
+        maxWindSpeed: 100
       }
     },
     {
@@ -146,15 +281,17 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]]
       },
       properties: {
+        stormId: 'hurricane-mock-3',
         stormName: 'Hurricane Continental Test',
+        basin: 'AL',
         advisoryNumber: '22A',
         dateTime: new Date().toISOString(),
-        maxWindSpeed: 160
+        maxWindSpeed: 140
       }
     }
   ];
 
-  const mockTracks: StormTrack[] = [
+  const mockTrackShapes: Omit<StormTrack, 'forecastPoints'>[] = [
     {
       id: 'track-mock-1',
       name: 'Hurricane Testing Large Track',
@@ -166,9 +303,11 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]
       },
       properties: {
+        stormId: 'hurricane-mock-1',
         stormName: 'Hurricane Testing Large',
+        basin: 'AL',
         category: 'Category 4',
-        maxWindSpeed: 140
+        maxWindSpeed: 120
       }
     },
     {
@@ -182,9 +321,11 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]
       },
       properties: {
+        stormId: 'hurricane-mock-2',
         stormName: 'Hurricane Pacific Giant',
+        basin: 'EP',
         category: 'Category 3',
-        maxWindSpeed: 110
+        maxWindSpeed: 100
       }
     },
     {
@@ -198,19 +339,138 @@ export function generateMockStormData(): { cones: StormCone[], tracks: StormTrac
         ]
       },
       properties: {
+        stormId: 'hurricane-mock-3',
         stormName: 'Hurricane Continental Test',
+        basin: 'AL',
         category: 'Category 5',
-        maxWindSpeed: 160
+        maxWindSpeed: 140
+      }
+    }
+  ];
+
+  // Forecast points every 12 hours along each mock track, starting now
+  const mockTracks: StormTrack[] = mockTrackShapes.map(track => ({
+    ...track,
+    forecastPoints: createMockForecastPoints(track)
+  }));
+
+  // Wind fields around each mock storm's current position
+  const mockWindFields = mockTracks.flatMap(track => {
+    const [longitude, latitude] = track.geometry.coordinates[0];
+    const current: AdvisoryPosition = {
+      validTime: new Date().toISOString(),
+      forecastHour: 0,
+      latitude,
+      longitude,
+      maxWindKt: track.forecastPoints[0]?.maxWindKt ?? null,
+      windRadii: {
+        34: { ne: 180, se: 150, sw: 100, nw: 130 },
+        50: { ne: 90, se: 70, sw: 50, nw: 60 },
+        64: { ne: 45, se: 35, sw: 25, nw: 30 }
       }
+    };
+    return buildWindFields(track.properties.stormId, track.properties.stormName, [current]);
+  });
+
+  // Tropical-storm-force wind probability bands around the same positions
+  const mockWindProbabilities: WindProbabilityContour[] = mockTracks.flatMap(track => {
+    const [longitude, latitude] = track.geometry.coordinates[0];
+    return [[5, 400], [20, 300], [50, 200], [80, 100]].map(([probability, radiusNm]) => ({
+      threshold: 34 as const,
+      probability,
+      label: `${probability}%`,
+      geometry: createWindRadiiPolygon(latitude, longitude, { ne: radiusNm, se: radiusNm, sw: radiusNm, nw: radiusNm })
+    }));
+  });
+
+  // Coastal segments along the southeastern US, in the path of the large Atlantic mock
+  const mockWatchesWarnings: CoastalWatchWarning[] = [
+    {
+      id: 'hurricane-mock-1-hurricane-warning-1',
+      stormName: 'Hurricane Testing Large',
+      type: 'hurricane-warning',
+      geometry: { type: 'LineString', coordinates: [[-80.1, 25.8], [-80.0, 26.7], [-80.2, 27.5], [-80.6, 28.4]] }
+    },
+    {
+      id: 'hurricane-mock-1-hurricane-watch-1',
+      stormName: 'Hurricane Testing Large',
+      type: 'hurricane-watch',
+      geometry: { type: 'LineString', coordinates: [[-80.6, 28.4], [-81.0, 29.5], [-81.3, 30.4]] }
+    },
+    {
+      id: 'hurricane-mock-1-tropical-storm-warning-1',
+      stormName: 'Hurricane Testing Large',
+      type: 'tropical-storm-warning',
+      geometry: { type: 'LineString', coordinates: [[-81.3, 30.4], [-81.1, 31.5], [-80.4, 32.4]] }
+    },
+    {
+      id: 'hurricane-mock-1-tropical-storm-watch-1',
+      stormName: 'Hurricane Testing Large',
+      type: 'tropical-storm-watch',
+      geometry: { type: 'LineString', coordinates: [[-80.4, 32.4], [-79.2, 33.2], [-78.0, 33.9]] }
     }
   ];
 
-  return { cones: mockCones, tracks: mockTracks };
+  // Guidance fanning out from each mock track, spreading further with forecast hour
+  const mockModelSpreads: Array<[string, number]> = [['OFCL', 0], ['AVNI', 1.5], ['EMXI', -1.5], ['HWFI', 3], ['CMCI', -3]];
+  const mockModelTracks: ModelTrack[] = mockTracks.flatMap(track => mockModelSpreads.map(([model, spread]) => {
+    const lastIndex = track.forecastPoints.length - 1;
+    const forecastPoints = track.forecastPoints.map((point, index) => ({
+      ...point,
+      latitude: point.latitude + spread * index / lastIndex,
+      longitude: point.longitude - spread * 0.5 * index / lastIndex
+    }));
+    return {
+      id: `${track.id}-${model}`,
+      stormId: track.properties.stormId,
+      stormName: track.properties.stormName,
+      basin: track.properties.basin,
+      model,
+      initTime: forecastPoints[0].validTime,
+      geometry: { type: 'LineString' as const, coordinates: forecastPoints.map(point => [point.longitude, point.latitude]) },
+      forecastPoints
+    };
+  }));
+
+  return {
+    cones: mockCones,
+    tracks: mockTracks,
+    windFields: mockWindFields,
+    windProbabilities: mockWindProbabilities,
+    watchesWarnings: mockWatchesWarnings,
+    modelTracks: mockModelTracks
+  };
+}
+
+// Storms in the non-NHC basins, already converted by /api/atcf-storms
+async function fetchAtcfStorms(baseUrl: string = ''): Promise<StormData> {
+  try {
+    const response = await fetch(`${baseUrl}/api/atcf-storms`);
+    if (!response.ok) return EMPTY_STORM_DATA;
+
+    const { cones, tracks, windFields, modelTracks } = await response.json();
+    return { ...EMPTY_STORM_DATA, cones: cones ?? [], tracks: tracks ?? [], windFields: windFields ?? [], modelTracks: modelTracks ?? [] };
+  } catch {
+    return EMPTY_STORM_DATA;
+  }
+}
+
+async function fetchModelTracks(storm: NHCStorm, baseUrl: string = ''): Promise<ModelTrack[]> {
+  try {
+    const query = `stormId=${encodeURIComponent(storm.id)}&stormName=${encodeURIComponent(storm.name)}`;
+    const response = await fetch(`${baseUrl}/api/atcf-models?${query}`);
+    if (!response.ok) return [];
+
+    const { modelTracks } = await response.json();
+    return modelTracks ?? [];
+  } catch {
+    return [];
+  }
 }
 
-async function fetchTrackFromKMZ(storm: NHCStorm, kmzUrl: string): Promise<StormTrack | null> {
+async function fetchTrackFromKMZ(storm: NHCStorm, kmzUrl: string, baseUrl: string = ''): Promise<StormTrack | null> {
   try {
-    const response = await fetch(`/api/nhc-kmz?url=${encodeURIComponent(kmzUrl)}`);
+    const response = await fetch(`${baseUrl}/api/nhc-kmz?url=${encodeURIComponent(kmzUrl)}`);
     if (!response.ok) return null;
 
     const geoJson = await response.json();
@@ -223,17 +483,135 @@ async function fetchTrackFromKMZ(storm: NHCStorm, kmzUrl: string): Promise<Storm
       name: `${storm.name} Forecast Track`,
       geometry: trackFeature.geometry,
       properties: {
+        stormId: storm.id,
         stormName: storm.name,
+        basin: getNhcBasin(storm),
         category: storm.classification,
         maxWindSpeed: storm.intensity
-      }
+      },
+      forecastPoints: parseForecastPoints(geoJson.features)
     };
       } catch {
       return null;
     }
 }
 
-// Create a simple cone from storm center point
+async function fetchWindFields(storm: NHCStorm, advisoryUrl: string, baseUrl: string = ''): Promise<WindField[]> {
+  try {
+    const response = await fetch(`${baseUrl}/api/nhc-advisory?url=${encodeURIComponent(advisoryUrl)}`);
+    if (!response.ok) return [];
+
+    const { positions } = await response.json();
+    return buildWindFields(storm.id, storm.name, positions ?? []);
+  } catch {
+    return [];
+  }
+}
+
+async function fetchWindProbabilities(kmzUrl: string | undefined, baseUrl: string = ''): Promise<WindProbabilityContour[]> {
+  try {
+    const query = kmzUrl ? `threshold=34&url=${encodeURIComponent(kmzUrl)}` : 'threshold=34';
+    const response = await fetch(`${baseUrl}/api/nhc-wind-probabilities?${query}`);
+    if (!response.ok) return [];
+
+    const geoJson = await response.json();
+    return (geoJson.features ?? []).map((f: { properties: Omit<WindProbabilityContour, 'geometry'>; geometry: GeoJSON.Polygon }) => ({
+      ...f.properties,
+      geometry: f.geometry
+    }));
+  } catch {
+    return [];
+  }
+}
+
+async function fetchWatchesWarnings(storm: NHCStorm, kmzUrl: string, baseUrl: string = ''): Promise<CoastalWatchWarning[]> {
+  try {
+    const query = `url=${encodeURIComponent(kmzUrl)}&stormId=${encodeURIComponent(storm.id)}&stormName=${encodeURIComponent(storm.name)}`;
+    const response = await fetch(`${baseUrl}/api/nhc-watches-warnings?${query}`);
+    if (!response.ok) return [];
+
+    const geoJson = await response.json();
+    return (geoJson.features ?? []).map((f: { properties: Omit<CoastalWatchWarning, 'geometry'>; geometry: GeoJSON.LineString }) => ({
+      ...f.properties,
+      geometry: f.geometry
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function createMockForecastPoints(track: Omit<StormTrack, 'forecastPoints'>): ForecastPoint[] {
+  const now = Date.now();
+  return track.geometry.coordinates.map(([longitude, latitude], index) => ({
+    validTime: new Date(now + index * 12 * 60 * 60 * 1000).toISOString(),
+    forecastHour: index * 12,
+    latitude,
+    longitude,
+    maxWindKt: track.properties.maxWindSpeed,
+    pressureMb: null,
+    classification: 'Hurricane'
+  }));
+}
+
+// NHC storm IDs start with their basin, e.g. 'al052019' or 'ep142023'
+function getNhcBasin(storm: NHCStorm): StormBasin {
+  const basin = storm.id.slice(0, 2).toUpperCase();
+  return basin === 'EP' || basin === 'CP' ? basin : 'AL';
+}
+
+// Cone KMZ for the latest advisory, from whichever entry carries one
+function getConeKmzUrl(storm: NHCStorm): string | null {
+  const candidates = [
+    storm.trackCone?.kmzFile,
+    storm.cone?.url,
+    storm.forecastGraphics?.kmzFile,
+    storm.forecastGraphics?.url
+  ];
+  return candidates.find(url => !!url && /\.kmz$/i.test(url)) ?? null;
+}
+
+// Cone polygons from one of our GIS routes (nhc-kmz or nhc-shapefile)
+async function fetchCone(storm: NHCStorm, routeUrl: string): Promise<StormCone | null> {
+  try {
+    const response = await fetch(routeUrl);
+    if (!response.ok) return null;
+
+    const geoJson = await response.json();
+    // Shapefile polygons with several outer rings arrive as MultiPolygons
+    const polygons: GeoJSON.Polygon[] = (geoJson.features ?? [])
+      .map((f: { geometry?: GeoJSON.Geometry }) => f.geometry)
+      .flatMap((geometry: GeoJSON.Geometry | undefined): GeoJSON.Polygon[] =>
+        geometry?.type === 'Polygon'
+          ? [geometry]
+          : geometry?.type === 'MultiPolygon'
+            ? geometry.coordinates.map(coordinates => ({ type: 'Polygon', coordinates }))
+            : []
+      );
+
+    if (polygons.length === 0) return null;
+
+    return {
+      id: storm.id,
+      name: storm.name,
+      geometry: polygons.length === 1
+        ? polygons[0]
+        : { type: 'MultiPolygon', coordinates: polygons.map(polygon => polygon.coordinates) },
+      properties: {
+        stormId: storm.id,
+        stormName: storm.name,
+        basin: getNhcBasin(storm),
+        advisoryNumber: storm.trackCone?.advNum ?? 'Current',
+        dateTime: storm.trackCone?.issuance ?? storm.lastUpdate,
+        maxWindSpeed: storm.intensity
+      }
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Fallback when no official cone is available: a circle around the storm center whose
+// size depends only on intensity. Marked as estimated so the UI can say so.
 function createSimpleConeFromPoint(storm: NHCStorm): StormCone {
   const lat = storm.latitudeNumeric;
   const lon = storm.longitudeNumeric;
@@ -266,10 +644,13 @@ function createSimpleConeFromPoint(storm: NHCStorm): StormCone {
       coordinates: [points]
     },
     properties: {
+      stormId: storm.id,
       stormName: storm.name,
+      basin: getNhcBasin(storm),
       advisoryNumber: 'Current',
       dateTime: storm.lastUpdate,
-      maxWindSpeed: intensity
+      maxWindSpeed: intensity,
+      isEstimated: true
     }
   };
 }
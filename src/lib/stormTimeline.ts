@@ -0,0 +1,158 @@
+import { ModelTrack, StormAdvisory, StormCone, StormTrack, WindField } from '@/types';
+import { NM_TO_KM } from '@/lib/windRadii';
+import { fallbackRadiusNm } from '@/lib/bestTrack';
+import { interpolatePosition } from '@/lib/geometry';
+
+// Where a storm is, and how far it reaches, at any time its track and advisory history
+// cover. Past positions come from earlier advisories (or a best track), future ones from
+// the current forecast track; in between, positions are interpolated linearly.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A timeline is extended this far past its first and last positions, holding them still
+const TIMELINE_TOLERANCE_HOURS = 3;
+
+// Wind radii apply to positions valid within this long of them
+const WIND_FIELD_MATCH_HOURS = 1;
+
+// Radius of the NHC cone circles by forecast hour (nm): the average track error the
+// cone of uncertainty is drawn from
+const TRACK_ERROR_NM: Array<[number, number]> = [
+  [0, 0], [12, 26], [24, 39], [36, 53], [48, 67], [60, 84], [72, 100], [96, 142], [120, 200]
+];
+
+export interface StormState {
+  time: number;
+  latitude: number;
+  longitude: number;
+  maxWindKt: number | null;
+  windRadiusKm: number; // 34 kt wind extent, the largest quadrant
+  coneRadiusKm: number; // Track uncertainty at this lead time, 0 for observed positions
+}
+
+const interpolate = (from: number, to: number, fraction: number) => from + (to - from) * fraction;
+
+function trackErrorKm(leadHours: number): number {
+  if (leadHours <= 0) return 0;
+  const upper = TRACK_ERROR_NM.findIndex(([hour]) => hour >= leadHours);
+  if (upper === -1) return TRACK_ERROR_NM[TRACK_ERROR_NM.length - 1][1] * NM_TO_KM;
+
+  const [fromHour, fromRadius] = TRACK_ERROR_NM[upper - 1];
+  const [toHour, toRadius] = TRACK_ERROR_NM[upper];
+  return interpolate(fromRadius, toRadius, (leadHours - fromHour) / (toHour - fromHour)) * NM_TO_KM;
+}
+
+// Largest 34 kt radius of the wind field valid closest to the time, else a circle by intensity
+function windRadiusKm(stormId: string, time: number, maxWindKt: number | null, windFields: WindField[]): number {
+  const field = windFields
+    .filter(f => f.stormId === stormId && f.threshold === 34)
+    .map(f => ({ field: f, offset: Math.abs(new Date(f.validTime).getTime() - time) }))
+    .filter(({ offset }) => offset <= WIND_FIELD_MATCH_HOURS * HOUR_MS)
+    .sort((a, b) => a.offset - b.offset)[0]?.field;
+
+  const radiusNm = field
+    ? Math.max(field.radii.ne, field.radii.se, field.radii.sw, field.radii.nw)
+    : fallbackRadiusNm(maxWindKt);
+  return radiusNm * NM_TO_KM;
+}
+
+/**
+ * Positions of one storm, oldest first. `cones` are that storm's cones (one per advisory,
+ * or one slice per fix in a backtest), all with the same storm ID; the latest cone time is when the current track was
+ * issued, so later track positions are forecasts with growing uncertainty. Advisory history
+ * only fills in times before the current track starts. Empty if the storm has no timed track.
+ */
+export function buildStormTimeline(
+  cones: StormCone[],
+  tracks: StormTrack[],
+  windFields: WindField[] = [],
+  advisories: StormAdvisory[] = []
+): StormState[] {
+  if (cones.length === 0) return [];
+
+  const { stormId } = cones[0].properties;
+  const track = tracks.find(t => t.properties.stormId === stormId && t.forecastPoints.length > 0);
+
+  const issuedTimes = cones.map(cone => new Date(cone.properties.dateTime).getTime()).filter(Number.isFinite);
+  const current: StormState[] = (track?.forecastPoints ?? []).map(point => {
+    const time = new Date(point.validTime).getTime();
+    const issued = issuedTimes.length > 0 ? Math.max(...issuedTimes) : time;
+    return {
+      time,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      maxWindKt: point.maxWindKt,
+      windRadiusKm: windRadiusKm(stormId, time, point.maxWindKt, windFields),
+      coneRadiusKm: trackErrorKm((time - issued) / HOUR_MS)
+    };
+  }).filter(state => Number.isFinite(state.time));
+
+  const trackStart = current.length > 0 ? Math.min(...current.map(state => state.time)) : Infinity;
+
+  // Each earlier advisory's own position, for the time before the current track
+  const history: StormState[] = advisories
+    .filter(advisory => advisory.stormId === stormId)
+    .flatMap(advisory => {
+      const position = advisory.track?.forecastPoints.find(point => point.forecastHour === 0) ?? advisory.track?.forecastPoints[0];
+      const time = position ? new Date(position.validTime).getTime() : NaN;
+      if (!position || !Number.isFinite(time) || time >= trackStart) return [];
+      return [{
+        time,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        maxWindKt: position.maxWindKt,
+        windRadiusKm: fallbackRadiusNm(position.maxWindKt) * NM_TO_KM,
+        coneRadiusKm: 0
+      }];
+    });
+
+  // One state per time; several advisories can share an issuance
+  const byTime = new Map<number, StormState>();
+  [...history, ...current].forEach(state => byTime.set(state.time, state));
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+// Positions of one model's guidance track, with an extent estimated from its intensity
+export function buildModelTimeline(track: ModelTrack): StormState[] {
+  return track.forecastPoints
+    .map(point => ({
+      time: new Date(point.validTime).getTime(),
+      latitude: point.latitude,
+      longitude: point.longitude,
+      maxWindKt: point.maxWindKt,
+      windRadiusKm: fallbackRadiusNm(point.maxWindKt) * NM_TO_KM,
+      coneRadiusKm: 0
+    }))
+    .filter(state => Number.isFinite(state.time))
+    .sort((a, b) => a.time - b.time);
+}
+
+// The storm at a time, or null if the timeline doesn't reach it
+export function stormStateAt(timeline: StormState[], time: number): StormState | null {
+  if (timeline.length === 0) return null;
+
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+  const tolerance = TIMELINE_TOLERANCE_HOURS * HOUR_MS;
+  if (time < first.time) return time >= first.time - tolerance ? { ...first, time } : null;
+  if (time >= last.time) return time <= last.time + tolerance ? { ...last, time } : null;
+
+  const index = timeline.findIndex((state, i) => state.time <= time && time < timeline[i + 1].time);
+  const from = timeline[index];
+  const to = timeline[index + 1];
+  const fraction = (time - from.time) / (to.time - from.time);
+
+  // Across the antimeridian the short way round
+  const [longitude, latitude] = interpolatePosition([from.longitude, from.latitude], [to.longitude, to.latitude], fraction);
+
+  return {
+    time,
+    latitude,
+    longitude,
+    maxWindKt: from.maxWindKt !== null && to.maxWindKt !== null
+      ? interpolate(from.maxWindKt, to.maxWindKt, fraction)
+      : from.maxWindKt ?? to.maxWindKt,
+    windRadiusKm: interpolate(from.windRadiusKm, to.windRadiusKm, fraction),
+    coneRadiusKm: interpolate(from.coneRadiusKm, to.coneRadiusKm, fraction)
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { associateObservations, ObservationFrame } from '@/lib/trackAssociation';
+import { BalloonTrail } from '@/types';
+
+const frame = (hour: number, ...positions: Array<[number, number, number]>): ObservationFrame => ({
+  hour,
+  observations: positions.map(([latitude, longitude, altitude], index) => ({ latitude, longitude, altitude, index }))
+});
+
+describe('associateObservations', () => {
+  it('follows balloons by position when their array slots swap', () => {
+    const { tracks, rejectedJumps } = associateObservations([
+      frame(0, [10, 20, 15], [40, -100, 18]),
+      frame(1, [40, -99.5, 18.2], [10, 20.5, 15.1]),
+    ]);
+
+    expect(tracks).toHaveLength(2);
+    expect(rejectedJumps).toBe(0);
+    const southern = tracks.find(track => track.observations[0].latitude === 10)!;
+    expect(southern.observations.map(observation => observation.longitude)).toEqual([20, 20.5]);
+  });
+
+  it('splits a track at a jump beyond the drift gate and counts it', () => {
+    // About 1100 km in one hour
+    const { tracks, rejectedJumps } = associateObservations([frame(0, [0, 0, 15]), frame(1, [0, 10, 15])]);
+
+    expect(tracks).toHaveLength(2);
+    expect(rejectedJumps).toBe(1);
+  });
+
+  it('splits a track at a climb beyond the altitude gate', () => {
+    const { tracks } = associateObservations([frame(0, [0, 0, 5]), frame(1, [0, 0.1, 20])]);
+    expect(tracks).toHaveLength(2);
+  });
+
+  it('scales the gates with the gap and bridges up to two missing hours', () => {
+    // 1000 km over three hours is within 3 × 400 km
+    const bridged = associateObservations([frame(0, [0, 0, 15]), frame(3, [0, 9, 15])]);
+    expect(bridged.tracks).toHaveLength(1);
+
+    const tooLate = associateObservations([frame(0, [0, 0, 15]), frame(4, [0, 0.1, 15])]);
+    expect(tooLate.tracks).toHaveLength(2);
+  });
+
+  it('keeps a balloon crossing the antimeridian on one track', () => {
+    const { tracks } = associateObservations([frame(0, [30, 179.8, 15]), frame(1, [30, -179.8, 15])]);
+    expect(tracks).toHaveLength(1);
+  });
+
+  it('inherits the ID of a previous trail sharing positions', () => {
+    const previous: BalloonTrail[] = [{
+      balloonId: 'balloon-kept',
+      points: [{ latitude: 10, longitude: 20, altitude: 15, timestamp: '2024-09-10T11:00:00.000Z', balloonId: 'balloon-kept' }],
+      color: '#ff0000'
+    }];
+
+    const { tracks } = associateObservations([frame(0, [10, 20, 15]), frame(1, [10, 20.5, 15])], previous);
+    expect(tracks[0].balloonId).toBe('balloon-kept');
+
+    const fresh = associateObservations([frame(0, [10, 20, 15])]);
+    expect(fresh.tracks[0].balloonId).toMatch(/^balloon-[0-9a-f]{8}$/);
+  });
+});
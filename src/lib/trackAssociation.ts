@@ -0,0 +1,193 @@
+import { BalloonTrail } from '@/types';
+
+// Associates raw hourly positions into balloon tracks.
+// The treasure files don't carry balloon IDs and their arrays shift when balloons
+// launch or terminate, so array index alone can't be trusted to identify a balloon.
+
+const MAX_DRIFT_KM_PER_HOUR = 400;    // Faster than any jet-stream drift a balloon can ride
+const MAX_CLIMB_KM_PER_HOUR = 10;     // Altitude is reported in km by the treasure API
+const MAX_GAP_HOURS = 3;              // A track can bridge up to two missing hours
+const INDEX_MISMATCH_PENALTY = 0.1;   // Prefer keeping the same array slot when candidates are close
+const EARTH_RADIUS_KM = 6371;
+
+export interface RawObservation {
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  index: number;  // Position in the hourly array
+}
+
+export interface ObservationFrame {
+  hour: number;   // Hours since the start of the window, increasing with time
+  observations: RawObservation[];
+}
+
+export interface AssociatedTrack {
+  balloonId: string;
+  observations: Array<RawObservation & { hour: number }>;
+}
+
+export interface AssociationResult {
+  tracks: AssociatedTrack[];
+  rejectedJumps: number; // Array slots whose next position was outside the drift/climb gates
+}
+
+interface OpenTrack {
+  observations: Array<RawObservation & { hour: number }>;
+}
+
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLon = (lon2 - lon1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Gated cost of extending a track with an observation, or null if the move is physically implausible
+function associationCost(
+  last: RawObservation & { hour: number },
+  candidate: RawObservation,
+  hour: number
+): number | null {
+  const elapsedHours = hour - last.hour;
+  const maxDistance = MAX_DRIFT_KM_PER_HOUR * elapsedHours;
+  const maxClimb = MAX_CLIMB_KM_PER_HOUR * elapsedHours;
+
+  // Cheap latitude gate before the trig
+  if (Math.abs(candidate.latitude - last.latitude) * 111.2 > maxDistance) return null;
+
+  const altitudeChange = Math.abs(candidate.altitude - last.altitude);
+  if (altitudeChange > maxClimb) return null;
+
+  const distance = haversineKm(last.latitude, last.longitude, candidate.latitude, candidate.longitude);
+  if (distance > maxDistance) return null;
+
+  return distance / maxDistance +
+    altitudeChange / maxClimb +
+    (candidate.index === last.index ? 0 : INDEX_MISMATCH_PENALTY);
+}
+
+// Deterministic ID from a track's first fix, so the same track gets the same ID on every server
+function trackIdFromObservation(observation: RawObservation & { hour: number }): string {
+  const key = `${observation.latitude.toFixed(4)},${observation.longitude.toFixed(4)},${observation.altitude.toFixed(3)}`;
+  // FNV-1a 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `balloon-${hash.toString(16).padStart(8, '0')}`;
+}
+
+const positionKey = (latitude: number, longitude: number) => `${latitude},${longitude}`;
+
+/**
+ * Links observations across consecutive frames with a gated greedy nearest-neighbour
+ * assignment. Observations that can't be reached by any open track within the
+ * drift/climb gates start a new track, which splits trails at impossible jumps.
+ * Such jumps are counted when the array slot's previous occupant went unmatched.
+ *
+ * When `previousTrails` is given, a new track that shares positions with a previous
+ * trail inherits its ID, keeping IDs stable as the 24-hour window slides.
+ */
+export function associateObservations(
+  frames: ObservationFrame[],
+  previousTrails: BalloonTrail[] = []
+): AssociationResult {
+  const finished: OpenTrack[] = [];
+  let open: OpenTrack[] = [];
+  let rejectedJumps = 0;
+
+  [...frames].sort((a, b) => a.hour - b.hour).forEach(frame => {
+    const { hour } = frame;
+
+    // Close tracks that have gone quiet for too long
+    const stillOpen: OpenTrack[] = [];
+    open.forEach(track => {
+      const last = track.observations[track.observations.length - 1];
+      if (hour - last.hour > MAX_GAP_HOURS) {
+        finished.push(track);
+      } else {
+        stillOpen.push(track);
+      }
+    });
+    open = stillOpen;
+
+    // Collect all gated candidate pairs and assign greedily from the cheapest
+    const candidates: Array<{ trackIndex: number; observationIndex: number; cost: number }> = [];
+    open.forEach((track, trackIndex) => {
+      const last = track.observations[track.observations.length - 1];
+      frame.observations.forEach((observation, observationIndex) => {
+        const cost = associationCost(last, observation, hour);
+        if (cost !== null) {
+          candidates.push({ trackIndex, observationIndex, cost });
+        }
+      });
+    });
+    candidates.sort((a, b) => a.cost - b.cost);
+
+    const assignedTracks = new Set<number>();
+    const assignedObservations = new Set<number>();
+    candidates.forEach(({ trackIndex, observationIndex }) => {
+      if (assignedTracks.has(trackIndex) || assignedObservations.has(observationIndex)) return;
+      assignedTracks.add(trackIndex);
+      assignedObservations.add(observationIndex);
+      open[trackIndex].observations.push({ ...frame.observations[observationIndex], hour });
+    });
+
+    // A slot whose previous occupant went unmatched moved further than physics allows
+    const unmatchedSlots = new Set<number>();
+    open.forEach((track, trackIndex) => {
+      if (!assignedTracks.has(trackIndex)) {
+        unmatchedSlots.add(track.observations[track.observations.length - 1].index);
+      }
+    });
+
+    // Unmatched observations start new tracks
+    frame.observations.forEach((observation, observationIndex) => {
+      if (!assignedObservations.has(observationIndex)) {
+        if (unmatchedSlots.has(observation.index)) rejectedJumps++;
+        open.push({ observations: [{ ...observation, hour }] });
+      }
+    });
+  });
+
+  const tracks = [...finished, ...open];
+
+  // Previous trail ID lookup by exact reported position
+  const previousIds = new Map<string, string>();
+  previousTrails.forEach(trail => {
+    trail.points.forEach(point => {
+      previousIds.set(positionKey(point.latitude, point.longitude), trail.balloonId);
+    });
+  });
+
+  const usedIds = new Set<string>();
+  const associatedTracks = tracks.map(track => {
+    const votes = new Map<string, number>();
+    track.observations.forEach(observation => {
+      const previousId = previousIds.get(positionKey(observation.latitude, observation.longitude));
+      if (previousId) votes.set(previousId, (votes.get(previousId) ?? 0) + 1);
+    });
+
+    let balloonId = [...votes.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id)
+      .find(id => !usedIds.has(id));
+
+    if (!balloonId) {
+      const baseId = trackIdFromObservation(track.observations[0]);
+      balloonId = baseId;
+      for (let suffix = 2; usedIds.has(balloonId); suffix++) {
+        balloonId = `${baseId}-${suffix}`;
+      }
+    }
+
+    usedIds.add(balloonId);
+    return { balloonId, observations: track.observations };
+  });
+
+  return { tracks: associatedTracks, rejectedJumps };
+}
@@ -0,0 +1,45 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The archive directory is read at import time
+process.env.BALLOON_ARCHIVE_DIR = mkdtempSync(path.join(os.tmpdir(), 'balloon-archive-'));
+
+// An existing day file: 05:00 stored, 06:00 truncated
+writeFileSync(path.join(process.env.BALLOON_ARCHIVE_DIR, '2024-09-01.jsonl'), [
+  JSON.stringify({ validTime: '2024-09-01T05:00:00.000Z', fetchedAt: '2024-09-01T06:05:00.000Z', data: [[30, -60, 18]] }),
+  '{"validTime":"2024-09-01T06:00:00.000Z","fetchedAt":"2024-09-01T06:05:00.000Z","data":[[30,-6',
+].join('\n') + '\n');
+
+let archive: typeof import('@/lib/trajectoryArchive');
+
+beforeAll(async () => {
+  archive = await import('@/lib/trajectoryArchive');
+});
+
+describe('archiveSnapshots', () => {
+  it('files the same observation under the same valid time as the window slides', async () => {
+    const firstRun = Date.UTC(2024, 8, 10, 12, 5);
+    const observation = [[30, -60, 18]];
+
+    // 01.json at 12:05 and 02.json an hour later describe the same hour
+    expect(await archive.archiveSnapshots([{ hour: 1, data: observation }], firstRun)).toBe(1);
+    expect(await archive.archiveSnapshots([{ hour: 2, data: observation }], firstRun + HOUR_MS)).toBe(0);
+
+    const stored = await archive.readArchivedSnapshots(firstRun - 2 * HOUR_MS, firstRun);
+    expect(stored.map(snapshot => snapshot.validTime)).toEqual(['2024-09-10T11:00:00.000Z']);
+  });
+
+  it('skips hours already on disk and rewrites a truncated one', async () => {
+    const referenceTime = Date.UTC(2024, 8, 1, 6, 5);
+
+    expect(await archive.archiveSnapshots([{ hour: 1, data: [[30, -60, 18]] }], referenceTime)).toBe(0);
+    expect(await archive.archiveSnapshots([{ hour: 0, data: [[30, -61, 18]] }], referenceTime)).toBe(1);
+
+    const stored = await archive.readArchivedSnapshots(referenceTime - 2 * HOUR_MS, referenceTime);
+    expect(stored.map(snapshot => snapshot.validTime)).toEqual(['2024-09-01T05:00:00.000Z', '2024-09-01T06:00:00.000Z']);
+  });
+});
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HourlySnapshot, treasureValidTime } from '@/lib/balloonData';
+
+// Append-only archive of hourly treasure snapshots (server-side only).
+// One JSON-lines file per UTC day, each line one snapshot keyed by its valid hour.
+
+const ARCHIVE_DIR = process.env.BALLOON_ARCHIVE_DIR || path.join(process.cwd(), 'data', 'archive');
+
+export interface ArchivedSnapshot {
+  validTime: string;  // ISO start of the hour the snapshot describes
+  fetchedAt: string;
+  data: unknown;
+}
+
+let archivedHours: Set<number> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const dayFileName = (time: number) => `${new Date(time).toISOString().slice(0, 10)}.jsonl`;
+
+async function readDayFile(fileName: string): Promise<ArchivedSnapshot[]> {
+  try {
+    const content = await fs.readFile(path.join(ARCHIVE_DIR, fileName), 'utf8');
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as ArchivedSnapshot];
+        } catch {
+          return []; // Skip a partially written line
+        }
+      });
+  } catch {
+    return [];
+  }
+}
+
+async function listDayFiles(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(ARCHIVE_DIR);
+    return files.filter(name => name.endsWith('.jsonl')).sort();
+  } catch {
+    return [];
+  }
+}
+
+// Every line starts with its valid time (see archiveSnapshots), so the hours on disk can
+// be listed without parsing the snapshot data. A complete line ends with the record's brace.
+const VALID_TIME_PREFIX = /^\{"validTime":"([^"]+)"/;
+
+async function readDayFileHours(fileName: string): Promise<number[]> {
+  try {
+    const content = await fs.readFile(path.join(ARCHIVE_DIR, fileName), 'utf8');
+    return content.split('\n').flatMap(line => {
+      const match = line.endsWith('}') ? VALID_TIME_PREFIX.exec(line) : null;
+      return match ? [new Date(match[1]).getTime()] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+// Hours already on disk, loaded once so re-fetched hours aren't appended again
+async function getArchivedHours(): Promise<Set<number>> {
+  if (!archivedHours) {
+    const hours = new Set<number>();
+    for (const fileName of await listDayFiles()) {
+      (await readDayFileHours(fileName)).forEach(hour => hours.add(hour));
+    }
+    archivedHours = hours;
+  }
+  return archivedHours;
+}
+
+/**
+ * Appends snapshots whose valid hour isn't archived yet. The treasure window slides
+ * every hour, so most hours are seen 24 times; only the first copy is kept.
+ */
+export function archiveSnapshots(snapshots: HourlySnapshot[], referenceTime: number = Date.now()): Promise<number> {
+  const run = writeQueue.then(async () => {
+    const known = await getArchivedHours();
+    const linesByFile = new Map<string, string[]>();
+    let written = 0;
+
+    snapshots.forEach(snapshot => {
+      if (!Array.isArray(snapshot.data)) return;
+
+      const validTime = treasureValidTime(snapshot.hour, referenceTime);
+      if (known.has(validTime)) return;
+
+      const record: ArchivedSnapshot = {
+        validTime: new Date(validTime).toISOString(),
+        fetchedAt: new Date(referenceTime).toISOString(),
+        data: snapshot.data
+      };
+      const fileName = dayFileName(validTime);
+      linesByFile.set(fileName, [...(linesByFile.get(fileName) ?? []), JSON.stringify(record)]);
+      known.add(validTime);
+      written++;
+    });
+
+    if (written > 0) {
+      await fs.mkdir(ARCHIVE_DIR, { recursive: true });
+      for (const [fileName, lines] of linesByFile) {
+        await fs.appendFile(path.join(ARCHIVE_DIR, fileName), lines.join('\n') + '\n', 'utf8');
+      }
+    }
+
+    return written;
+  });
+
+  // Keep the queue alive even if this write fails
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+// Archived snapshots with a valid hour inside [from, to], oldest first
+export async function readArchivedSnapshots(from: number, to: number): Promise<ArchivedSnapshot[]> {
+  const firstDay = dayFileName(from);
+  const lastDay = dayFileName(to);
+  const byHour = new Map<number, ArchivedSnapshot>();
+
+  for (const fileName of await listDayFiles()) {
+    if (fileName < firstDay || fileName > lastDay) continue;
+
+    (await readDayFile(fileName)).forEach(snapshot => {
+      const validTime = new Date(snapshot.validTime).getTime();
+      if (validTime >= from && validTime <= to && !byHour.has(validTime)) {
+        byHour.set(validTime, snapshot);
+      }
+    });
+  }
+
+  return [...byHour.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([, snapshot]) => snapshot);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseTrajectoryFile } from '@/lib/trajectoryImport';
+
+const IMPORT_TIME = Date.UTC(2024, 8, 10, 12);
+
+describe('parseTrajectoryFile', () => {
+  it('reads quoted CSV fields with commas and doubled quotes', () => {
+    const csv = [
+      '"track",lat,lon,"alt_m"',
+      '"Launch, site 2",30.0,-60.0,18000',
+      '"Launch, site 2",30.5,-60.5,18500',
+      '"The ""other"" one",10,20,15000',
+      '"The ""other"" one",11,21,15200',
+    ].join('\r\n');
+
+    const trails = parseTrajectoryFile('track.csv', csv, IMPORT_TIME);
+
+    expect(trails).toHaveLength(2);
+    expect(trails[0].balloonId).toMatch(/^import-track-[0-9a-f]{8}-Launch,-site-2$/);
+    expect(trails[0].points[1]).toMatchObject({ latitude: 30.5, longitude: -60.5, altitude: 18.5 });
+    expect(trails[1].balloonId).toMatch(/-The-"other"-one$/);
+  });
+
+  it('reports rows with the wrong number of fields', () => {
+    const csv = 'lat,lon,alt\n30,-60,18\n30.5,-60.5\n31,-61,18,extra\n';
+    expect(() => parseTrajectoryFile('track.csv', csv)).toThrow('lines 3, 4');
+  });
+
+  it('keeps a quoted line break inside one record', () => {
+    const csv = 'name,lat,lon\n"two\nlines",30,-60\n"two\nlines",31,-61\n';
+    expect(parseTrajectoryFile('track.csv', csv, IMPORT_TIME)[0].points).toHaveLength(2);
+  });
+
+  it('gives same-named files with different content different IDs', () => {
+    const first = parseTrajectoryFile('track.csv', 'lat,lon\n30,-60\n31,-61\n', IMPORT_TIME);
+    const second = parseTrajectoryFile('track.csv', 'lat,lon\n10,20\n11,21\n', IMPORT_TIME);
+    const again = parseTrajectoryFile('track.csv', 'lat,lon\n30,-60\n31,-61\n', IMPORT_TIME);
+
+    expect(first[0].balloonId).not.toBe(second[0].balloonId);
+    expect(again[0].balloonId).toBe(first[0].balloonId);
+  });
+
+  it('takes GeoJSON point times from whichever of coordTimes and times is a list', () => {
+    const feature = {
+      type: 'Feature',
+      properties: { coordTimes: 'not a list', times: ['2024-09-10T06:00:00Z', '2024-09-10T07:00:00Z'] },
+      geometry: { type: 'LineString', coordinates: [[-60, 30, 18000], [-61, 31, 18000]] }
+    };
+
+    const [trail] = parseTrajectoryFile('track.geojson', JSON.stringify(feature), IMPORT_TIME);
+
+    expect(trail.points.map(point => point.timestamp)).toEqual(['2024-09-10T06:00:00.000Z', '2024-09-10T07:00:00.000Z']);
+  });
+});
@@ -0,0 +1,345 @@
+import { XMLParser } from 'fast-xml-parser';
+import { BalloonDataPoint, BalloonTrail } from '@/types';
+
+// Parses user trajectory files (GeoJSON, CSV, KML, GPX) into BalloonTrails.
+// Altitudes are normalized to km to match the treasure API; GeoJSON, KML and GPX
+// carry metres by convention, CSV columns are converted when they look like metres.
+
+const IMPORT_TRAIL_COLOR = '#0d9488';
+const HOUR_MS = 60 * 60 * 1000;
+
+export type TrajectoryFormat = 'geojson' | 'csv' | 'kml' | 'gpx';
+
+interface ParsedTrack {
+  name?: string;
+  points: Array<{ latitude: number; longitude: number; altitude: number; time?: string }>;
+}
+
+// Short FNV-1a 32-bit hash of the file, so same-named files from different flights get distinct IDs
+function contentHash(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const isValidPosition = (latitude: number, longitude: number) =>
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+export function detectTrajectoryFormat(fileName: string): TrajectoryFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'geojson':
+    case 'json':
+      return 'geojson';
+    case 'csv':
+      return 'csv';
+    case 'kml':
+      return 'kml';
+    case 'gpx':
+      return 'gpx';
+    default:
+      return null;
+  }
+}
+
+function parseGeoJSON(content: string): ParsedTrack[] {
+  const data = JSON.parse(content);
+  const features: GeoJSON.Feature[] = data.type === 'FeatureCollection'
+    ? data.features
+    : data.type === 'Feature'
+      ? [data]
+      : [{ type: 'Feature', properties: {}, geometry: data }];
+
+  const tracks: ParsedTrack[] = [];
+
+  features.forEach(feature => {
+    const geometry = feature.geometry;
+    const properties = feature.properties ?? {};
+    // coordTimes/times is the convention used by togeojson and most GPS exporters
+    const times: unknown[] = Array.isArray(properties.coordTimes)
+      ? properties.coordTimes
+      : Array.isArray(properties.times) ? properties.times : [];
+
+    const lines = geometry?.type === 'LineString'
+      ? [{ coordinates: geometry.coordinates, times }]
+      : geometry?.type === 'MultiLineString'
+        ? geometry.coordinates.map((coordinates, index) => ({
+            coordinates,
+            times: Array.isArray(times[index]) ? times[index] as unknown[] : []
+          }))
+        : [];
+
+    lines.forEach(line => {
+      tracks.push({
+        name: typeof properties.name === 'string' ? properties.name : undefined,
+        points: line.coordinates.map(([longitude, latitude, altitude], index) => ({
+          latitude,
+          longitude,
+          altitude: (altitude ?? 0) / 1000,
+          time: typeof line.times[index] === 'string' ? line.times[index] as string : undefined
+        }))
+      });
+    });
+  });
+
+  return tracks;
+}
+
+// Splits CSV text into records following RFC 4180: quoted fields may hold commas, line
+// breaks and doubled quotes. Each record keeps the line it starts on, and blank lines are skipped.
+function splitCSVRecords(content: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim().length > 0) {
+      records.push({ line: recordLine, cells: cells.map(value => value.trim()) });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRecord();
+      recordLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`CSV has an unterminated quoted field starting on line ${recordLine}`);
+  }
+  endRecord();
+
+  return records;
+}
+
+function parseCSV(content: string): ParsedTrack[] {
+  const records = splitCSVRecords(content);
+  if (records.length < 2) return [];
+
+  const header = records[0].cells.map(column => column.toLowerCase());
+  const findColumn = (...names: string[]) => header.findIndex(column => names.includes(column));
+
+  const latColumn = findColumn('lat', 'latitude');
+  const lonColumn = findColumn('lon', 'lng', 'long', 'longitude');
+  const altColumn = findColumn('alt', 'altitude', 'elevation', 'ele', 'alt_m', 'alt_km');
+  const timeColumn = findColumn('time', 'timestamp', 'datetime', 'date');
+  const idColumn = findColumn('id', 'track', 'track_id', 'balloon_id', 'name');
+
+  if (latColumn === -1 || lonColumn === -1) {
+    throw new Error('CSV needs lat and lon columns');
+  }
+
+  // A row with a different number of fields can't be matched to the columns reliably
+  const misshapen = records.slice(1).filter(record => record.cells.length !== header.length);
+  if (misshapen.length > 0) {
+    const lines = misshapen.slice(0, 5).map(record => record.line).join(', ');
+    throw new Error(`CSV rows on lines ${lines}${misshapen.length > 5 ? ' and more' : ''} don't match the header's ${header.length} fields`);
+  }
+
+  // Group rows by track ID so one file can hold several trajectories
+  const tracksById = new Map<string, ParsedTrack>();
+  const altitudes: number[] = [];
+
+  records.slice(1).forEach(({ cells }) => {
+    const id = idColumn !== -1 ? cells[idColumn] : '';
+    const altitude = altColumn !== -1 ? parseFloat(cells[altColumn]) : 0;
+    altitudes.push(altitude);
+
+    if (!tracksById.has(id)) {
+      tracksById.set(id, { name: id || undefined, points: [] });
+    }
+    tracksById.get(id)!.points.push({
+      latitude: parseFloat(cells[latColumn]),
+      longitude: parseFloat(cells[lonColumn]),
+      altitude: Number.isFinite(altitude) ? altitude : 0,
+      time: timeColumn !== -1 ? cells[timeColumn] : undefined
+    });
+  });
+
+  // No balloon flies above 100 km, so larger values are metres
+  const inMetres = header[altColumn] === 'alt_m' ||
+    (header[altColumn] !== 'alt_km' && altitudes.some(altitude => altitude > 100));
+  if (inMetres) {
+    tracksById.forEach(track => track.points.forEach(point => { point.altitude /= 1000; }));
+  }
+
+  return [...tracksById.values()];
+}
+
+const xmlParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', removeNSPrefix: true });
+
+function parseCoordinateTuple(tuple: string): { longitude: number; latitude: number; altitude: number } {
+  const [longitude, latitude, altitude] = tuple.trim().split(/[\s,]+/).map(Number);
+  return { longitude, latitude, altitude: (altitude || 0) / 1000 };
+}
+
+// Collect every Placemark below a KML node, however deeply foldered
+function collectPlacemarks(node: unknown, placemarks: Record<string, unknown>[] = []): Record<string, unknown>[] {
+  if (!node || typeof node !== 'object') return placemarks;
+  Object.entries(node as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'Placemark') {
+      placemarks.push(...asArray(value as Record<string, unknown> | Record<string, unknown>[]));
+    } else if (typeof value === 'object') {
+      asArray(value).forEach(child => collectPlacemarks(child, placemarks));
+    }
+  });
+  return placemarks;
+}
+
+function parseKML(content: string): ParsedTrack[] {
+  const data = xmlParser.parse(content);
+  const tracks: ParsedTrack[] = [];
+
+  collectPlacemarks(data.kml).forEach(placemark => {
+    const name = typeof placemark.name === 'string' ? placemark.name : undefined;
+    const geometries: Record<string, unknown>[] = [
+      placemark,
+      ...asArray(placemark.MultiGeometry as Record<string, unknown> | Record<string, unknown>[] | undefined)
+    ];
+
+    geometries.forEach(geometry => {
+      // gx:Track pairs <when> timestamps with <gx:coord> "lon lat alt" entries
+      asArray(geometry.Track as Record<string, unknown> | Record<string, unknown>[] | undefined).forEach(track => {
+        const whens = asArray(track.when as string | string[] | undefined);
+        const coords = asArray(track.coord as string | string[] | undefined);
+        tracks.push({
+          name,
+          points: coords.map((coord, index) => ({ ...parseCoordinateTuple(coord), time: whens[index] }))
+        });
+      });
+
+      asArray(geometry.LineString as Record<string, unknown> | Record<string, unknown>[] | undefined).forEach(line => {
+        const coordinates = String(line.coordinates ?? '').trim();
+        if (!coordinates) return;
+        tracks.push({ name, points: coordinates.split(/\s+/).map(tuple => parseCoordinateTuple(tuple)) });
+      });
+    });
+  });
+
+  return tracks;
+}
+
+function parseGPX(content: string): ParsedTrack[] {
+  const data = xmlParser.parse(content);
+  const tracks: ParsedTrack[] = [];
+
+  asArray(data.gpx?.trk).forEach((track: Record<string, unknown>) => {
+    const name = typeof track.name === 'string' ? track.name : undefined;
+    asArray(track.trkseg as Record<string, unknown> | Record<string, unknown>[] | undefined).forEach(segment => {
+      tracks.push({
+        name,
+        points: asArray(segment.trkpt as Record<string, unknown> | Record<string, unknown>[] | undefined).map(point => ({
+          latitude: Number(point['@_lat']),
+          longitude: Number(point['@_lon']),
+          altitude: (Number(point.ele) || 0) / 1000,
+          time: typeof point.time === 'string' ? point.time : undefined
+        }))
+      });
+    });
+  });
+
+  // Routes have no timestamps but are still useful trajectories
+  asArray(data.gpx?.rte).forEach((route: Record<string, unknown>) => {
+    tracks.push({
+      name: typeof route.name === 'string' ? route.name : undefined,
+      points: asArray(route.rtept as Record<string, unknown> | Record<string, unknown>[] | undefined).map(point => ({
+        latitude: Number(point['@_lat']),
+        longitude: Number(point['@_lon']),
+        altitude: (Number(point.ele) || 0) / 1000
+      }))
+    });
+  });
+
+  return tracks;
+}
+
+/**
+ * Parses an imported trajectory file into trails tagged with the file as their source.
+ * Trail IDs include a hash of the content, so re-importing the same file replaces its
+ * trails while a different file with the same name adds new ones. Points without
+ * timestamps are spaced one hour apart ending at import time, matching the hourly
+ * cadence the analysis expects.
+ */
+export function parseTrajectoryFile(fileName: string, content: string, importTime: number = Date.now()): BalloonTrail[] {
+  const format = detectTrajectoryFormat(fileName);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${fileName}`);
+  }
+
+  const parsers: Record<TrajectoryFormat, (text: string) => ParsedTrack[]> = {
+    geojson: parseGeoJSON,
+    csv: parseCSV,
+    kml: parseKML,
+    gpx: parseGPX
+  };
+
+  const baseName = `${fileName.replace(/\.[^.]+$/, '')}-${contentHash(content)}`;
+  const trails: BalloonTrail[] = [];
+
+  parsers[format](content).forEach((track, trackIndex) => {
+    const validPoints = track.points.filter(point => isValidPosition(point.latitude, point.longitude));
+    if (validPoints.length < 2) return;
+
+    const suffix = track.name ? track.name : `${trackIndex + 1}`;
+    let balloonId = `import-${baseName}-${suffix}`.replace(/\s+/g, '-');
+    if (trails.some(trail => trail.balloonId === balloonId)) {
+      balloonId = `${balloonId}-${trackIndex + 1}`;
+    }
+
+    const points: BalloonDataPoint[] = validPoints.map((point, index) => {
+      const parsedTime = point.time ? new Date(point.time).getTime() : NaN;
+      const time = Number.isFinite(parsedTime)
+        ? parsedTime
+        : importTime - (validPoints.length - 1 - index) * HOUR_MS;
+      return {
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: point.altitude,
+        timestamp: new Date(time).toISOString(),
+        balloonId
+      };
+    });
+
+    points.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    trails.push({ balloonId, points, color: IMPORT_TRAIL_COLOR, source: fileName });
+  });
+
+  if (trails.length === 0) {
+    throw new Error(`No trajectories with at least two valid points found in ${fileName}`);
+  }
+
+  return trails;
+}
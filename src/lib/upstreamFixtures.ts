@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Record-and-replay wrapper around fetch for upstream services (server-side only).
+//   UPSTREAM_MODE=live    always call the live service (default)
+//   UPSTREAM_MODE=record  call the live service and save every response as a fixture
+//   UPSTREAM_MODE=replay  serve saved fixtures only, never touching the network
+
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+export const RECORDED_AT_HEADER = 'X-Upstream-Recorded-At';
+
+const FIXTURES_DIR = process.env.UPSTREAM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'upstream');
+
+interface UpstreamFixture {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  recordedAt: string;
+  bodyBase64: string;
+}
+
+export function getUpstreamMode(): UpstreamMode {
+  const mode = process.env.UPSTREAM_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+// Readable, filesystem-safe fixture name that is still unique per method and URL
+function fixtureFileName(method: string, url: string): string {
+  let hash = 0x811c9dc5;
+  const key = `${method} ${url}`;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  const slug = url.replace(/^https?:\/\//, '').replace(/[^a-zA-Z0-9.-]+/g, '_').slice(0, 120);
+  return `${method.toLowerCase()}-${slug}-${hash.toString(16).padStart(8, '0')}.json`;
+}
+
+function fixtureToResponse(fixture: UpstreamFixture): Response {
+  const headers = new Headers({ [RECORDED_AT_HEADER]: fixture.recordedAt });
+  if (fixture.contentType) headers.set('Content-Type', fixture.contentType);
+
+  // HEAD responses and 204/304 can't carry a body
+  const hasBody = fixture.method !== 'HEAD' && fixture.status !== 204 && fixture.status !== 304;
+  return new Response(hasBody ? Buffer.from(fixture.bodyBase64, 'base64') : null, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers
+  });
+}
+
+async function recordResponse(method: string, url: string, response: Response): Promise<Response> {
+  const body = Buffer.from(await response.arrayBuffer());
+  const fixture: UpstreamFixture = {
+    method,
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    contentType: response.headers.get('Content-Type'),
+    recordedAt: new Date().toISOString(),
+    bodyBase64: body.toString('base64')
+  };
+
+  await fs.mkdir(FIXTURES_DIR, { recursive: true });
+  await fs.writeFile(path.join(FIXTURES_DIR, fixtureFileName(method, url)), JSON.stringify(fixture), 'utf8');
+
+  return fixtureToResponse(fixture);
+}
+
+/**
+ * Drop-in replacement for fetch() in API routes. In replay mode a missing fixture
+ * answers 504 so callers take their usual upstream-failure path.
+ */
+export async function upstreamFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const mode = getUpstreamMode();
+
+  if (mode === 'replay') {
+    try {
+      const content = await fs.readFile(path.join(FIXTURES_DIR, fixtureFileName(method, url)), 'utf8');
+      return fixtureToResponse(JSON.parse(content));
+    } catch {
+      return new Response(null, { status: 504, statusText: 'No recorded fixture' });
+    }
+  }
+
+  const response = await fetch(url, init);
+  return mode === 'record' ? recordResponse(method, url, response) : response;
+}
+
+// Original recording time of a replayed or recorded response, if any
+export function getRecordedAt(response: Response): number | null {
+  const recordedAt = response.headers.get(RECORDED_AT_HEADER);
+  const time = recordedAt ? new Date(recordedAt).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { assessVerticalRisk, estimateStormVerticalExtent } from '@/lib/verticalRisk';
+
+describe('estimateStormVerticalExtent', () => {
+  it('puts major hurricane tops above the tropical tropopause', () => {
+    expect(estimateStormVerticalExtent(100, 15)).toEqual({ stormTopKm: 17.5, outflowBaseKm: 14.5 });
+    expect(estimateStormVerticalExtent(80, -15)).toEqual({ stormTopKm: 16.5, outflowBaseKm: 13.5 });
+  });
+
+  it('lowers the tops for weaker storms and higher latitudes', () => {
+    expect(estimateStormVerticalExtent(50, 45).stormTopKm).toBeCloseTo(11 * 0.87);
+    expect(estimateStormVerticalExtent(80, 32.5).stormTopKm).toBeCloseTo(13.75);
+  });
+
+  it('changes structure at 34, 64 and 96 kt', () => {
+    expect(estimateStormVerticalExtent(33, 15).stormTopKm).toBeCloseTo(16.5 * 0.75);
+    expect(estimateStormVerticalExtent(34, 15).stormTopKm).toBeCloseTo(16.5 * 0.87);
+    expect(estimateStormVerticalExtent(63, 15).stormTopKm).toBeCloseTo(16.5 * 0.87);
+    expect(estimateStormVerticalExtent(64, 15).stormTopKm).toBe(16.5);
+    expect(estimateStormVerticalExtent(95, 15).stormTopKm).toBe(16.5);
+    expect(estimateStormVerticalExtent(96, 15).stormTopKm).toBe(17.5);
+  });
+
+  it('treats a storm of unknown intensity as a depression', () => {
+    expect(estimateStormVerticalExtent(null, 15)).toEqual(estimateStormVerticalExtent(20, 15));
+    expect(estimateStormVerticalExtent(null, 15).stormTopKm).toBeCloseTo(16.5 * 0.75);
+  });
+
+  it('treats negative and NaN winds as a depression instead of failing', () => {
+    expect(estimateStormVerticalExtent(-5, 15)).toEqual(estimateStormVerticalExtent(null, 15));
+    expect(estimateStormVerticalExtent(NaN, 15)).toEqual(estimateStormVerticalExtent(null, 15));
+    expect(assessVerticalRisk(13, NaN, 15).band).toBe('above-storm');
+  });
+});
+
+describe('assessVerticalRisk', () => {
+  // Major hurricane at 15N: outflow from 14.5 km, tops at 17.5 km
+  it('switches bands at the outflow base and the storm top', () => {
+    expect(assessVerticalRisk(14.49, 100, 15)).toMatchObject({ band: 'convective', weight: 1 });
+    expect(assessVerticalRisk(14.5, 100, 15)).toMatchObject({ band: 'outflow', weight: 0.5 });
+    expect(assessVerticalRisk(17.5, 100, 15)).toMatchObject({ band: 'outflow', weight: 0.5 });
+    expect(assessVerticalRisk(17.6, 100, 15)).toMatchObject({ band: 'above-storm', weight: 0.25 });
+  });
+
+  it('fades the weight above the tops down to a floor', () => {
+    expect(assessVerticalRisk(22.5, 100, 15).weight).toBe(0.05);
+    expect(assessVerticalRisk(40, 100, 15).weight).toBe(0.05);
+    expect(assessVerticalRisk(20, 100, 15).weight).toBe(0.15);
+  });
+
+  it('counts unknown altitudes as convective and uses the weakest structure for unknown intensity', () => {
+    expect(assessVerticalRisk(NaN, 100, 15).band).toBe('convective');
+    expect(assessVerticalRisk(13, null, 15)).toMatchObject({ band: 'above-storm', stormTopKm: 12.375 });
+  });
+});
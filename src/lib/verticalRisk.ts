@@ -0,0 +1,63 @@
+import { AltitudeBand, VerticalRisk } from '@/types';
+
+// Rough vertical structure of a tropical cyclone, for weighing balloon altitude. Deep
+// convection reaches the tropopause once a storm is a hurricane (majors overshoot it);
+// weaker systems top out lower. The outflow layer spreads out just below the tops, and
+// above them a balloon only meets the storm's cirrus canopy.
+
+export const ALTITUDE_BAND_LABELS: Record<AltitudeBand, string> = {
+  convective: 'Convective layer',
+  outflow: 'Outflow layer',
+  'above-storm': 'Above storm tops'
+};
+
+export const ALTITUDE_BANDS: AltitudeBand[] = ['convective', 'outflow', 'above-storm'];
+
+const TROPICAL_TROPOPAUSE_KM = 16.5; // Equatorward of 20°
+const MIDLATITUDE_TROPOPAUSE_KM = 11; // Poleward of 45°
+const OUTFLOW_DEPTH_KM = 3;
+const MAJOR_OVERSHOOT_KM = 1;
+
+// Share of the tropopause height the convection reaches, by intensity (kt)
+const TOP_FRACTIONS: Array<[number, number]> = [[64, 1], [34, 0.87], [0, 0.75]];
+
+const BAND_WEIGHTS = { convective: 1, outflow: 0.5, aboveTop: 0.25, aboveMin: 0.05 };
+const ABOVE_WEIGHT_DECAY_PER_KM = 0.04;
+
+function tropopauseKm(latitude: number): number {
+  const lat = Math.abs(latitude);
+  if (lat <= 20) return TROPICAL_TROPOPAUSE_KM;
+  if (lat >= 45) return MIDLATITUDE_TROPOPAUSE_KM;
+  return TROPICAL_TROPOPAUSE_KM - (lat - 20) / 25 * (TROPICAL_TROPOPAUSE_KM - MIDLATITUDE_TROPOPAUSE_KM);
+}
+
+// Convective top and outflow base (km) of a storm of this intensity at this latitude
+export function estimateStormVerticalExtent(maxWindKt: number | null, latitude: number): { stormTopKm: number; outflowBaseKm: number } {
+  const wind = maxWindKt ?? 0;
+  // Negative or NaN winds match no row and get the weakest structure
+  const fraction = TOP_FRACTIONS.find(([minWind]) => wind >= minWind)?.[1] ?? TOP_FRACTIONS[TOP_FRACTIONS.length - 1][1];
+  const stormTopKm = tropopauseKm(latitude) * fraction + (wind >= 96 ? MAJOR_OVERSHOOT_KM : 0);
+  return { stormTopKm, outflowBaseKm: stormTopKm - OUTFLOW_DEPTH_KM };
+}
+
+/**
+ * Band and weight of a balloon at `altitudeKm` near a storm: full weight inside the
+ * convective layer, half in the outflow layer, and a weight fading with height above
+ * the tops. Unknown altitudes count as convective.
+ */
+export function assessVerticalRisk(altitudeKm: number, maxWindKt: number | null, latitude: number): VerticalRisk {
+  const { stormTopKm, outflowBaseKm } = estimateStormVerticalExtent(maxWindKt, latitude);
+  const extent = { stormTopKm, outflowBaseKm };
+
+  if (!Number.isFinite(altitudeKm) || altitudeKm < outflowBaseKm) {
+    return { band: 'convective', weight: BAND_WEIGHTS.convective, ...extent };
+  }
+  if (altitudeKm <= stormTopKm) {
+    return { band: 'outflow', weight: BAND_WEIGHTS.outflow, ...extent };
+  }
+  const weight = Math.max(BAND_WEIGHTS.aboveMin, BAND_WEIGHTS.aboveTop - (altitudeKm - stormTopKm) * ABOVE_WEIGHT_DECAY_PER_KM);
+  return { band: 'above-storm', weight: Math.round(weight * 100) / 100, ...extent };
+}
+
+// Distance divided by the band weight, so a balloon above the tops ranks as if further away
+export const weightedDistanceKm = (distanceKm: number, risk: VerticalRisk) => distanceKm / risk.weight;
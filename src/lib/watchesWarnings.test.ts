@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoastalAlertType, toWatchesWarnings } from '@/lib/watchesWarnings';
+
+const coast: GeoJSON.LineString = { type: 'LineString', coordinates: [[-80, 25], [-80, 27]] };
+
+describe('parseCoastalAlertType', () => {
+  it('reads the type from the name, then the style ID, then the description', () => {
+    expect(parseCoastalAlertType('Hurricane Warning')).toBe('hurricane-warning');
+    expect(parseCoastalAlertType('TROPICAL STORM WATCH')).toBe('tropical-storm-watch');
+    expect(parseCoastalAlertType('Segment 4', '#HWA_style')).toBe('hurricane-watch');
+    expect(parseCoastalAlertType('Segment 4', '#other', 'Tropical Storm Warning in effect')).toBe('tropical-storm-warning');
+  });
+
+  it('prefers the name over a conflicting style', () => {
+    expect(parseCoastalAlertType('Hurricane Warning', '#TWA')).toBe('hurricane-warning');
+  });
+
+  it('returns null for unknown segments', () => {
+    expect(parseCoastalAlertType('Storm Surge Warning', '#SSW')).toBeNull();
+  });
+});
+
+describe('toWatchesWarnings', () => {
+  it('keeps typed coastline lines and numbers their IDs', () => {
+    const segments = toWatchesWarnings([
+      { geometry: coast, properties: { name: 'Hurricane Warning' } },
+      { geometry: coast, properties: { name: 'Coast', styleUrl: '#TWR' } },
+      { geometry: coast, properties: { name: 'Unknown line' } },
+      { geometry: { type: 'Point', coordinates: [-80, 25] }, properties: { name: 'Hurricane Warning' } },
+    ], 'al142024', 'MILTON');
+
+    expect(segments.map(segment => [segment.id, segment.type, segment.stormName])).toEqual([
+      ['al142024-hurricane-warning-1', 'hurricane-warning', 'MILTON'],
+      ['al142024-tropical-storm-warning-2', 'tropical-storm-warning', 'MILTON'],
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { CoastalAlertType, CoastalWatchWarning } from '@/types';
+
+// Coastal watch and warning segments from the NHC watches/warnings KMZ. Each placemark is
+// a coastline line whose type is given by its name ("Hurricane Warning") or style ID
+// (#HWR, #HWA, #TWR, #TWA).
+
+export const COASTAL_ALERT_LABELS: Record<CoastalAlertType, string> = {
+  'hurricane-warning': 'Hurricane Warning',
+  'hurricane-watch': 'Hurricane Watch',
+  'tropical-storm-warning': 'Tropical Storm Warning',
+  'tropical-storm-watch': 'Tropical Storm Watch'
+};
+
+const STYLE_TYPES: Record<string, CoastalAlertType> = {
+  hwr: 'hurricane-warning',
+  hwa: 'hurricane-watch',
+  twr: 'tropical-storm-warning',
+  twa: 'tropical-storm-watch'
+};
+
+interface LineFeature {
+  geometry?: GeoJSON.Geometry | null;
+  properties?: { name?: string; description?: string; styleUrl?: string } | null;
+}
+
+export const isWarning = (type: CoastalAlertType) => type.endsWith('-warning');
+
+function parseAlertText(text: string): CoastalAlertType | null {
+  const lower = text.toLowerCase();
+  const type = lower.match(/(hurricane|tropical storm) (warning|watch)/);
+  return type ? `${type[1].replace(' ', '-')}-${type[2]}` as CoastalAlertType : null;
+}
+
+// Placemark name first, then the style ID, then the description text
+export function parseCoastalAlertType(name: string, styleUrl?: string, description?: string): CoastalAlertType | null {
+  const fromName = parseAlertText(name);
+  if (fromName) return fromName;
+
+  const styleCode = styleUrl?.replace(/^#/, '').slice(0, 3).toLowerCase();
+  if (styleCode && STYLE_TYPES[styleCode]) return STYLE_TYPES[styleCode];
+
+  return description ? parseAlertText(description) : null;
+}
+
+// Segments from KMZ line features; lines of unknown type are skipped
+export function toWatchesWarnings(features: LineFeature[], stormId: string, stormName: string): CoastalWatchWarning[] {
+  const segments: CoastalWatchWarning[] = [];
+
+  features.forEach(feature => {
+    if (feature.geometry?.type !== 'LineString') return;
+    const type = parseCoastalAlertType(
+      feature.properties?.name ?? '',
+      feature.properties?.styleUrl,
+      feature.properties?.description
+    );
+    if (!type) return;
+
+    segments.push({
+      id: `${stormId}-${type}-${segments.length + 1}`,
+      stormName,
+      type,
+      geometry: feature.geometry
+    });
+  });
+
+  return segments;
+}
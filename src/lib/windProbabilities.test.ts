@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseProbabilityBand, toProbabilityContours } from '@/lib/windProbabilities';
+
+const square: GeoJSON.Polygon = { type: 'Polygon', coordinates: [[[-80, 20], [-70, 20], [-70, 30], [-80, 20]]] };
+
+describe('parseProbabilityBand', () => {
+  it('uses the lower bound of a range', () => {
+    expect(parseProbabilityBand('10-20%')).toEqual({ probability: 10, label: '10-20%' });
+    expect(parseProbabilityBand('Probability 50 - 60 %')).toEqual({ probability: 50, label: '50-60%' });
+  });
+
+  it('reads open-ended bands and single values', () => {
+    expect(parseProbabilityBand('<5%')).toEqual({ probability: 0, label: '<5%' });
+    expect(parseProbabilityBand('>=90%')).toEqual({ probability: 90, label: '>90%' });
+    expect(parseProbabilityBand('40%')).toEqual({ probability: 40, label: '40%' });
+  });
+
+  it('returns null without a percentage', () => {
+    expect(parseProbabilityBand('Wind speed probabilities')).toBeNull();
+  });
+});
+
+describe('toProbabilityContours', () => {
+  it('keeps labelled polygons, lowest probability first', () => {
+    const contours = toProbabilityContours([
+      { geometry: square, properties: { name: '50-60%' } },
+      { geometry: square, properties: { name: 'Contour', description: '<b>5-10%</b>' } },
+      { geometry: { type: 'Point', coordinates: [-75, 25] }, properties: { name: '90%' } },
+      { geometry: square, properties: { name: 'Legend' } },
+      { geometry: null, properties: { name: '20-30%' } },
+    ], 34);
+
+    expect(contours.map(contour => [contour.threshold, contour.probability, contour.label])).toEqual([
+      [34, 5, '5-10%'],
+      [34, 50, '50-60%'],
+    ]);
+    expect(contours[0].geometry).toBe(square);
+  });
+});
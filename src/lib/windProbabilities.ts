@@ -0,0 +1,51 @@
+import { WindProbabilityContour, WindThreshold } from '@/types';
+
+// NHC wind speed probability contours: the chance of sustained winds of at least
+// 34, 50 or 64 kt during the next 120 hours, as nested percentage bands.
+
+// Latest basin-wide contour products, used when a storm doesn't list its own
+export const WIND_PROBABILITY_KMZ_URLS: Record<WindThreshold, string> = {
+  34: 'https://www.nhc.noaa.gov/gis/forecast/archive/latest_wsp34knt120hr_5km.kmz',
+  50: 'https://www.nhc.noaa.gov/gis/forecast/archive/latest_wsp50knt120hr_5km.kmz',
+  64: 'https://www.nhc.noaa.gov/gis/forecast/archive/latest_wsp64knt120hr_5km.kmz'
+};
+
+interface PolygonFeature {
+  geometry?: GeoJSON.Geometry | null;
+  properties?: { name?: string; description?: string } | null;
+}
+
+/**
+ * Reads a probability band from a placemark label such as "10-20%", "<5%" or ">90%".
+ * The band's lower bound is used as its probability.
+ */
+export function parseProbabilityBand(text: string): { probability: number; label: string } | null {
+  const range = text.match(/(\d{1,3})\s*-\s*(\d{1,3})\s*%/);
+  if (range) return { probability: parseInt(range[1]), label: `${range[1]}-${range[2]}%` };
+
+  const bound = text.match(/([<>])\s*=?\s*(\d{1,3})\s*%/);
+  if (bound) {
+    return bound[1] === '>'
+      ? { probability: parseInt(bound[2]), label: `>${bound[2]}%` }
+      : { probability: 0, label: `<${bound[2]}%` };
+  }
+
+  const single = text.match(/(\d{1,3})\s*%/);
+  return single ? { probability: parseInt(single[1]), label: `${single[1]}%` } : null;
+}
+
+// Contours from KMZ polygon features, lowest probability first
+export function toProbabilityContours(features: PolygonFeature[], threshold: WindThreshold): WindProbabilityContour[] {
+  const contours: WindProbabilityContour[] = [];
+
+  features.forEach(feature => {
+    if (feature.geometry?.type !== 'Polygon') return;
+    const text = `${feature.properties?.name ?? ''} ${feature.properties?.description ?? ''}`;
+    const band = parseProbabilityBand(text);
+    if (!band) return;
+
+    contours.push({ threshold, ...band, geometry: feature.geometry });
+  });
+
+  return contours.sort((a, b) => a.probability - b.probability);
+}
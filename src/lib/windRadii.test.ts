@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { buildWindFields, createWindRadiiPolygon, parseForecastAdvisory } from '@/lib/windRadii';
+
+// A trimmed Dorian advisory, wrapped the way the NHC page serves it
+const ADVISORY = `<html><body><pre>
+HURRICANE DORIAN FORECAST/ADVISORY NUMBER  36
+NWS NATIONAL HURRICANE CENTER MIAMI FL       AL052019
+0300 UTC SAT AUG 31 2019
+
+HURRICANE CENTER LOCATED NEAR 25.5N  71.4W AT 31/0300Z
+POSITION ACCURATE WITHIN  10 NM
+
+MAX SUSTAINED WINDS 130 KT WITH GUSTS TO 160 KT.
+64 KT....... 35NE  30SE  25SW  30NW.
+50 KT....... 60NE  50SE  40SW  50NW.
+34 KT....... 120NE  90SE  70SW 100NW.
+
+REPEAT...CENTER LOCATED NEAR 25.5N  71.4W AT 31/0300Z
+
+FORECAST VALID 31/1200Z 25.9N  72.9W
+MAX WIND 135 KT...GUSTS 165 KT.
+64 KT... 40NE  30SE  25SW  30NW.
+34 KT...130NE 100SE  80SW 110NW.
+
+OUTLOOK VALID 04/0000Z 29.8N  80.2W
+MAX WIND 115 KT...GUSTS 140 KT.
+</pre></body></html>`;
+
+describe('parseForecastAdvisory', () => {
+  const positions = parseForecastAdvisory(ADVISORY);
+
+  it('reads each position once, skipping the repeated center line', () => {
+    expect(positions.map(position => [position.latitude, position.longitude])).toEqual([[25.5, -71.4], [25.9, -72.9], [29.8, -80.2]]);
+  });
+
+  it('dates positions from the issuance and rolls over into the next month', () => {
+    expect(positions.map(position => position.validTime)).toEqual([
+      '2019-08-31T03:00:00.000Z',
+      '2019-08-31T12:00:00.000Z',
+      '2019-09-04T00:00:00.000Z',
+    ]);
+    expect(positions.map(position => position.forecastHour)).toEqual([0, 9, 93]);
+  });
+
+  it('keeps intensity and quadrant radii per position', () => {
+    expect(positions[0].maxWindKt).toBe(130);
+    expect(positions[0].windRadii[64]).toEqual({ ne: 35, se: 30, sw: 25, nw: 30 });
+    expect(positions[1].windRadii[50]).toBeUndefined();
+    expect(positions[1].windRadii[34]).toEqual({ ne: 130, se: 100, sw: 80, nw: 110 });
+    expect(positions[2]).toMatchObject({ maxWindKt: 115, windRadii: {} });
+  });
+
+  it('returns nothing without an issuance line', () => {
+    expect(parseForecastAdvisory('CENTER LOCATED NEAR 25.5N 71.4W AT 31/0300Z')).toEqual([]);
+  });
+});
+
+describe('buildWindFields', () => {
+  it('builds one closed field per position and threshold with radii', () => {
+    const fields = buildWindFields('al052019', 'DORIAN', parseForecastAdvisory(ADVISORY));
+
+    expect(fields.map(field => field.id)).toEqual([
+      'al052019-34kt-0h', 'al052019-50kt-0h', 'al052019-64kt-0h', 'al052019-34kt-9h', 'al052019-64kt-9h',
+    ]);
+    const ring = fields[0].geometry.coordinates[0];
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+  });
+});
+
+describe('createWindRadiiPolygon', () => {
+  it('collapses a zero-radius quadrant onto the center', () => {
+    const ring = createWindRadiiPolygon(25, -70, { ne: 60, se: 0, sw: 0, nw: 0 }).coordinates[0];
+    expect(ring).toContainEqual([-70, 25]);
+    // The NE arc reaches about 1° north of the center
+    expect(Math.max(...ring.map(([, latitude]) => latitude))).toBeCloseTo(26, 1);
+  });
+});
@@ -0,0 +1,159 @@
+import { WindField, WindRadii, WindThreshold } from '@/types';
+import { destination } from '@/lib/geometry';
+
+// Parses wind radii out of an NHC forecast advisory (TCM) and turns them into quadrant
+// polygons. The advisory lists, for the current position and each forecast position,
+//   64 KT....... 35NE  30SE  25SW  30NW.
+// i.e. the maximum extent of each wind speed per quadrant in nautical miles.
+
+export const WIND_THRESHOLDS: WindThreshold[] = [34, 50, 64];
+
+export const NM_TO_KM = 1.852;
+const ARC_STEP_DEGREES = 10;
+const HOUR_MS = 60 * 60 * 1000;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export interface AdvisoryPosition {
+  validTime: string;
+  forecastHour: number;
+  latitude: number;
+  longitude: number;
+  maxWindKt: number | null;
+  windRadii: Partial<Record<WindThreshold, WindRadii>>;
+}
+
+const parseLatitude = (value: string, hemisphere: string) => parseFloat(value) * (hemisphere === 'S' ? -1 : 1);
+const parseLongitude = (value: string, hemisphere: string) => parseFloat(value) * (hemisphere === 'W' ? -1 : 1);
+
+// "31/0300Z" relative to the advisory issuance, rolling over into the next month if needed
+function parseDayTime(dayTime: string, issued: Date): number | null {
+  const match = dayTime.match(/(\d{2})\/(\d{2})(\d{2})Z/);
+  if (!match) return null;
+  const [, day, hour, minute] = match.map(Number);
+  const monthOffset = day < issued.getUTCDate() - 7 ? 1 : 0;
+  return Date.UTC(issued.getUTCFullYear(), issued.getUTCMonth() + monthOffset, day, hour, minute);
+}
+
+/**
+ * Parses the positions and wind radii of a forecast advisory. Accepts the plain text or
+ * the NHC HTML page around it. Positions without radii (e.g. outlook days) are kept
+ * with an empty `windRadii`.
+ */
+export function parseForecastAdvisory(content: string): AdvisoryPosition[] {
+  const pre = content.match(/<pre[^>]*>([\s\S]*?)<\/pre>/i);
+  const text = (pre ? pre[1] : content).replace(/<[^>]*>/g, '').toUpperCase();
+
+  // Issuance line, e.g. "0300 UTC SAT AUG 31 2019"
+  const issuance = text.match(/(\d{2})(\d{2}) UTC \w{3} (\w{3}) (\d{1,2}) (\d{4})/);
+  if (!issuance) return [];
+  const issued = new Date(Date.UTC(
+    parseInt(issuance[5]),
+    MONTHS.indexOf(issuance[3]),
+    parseInt(issuance[4]),
+    parseInt(issuance[1]),
+    parseInt(issuance[2])
+  ));
+  if (isNaN(issued.getTime())) return [];
+
+  const positions: Array<Omit<AdvisoryPosition, 'validTime' | 'forecastHour'> & { time: number }> = [];
+  let current: (typeof positions)[number] | null = null;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+
+    // Current position; the later "REPEAT...CENTER LOCATED" line repeats it
+    const center = line.match(/^(?!REPEAT).*CENTER LOCATED NEAR\s+([\d.]+)([NS])\s+([\d.]+)([EW]) AT (\d{2}\/\d{4}Z)/);
+    const forecast = line.match(/^(?:FORECAST|OUTLOOK) VALID (\d{2}\/\d{4}Z)\s+([\d.]+)([NS])\s+([\d.]+)([EW])/);
+
+    const fix = center
+      ? { dayTime: center[5], latitude: center[1], latHemisphere: center[2], longitude: center[3], lonHemisphere: center[4] }
+      : forecast
+        ? { dayTime: forecast[1], latitude: forecast[2], latHemisphere: forecast[3], longitude: forecast[4], lonHemisphere: forecast[5] }
+        : null;
+
+    if (fix) {
+      const time = parseDayTime(fix.dayTime, issued);
+      current = time === null ? null : {
+        time,
+        latitude: parseLatitude(fix.latitude, fix.latHemisphere),
+        longitude: parseLongitude(fix.longitude, fix.lonHemisphere),
+        maxWindKt: null,
+        windRadii: {}
+      };
+      if (current) positions.push(current);
+      return;
+    }
+
+    if (!current) return;
+
+    if (/^(?:REPEAT|FORECAST VALID|OUTLOOK VALID|EXTENDED OUTLOOK)/.test(line)) {
+      current = null;
+      return;
+    }
+
+    const maxWind = line.match(/^MAX(?:IMUM)? (?:SUSTAINED )?WINDS?\s+(\d+) KT/);
+    if (maxWind) current.maxWindKt = parseInt(maxWind[1]);
+
+    const radii = line.match(/^(34|50|64) KT\.*\s*(\d+)NE\s+(\d+)SE\s+(\d+)SW\s+(\d+)NW/);
+    if (radii) {
+      const [, threshold, ne, se, sw, nw] = radii.map(Number);
+      current.windRadii[threshold as WindThreshold] = { ne, se, sw, nw };
+    }
+  });
+
+  const advisoryTime = positions.length > 0 ? positions[0].time : issued.getTime();
+  return positions.map(({ time, ...position }) => ({
+    ...position,
+    validTime: new Date(time).toISOString(),
+    forecastHour: Math.round((time - advisoryTime) / HOUR_MS)
+  }));
+}
+
+/**
+ * One polygon per quadrant set: an arc for each of NE, SE, SW and NW at that quadrant's
+ * radius, joined radially where the radius changes. A zero radius collapses its
+ * quadrant onto the center.
+ */
+export function createWindRadiiPolygon(latitude: number, longitude: number, radii: WindRadii): GeoJSON.Polygon {
+  const quadrants = [radii.ne, radii.se, radii.sw, radii.nw];
+  const ring: number[][] = [];
+
+  quadrants.forEach((radiusNm, quadrant) => {
+    if (radiusNm <= 0) {
+      ring.push([longitude, latitude]);
+      return;
+    }
+    for (let bearing = quadrant * 90; bearing <= (quadrant + 1) * 90; bearing += ARC_STEP_DEGREES) {
+      ring.push(destination([longitude, latitude], radiusNm * NM_TO_KM, bearing));
+    }
+  });
+
+  ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+// Wind fields for every position and threshold the advisory gives radii for
+export function buildWindFields(stormId: string, stormName: string, positions: AdvisoryPosition[]): WindField[] {
+  const fields: WindField[] = [];
+
+  positions.forEach(position => {
+    WIND_THRESHOLDS.forEach(threshold => {
+      const radii = position.windRadii[threshold];
+      if (!radii || (radii.ne <= 0 && radii.se <= 0 && radii.sw <= 0 && radii.nw <= 0)) return;
+
+      fields.push({
+        id: `${stormId}-${threshold}kt-${position.forecastHour}h`,
+        stormId,
+        stormName,
+        threshold,
+        validTime: position.validTime,
+        forecastHour: position.forecastHour,
+        radii,
+        geometry: createWindRadiiPolygon(position.latitude, position.longitude, radii)
+      });
+    });
+  });
+
+  return fields;
+}
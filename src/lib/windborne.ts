@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assembleBalloonTrails, assembleTimedTrails, AssembledTrails, floorToHour, HourlySnapshot, TimedSnapshot } from '@/lib/balloonData';
+import { archiveSnapshots, readArchivedSnapshots } from '@/lib/trajectoryArchive';
+import { isArchiveEnabled } from '@/config/app';
+import { getRecordedAt, getUpstreamMode, upstreamFetch } from '@/lib/upstreamFixtures';
+
+// Server-side access to the WindBorne treasure API (used by API routes only)
+
+const WINDBORNE_BASE_URL = 'https://a.windbornesystems.com/treasure';
+const TRAILS_CACHE_TTL_MS = 5 * 60 * 1000; // Cache assembled trails for 5 minutes
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local copies of 00.json through 23.json for the file replay data source
+const REPLAY_DIR = process.env.BALLOON_REPLAY_DIR || path.join(process.cwd(), 'data', 'replay');
+
+interface CachedTrails extends AssembledTrails {
+  fetchedAt: number;
+}
+
+let cachedTrails: CachedTrails | null = null;
+let pendingTrails: Promise<CachedTrails> | null = null;
+
+export async function fetchWindborneHour(hour: number): Promise<HourlySnapshot | null> {
+  const fileName = hour.toString().padStart(2, '0');
+  
+  try {
+    const response = await upstreamFetch(`${WINDBORNE_BASE_URL}/${fileName}.json`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'BalloonRiskMap/1.0',
+      },
+      next: { revalidate: 300 }, // Cache for 5 minutes
+    });
+    
+    if (!response.ok) {
+      return null;
+    }
+    
+    const data = await response.json();
+    return { hour, data, recordedAt: getRecordedAt(response) ?? undefined };
+  } catch {
+    return null;
+  }
+}
+
+async function fetchAllHours(): Promise<HourlySnapshot[]> {
+  // Fetch last 24 hours of data (files 00.json through 23.json) in parallel
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+  const snapshots = await Promise.all(hours.map(fetchWindborneHour));
+  return snapshots.filter((snapshot): snapshot is HourlySnapshot => snapshot !== null);
+}
+
+// Replayed snapshots keep the time they were recorded at instead of now
+const snapshotsReferenceTime = (snapshots: HourlySnapshot[]) =>
+  Math.max(0, ...snapshots.map(snapshot => snapshot.recordedAt ?? 0)) || Date.now();
+
+async function loadAllTrails(): Promise<AssembledTrails> {
+  const snapshots = await fetchAllHours();
+  // Align to the hour so timestamps stay put between refreshes within the same hour
+  const referenceTime = floorToHour(snapshotsReferenceTime(snapshots));
+  
+  // Every live fetch also feeds the archive; a failed write must not break the response
+  if (isArchiveEnabled() && getUpstreamMode() !== 'replay') {
+    archiveSnapshots(snapshots, referenceTime).catch(() => undefined);
+  }
+  
+  // Hand over the previous trails so balloons keep their IDs as the window slides
+  return assembleBalloonTrails(snapshots, referenceTime, cachedTrails?.trails ?? []);
+}
+
+// Scheduled pull that archives the current window without touching the trails cache
+export async function archiveLatestSnapshots(): Promise<number> {
+  if (getUpstreamMode() === 'replay') return 0;
+  
+  const snapshots = await fetchAllHours();
+  return archiveSnapshots(snapshots, snapshotsReferenceTime(snapshots));
+}
+
+// Trails for an arbitrary time range, assembled from archived snapshots at their stored valid times
+export async function getArchivedBalloonTrails(from: number, to: number): Promise<AssembledTrails> {
+  const referenceTime = floorToHour(to);
+  const firstHourTime = Math.ceil(from / HOUR_MS) * HOUR_MS;
+  
+  const expectedTimes: number[] = [];
+  for (let time = firstHourTime; time <= referenceTime; time += HOUR_MS) {
+    expectedTimes.push(time);
+  }
+  
+  const snapshots: TimedSnapshot[] = (await readArchivedSnapshots(from, to)).map(snapshot => ({
+    validTime: new Date(snapshot.validTime).getTime(),
+    data: snapshot.data
+  }));
+  
+  return assembleTimedTrails(snapshots, expectedTimes, referenceTime, cachedTrails?.trails ?? []);
+}
+
+// Assembled trails shared by every caller until the cache expires; concurrent misses share one fan-in
+export async function getCachedBalloonTrails(): Promise<CachedTrails> {
+  if (cachedTrails && Date.now() - cachedTrails.fetchedAt < TRAILS_CACHE_TTL_MS) {
+    return cachedTrails;
+  }
+  
+  if (!pendingTrails) {
+    pendingTrails = loadAllTrails()
+      .then(assembled => {
+        const entry = { ...assembled, fetchedAt: Date.now() };
+        // Don't cache an empty result so a transient upstream outage recovers on the next request
+        if (assembled.trails.length > 0) {
+          cachedTrails = entry;
+        }
+        return entry;
+      })
+      .finally(() => {
+        pendingTrails = null;
+      });
+  }
+  
+  return pendingTrails;
+}
+
+// Trails assembled from treasure files saved locally, with the newest file mapped to now
+export async function getReplayBalloonTrails(): Promise<AssembledTrails> {
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+  const snapshots = await Promise.all(hours.map(async (hour): Promise<HourlySnapshot | null> => {
+    try {
+      const fileName = `${hour.toString().padStart(2, '0')}.json`;
+      const content = await fs.readFile(path.join(REPLAY_DIR, fileName), 'utf8');
+      return { hour, data: JSON.parse(content) };
+    } catch {
+      return null;
+    }
+  }));
+  
+  return assembleBalloonTrails(snapshots.filter((snapshot): snapshot is HourlySnapshot => snapshot !== null));
+}
@@ -10,29 +10,189 @@ export interface BalloonTrail {
   balloonId: string;
   points: BalloonDataPoint[];
   color: string;
+  source?: string; // Set for imported trails (the file name); live trails leave it empty
 }
 
+// ATCF basin codes: North Atlantic, East and Central Pacific (NHC), West Pacific,
+// North Indian Ocean and Southern Hemisphere
+export type StormBasin = 'AL' | 'EP' | 'CP' | 'WP' | 'IO' | 'SH';
+
 export interface StormCone {
   id: string;
   name: string;
   geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
   properties: {
+    stormId: string; // Same for every cone, track and wind field of one storm
     stormName: string;
+    basin: StormBasin;
     advisoryNumber: string;
     dateTime: string;
-    maxWindSpeed: number;
+    maxWindSpeed: number; // kt
+    isEstimated?: boolean; // Synthetic circle used because no official NHC cone was available
   };
 }
 
+export interface ForecastPoint {
+  validTime: string;
+  forecastHour: number; // 0 is the advisory position, negative for observed best-track fixes
+  latitude: number;
+  longitude: number;
+  maxWindKt: number | null;
+  pressureMb: number | null;
+  classification: string; // e.g. 'Hurricane', 'Tropical Storm', 'Post-Tropical Cyclone'
+}
+
 export interface StormTrack {
   id: string;
   name: string;
   geometry: GeoJSON.LineString;
   properties: {
+    stormId: string;
     stormName: string;
+    basin: StormBasin;
     category: string;
-    maxWindSpeed: number;
+    maxWindSpeed: number; // kt
   };
+  forecastPoints: ForecastPoint[]; // Ordered by valid time
+}
+
+export interface ModelTrack {
+  id: string;
+  stormId: string;
+  stormName: string;
+  basin: StormBasin;
+  model: string;    // ATCF technique, e.g. 'OFCL', 'AVNI', 'HWFI'
+  initTime: string; // Synoptic time the guidance was run from
+  geometry: GeoJSON.LineString;
+  forecastPoints: ForecastPoint[];
+}
+
+export type WindThreshold = 34 | 50 | 64; // knots
+
+export interface WindRadii {
+  ne: number; // nautical miles
+  se: number;
+  sw: number;
+  nw: number;
+}
+
+export interface WindField {
+  id: string;
+  stormId: string;
+  stormName: string;
+  threshold: WindThreshold;
+  validTime: string;
+  forecastHour: number; // 0 is the advisory position
+  radii: WindRadii;
+  geometry: GeoJSON.Polygon;
+}
+
+export interface WindProbabilityContour {
+  threshold: WindThreshold;
+  probability: number; // Lower bound of the band in percent
+  label: string;       // e.g. '10-20%'
+  geometry: GeoJSON.Polygon;
+}
+
+export type CoastalAlertType =
+  | 'hurricane-warning'
+  | 'hurricane-watch'
+  | 'tropical-storm-warning'
+  | 'tropical-storm-watch';
+
+export interface CoastalWatchWarning {
+  id: string;
+  stormName: string;
+  type: CoastalAlertType;
+  geometry: GeoJSON.LineString; // Coastline segment under the watch or warning
+}
+
+export interface StormData {
+  cones: StormCone[];
+  tracks: StormTrack[];
+  windFields: WindField[];
+  windProbabilities: WindProbabilityContour[]; // 34 kt (tropical-storm-force) contours
+  watchesWarnings: CoastalWatchWarning[];
+  modelTracks: ModelTrack[]; // Guidance tracks from ATCF a-decks
+}
+
+export interface BestTrackFix {
+  time: string;
+  latitude: number;
+  longitude: number;
+  maxWindKt: number | null;
+  pressureMb: number | null;
+  status: string;    // HURDAT2/ATCF system status, e.g. 'HU', 'TS', 'TY', 'EX'
+  recordId?: string; // e.g. 'L' for landfall
+  windRadii: Partial<Record<WindThreshold, WindRadii>>;
+}
+
+export interface HistoricalStorm {
+  id: string; // e.g. 'AL052019'
+  name: string;
+  basin: StormBasin;
+  fixes: BestTrackFix[]; // Ordered by time
+}
+
+export interface HistoricalStormSummary {
+  id: string;
+  name: string;
+  basin: StormBasin;
+  start: string;
+  end: string;
+  maxWindKt: number | null;
+}
+
+export interface BacktestWindow {
+  storm: HistoricalStormSummary;
+  from: string;
+  to: string;
+  useArchivedBalloons: boolean; // Load archived trails for the window instead of the current source
+}
+
+export interface StormAdvisory {
+  stormId: string;
+  stormName: string;
+  basin: StormBasin;
+  advisoryNumber: string;
+  issuance: string;   // Issuance time (latest best-track fix for ATCF storms)
+  recordedAt: string; // When this app first saw the advisory
+  cone: StormCone;
+  track: StormTrack | null;
+}
+
+export interface AdvisoryStormSummary {
+  stormId: string;
+  stormName: string;
+  basin: StormBasin;
+  advisoryCount: number;
+  latestIssuance: string;
+}
+
+export interface AdvisoryRisk {
+  advisoryNumber: string;
+  issuance: string;
+  atRiskBalloonIds: string[];      // Balloons with an intersection against this advisory
+  newlyAtRiskBalloonIds: string[]; // ...that no earlier advisory put at risk
+}
+
+export interface WarningCrossing {
+  balloonId: string;
+  stormName: string;
+  warningType: CoastalAlertType;
+  timestamp: string;    // When the predicted path reaches the warning area
+  hoursFromNow: number;
+  distance: number;     // km from the warned coastline at that time
+}
+
+// Where a balloon sits in the storm's vertical structure
+export type AltitudeBand = 'convective' | 'outflow' | 'above-storm';
+
+export interface VerticalRisk {
+  band: AltitudeBand;
+  weight: number;        // 0-1 multiplier on the horizontal risk; 1 in the convective layer
+  stormTopKm: number;    // Estimated convective top for the storm's intensity and latitude
+  outflowBaseKm: number; // Bottom of the outflow layer below the tops
 }
 
 export interface ProximityAlert {
@@ -42,6 +202,8 @@ export interface ProximityAlert {
   timestamp: string;
   altitude: number;
   insideForcastCone: boolean;
+  windField?: WindThreshold; // Strongest wind field the closest point is inside, if any
+  verticalRisk: VerticalRisk;
 }
 
 export interface HurricaneIntersection {
@@ -53,6 +215,84 @@ export interface HurricaneIntersection {
   altitude: number;
   insideForcastCone: boolean;
   hoursFromNow: number; // negative for past, positive for future
+  windField?: WindThreshold;
+  tsWindProbability?: number; // Percent chance of 34 kt winds at the intersection point
+  modelAgreement?: ModelAgreement; // Future intersections of storms with model guidance
+  verticalRisk: VerticalRisk;
+}
+
+export interface ModelAgreement {
+  inRange: string[]; // Models whose storm comes within the risk threshold of the predicted path at the same time
+  total: number;
 }
 
 export type FilterMode = 'all' | 'past-intersections' | 'future-intersections';
+
+export type DataQualityIssue =
+  | 'malformed-row'
+  | 'nan-field'
+  | 'swapped-lat-lon'
+  | 'out-of-range'
+  | 'negative-altitude'
+  | 'absurd-altitude'
+  | 'duplicate-point'
+  | 'speed-violation';
+
+export interface DataQualityReport {
+  generatedAt: string;
+  hoursExpected: number;
+  hoursReceived: number;
+  missingHours: number[];
+  totalRows: number;
+  acceptedRows: number; // includes repaired rows
+  repairedRows: number;
+  droppedRows: number;
+  issues: Record<DataQualityIssue, number>;
+  balloonsTracked: number;
+}
+
+export interface BalloonUpdateEvent {
+  latestTimestamp: string;
+  balloonsTracked: number;
+  trails: BalloonTrail[]; // Only points after the previous update
+}
+
+export interface StormUpdateEvent extends StormData {
+  isRealData: boolean;
+}
+
+export interface AnalysisInput {
+  trails: BalloonTrail[];
+  storms: StormData;
+  advisories: StormAdvisory[]; // Earlier advisories, placing each storm in the past
+  referenceTime?: number; // "Now" for the analysis; the current time unless given
+}
+
+export interface AnalysisResults {
+  alerts: ProximityAlert[];
+  intersections: HurricaneIntersection[];
+  warningCrossings: WarningCrossing[];
+}
+
+export interface AdvisoryRiskInput {
+  trails: BalloonTrail[];
+  advisories: StormAdvisory[]; // One storm's advisories, oldest first
+}
+
+// Messages to and from the analysis worker. Trails are analyzed in order and in batches;
+// each progress message carries the results of its batch only.
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; jobId: number; input: AnalysisInput }
+  | { type: 'analyze-advisory-risk'; jobId: number; input: AdvisoryRiskInput }
+  | { type: 'cancel'; jobId: number };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; jobId: number; completed: number; total: number; results: AnalysisResults }
+  | { type: 'advisory-risk-progress'; jobId: number; completed: number; total: number; risks: AdvisoryRisk[] }
+  | { type: 'done'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+export type LiveStreamEvent =
+  | { type: 'balloon-update'; data: BalloonUpdateEvent }
+  | { type: 'storm-update'; data: StormUpdateEvent }
+  | { type: 'alert-new'; data: HurricaneIntersection };
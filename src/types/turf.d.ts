@@ -0,0 +1,9 @@
+// @types/turf predates turf 6; this adds the turf 6.5 functions the analysis calls
+declare namespace turf {
+  interface TurfStatic {
+    lineIntersect(
+      line1: GeoJSON.Feature<GeoJSON.LineString> | GeoJSON.LineString,
+      line2: GeoJSON.Feature<GeoJSON.LineString> | GeoJSON.LineString
+    ): GeoJSON.FeatureCollection<GeoJSON.Point>;
+  }
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisInput, AnalysisWorkerRequest, AnalysisWorkerResponse, BalloonTrail, ProximityAlert, StormAdvisory } from '@/types';
+
+// One alert per analyzed trail, so each batch's results show which trails it covered
+vi.mock('@/lib/proximityAnalysis', () => ({
+  analyzeTrails: vi.fn((trails: BalloonTrail[]) => {
+    if (trails.some(trail => trail.balloonId === 'broken')) throw new Error('bad trail');
+    return {
+      alerts: trails.map(trail => ({ balloonId: trail.balloonId }) as ProximityAlert),
+      intersections: [],
+      warningCrossings: []
+    };
+  }),
+  // Every analyzed trail at risk from the first advisory
+  analyzeAdvisoryRisk: vi.fn((trails: BalloonTrail[]) => [{
+    advisoryNumber: '1',
+    issuance: '2024-10-08T03:00:00.000Z',
+    atRiskBalloonIds: trails.map(trail => trail.balloonId),
+    newlyAtRiskBalloonIds: trails.map(trail => trail.balloonId)
+  }])
+}));
+
+const EMPTY_STORMS = { cones: [], tracks: [], windFields: [], windProbabilities: [], watchesWarnings: [], modelTracks: [] };
+
+const input = (count: number, ids?: string[]): AnalysisInput => ({
+  trails: (ids ?? Array.from({ length: count }, (_, i) => `B${i}`)).map(balloonId => ({ balloonId, color: '#ffffff', points: [] })),
+  storms: EMPTY_STORMS,
+  advisories: []
+});
+
+// Stands in for the worker global: the module registers its handler here and posts back
+class FakeWorkerScope extends EventTarget {
+  responses: AnalysisWorkerResponse[] = [];
+  onResponse: (response: AnalysisWorkerResponse) => void = () => undefined;
+
+  postMessage(response: AnalysisWorkerResponse) {
+    this.responses.push(response);
+    this.onResponse(response);
+  }
+
+  send(request: AnalysisWorkerRequest) {
+    this.dispatchEvent(new MessageEvent('message', { data: request }));
+  }
+}
+
+let scope: FakeWorkerScope;
+
+const settled = (jobId: number) =>
+  vi.waitFor(() => {
+    expect(scope.responses.some(response => response.jobId === jobId && response.type !== 'progress')).toBe(true);
+  });
+
+// Lets the worker run any batches it still has queued
+const drain = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('analysis worker', () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    scope = new FakeWorkerScope();
+    vi.stubGlobal('self', scope);
+    await import('@/workers/analysis.worker');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('analyzes trails in batches of 250 and reports each batch', async () => {
+    scope.send({ type: 'analyze', jobId: 1, input: input(600) });
+    await settled(1);
+
+    expect(scope.responses.map(response => response.type)).toEqual(['progress', 'progress', 'progress', 'done']);
+    const progress = scope.responses.filter(response => response.type === 'progress');
+    expect(progress.map(response => [response.completed, response.total])).toEqual([[250, 600], [500, 600], [600, 600]]);
+    expect(progress.map(response => response.results.alerts.length)).toEqual([250, 250, 100]);
+    expect(progress[1].results.alerts[0].balloonId).toBe('B250');
+  });
+
+  it('finishes an empty job straight away', async () => {
+    scope.send({ type: 'analyze', jobId: 1, input: input(0) });
+    await settled(1);
+
+    expect(scope.responses).toEqual([{ type: 'done', jobId: 1 }]);
+  });
+
+  it('stops a cancelled job at its next batch', async () => {
+    scope.onResponse = response => {
+      if (response.type === 'progress' && response.completed === 250) scope.send({ type: 'cancel', jobId: 1 });
+    };
+    scope.send({ type: 'analyze', jobId: 1, input: input(600) });
+    await drain();
+
+    expect(scope.responses).toHaveLength(1);
+    expect(scope.responses[0]).toMatchObject({ type: 'progress', completed: 250 });
+  });
+
+  it('ignores a cancel for a job that is not running', async () => {
+    scope.send({ type: 'analyze', jobId: 2, input: input(300) });
+    scope.send({ type: 'cancel', jobId: 1 });
+    await settled(2);
+
+    expect(scope.responses.map(response => response.type)).toEqual(['progress', 'progress', 'done']);
+  });
+
+  it('lets a newer job supersede the running one', async () => {
+    scope.onResponse = response => {
+      if (response.jobId === 1 && response.type === 'progress') scope.send({ type: 'analyze', jobId: 2, input: input(300) });
+    };
+    scope.send({ type: 'analyze', jobId: 1, input: input(600) });
+    await settled(2);
+    await drain();
+
+    expect(scope.responses.filter(response => response.jobId === 1)).toHaveLength(1);
+    expect(scope.responses.filter(response => response.jobId === 2).map(response => response.type))
+      .toEqual(['progress', 'progress', 'done']);
+  });
+
+  it('runs an advisory risk job in batches alongside an analysis job', async () => {
+    const { trails } = input(300);
+    scope.send({ type: 'analyze', jobId: 1, input: input(600) });
+    scope.send({ type: 'analyze-advisory-risk', jobId: 2, input: { trails, advisories: [] as StormAdvisory[] } });
+    await settled(1);
+    await settled(2);
+
+    const risks = scope.responses.filter(response => response.type === 'advisory-risk-progress');
+    expect(risks.map(response => [response.completed, response.total])).toEqual([[250, 300], [300, 300]]);
+    expect(risks[1].risks[0].atRiskBalloonIds).toHaveLength(50);
+    expect(scope.responses.filter(response => response.jobId === 1).map(response => response.type))
+      .toEqual(['progress', 'progress', 'progress', 'done']);
+  });
+
+  it('cancels only the job it names', async () => {
+    scope.onResponse = response => {
+      if (response.jobId === 2 && response.type !== 'done') scope.send({ type: 'cancel', jobId: 2 });
+    };
+    scope.send({ type: 'analyze', jobId: 1, input: input(300) });
+    scope.send({ type: 'analyze-advisory-risk', jobId: 2, input: { trails: input(600).trails, advisories: [] } });
+    await settled(1);
+    await drain();
+
+    expect(scope.responses.filter(response => response.jobId === 2)).toHaveLength(1);
+    expect(scope.responses.filter(response => response.jobId === 1).at(-1)?.type).toBe('done');
+  });
+
+  it('reports analysis errors', async () => {
+    scope.send({ type: 'analyze', jobId: 1, input: input(0, ['B0', 'broken']) });
+    await settled(1);
+
+    expect(scope.responses).toEqual([{ type: 'error', jobId: 1, message: 'bad trail' }]);
+  });
+});
+
+describe('runAnalysis', () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    scope = new FakeWorkerScope();
+    vi.stubGlobal('self', scope);
+    await import('@/workers/analysis.worker');
+
+    // Connects the client to the worker module through the fake scope
+    const workerScope = scope;
+    vi.stubGlobal('Worker', class extends EventTarget {
+      constructor() {
+        super();
+        workerScope.onResponse = response => this.dispatchEvent(new MessageEvent('message', { data: response }));
+      }
+
+      postMessage(request: AnalysisWorkerRequest) {
+        workerScope.send(request);
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes batches to the job that asked for them', async () => {
+    const { runAnalysis } = await import('@/lib/analysisWorker');
+    const first = { onProgress: vi.fn(), onDone: vi.fn(), onError: vi.fn() };
+    const second = { onProgress: vi.fn(), onDone: vi.fn(), onError: vi.fn() };
+
+    runAnalysis(input(300), first);
+    await vi.waitFor(() => expect(first.onDone).toHaveBeenCalled());
+    runAnalysis(input(100), second);
+    await vi.waitFor(() => expect(second.onDone).toHaveBeenCalled());
+
+    expect(first.onProgress.mock.calls.map(([, completed, total]) => [completed, total])).toEqual([[250, 300], [300, 300]]);
+    expect(second.onProgress).toHaveBeenCalledTimes(1);
+    expect(second.onProgress.mock.calls[0][0].alerts).toHaveLength(100);
+  });
+
+  it('fires no callbacks after a job is cancelled', async () => {
+    const { runAnalysis } = await import('@/lib/analysisWorker');
+    const callbacks = { onProgress: vi.fn(), onDone: vi.fn(), onError: vi.fn() };
+
+    const job = runAnalysis(input(600), callbacks);
+    job.cancel();
+    await drain();
+
+    expect(callbacks.onProgress).not.toHaveBeenCalled();
+    expect(callbacks.onDone).not.toHaveBeenCalled();
+    expect(scope.responses).toEqual([]);
+  });
+
+  it('passes advisory risk batches to their own callbacks', async () => {
+    const { runAdvisoryRiskAnalysis } = await import('@/lib/analysisWorker');
+    const callbacks = { onProgress: vi.fn(), onDone: vi.fn(), onError: vi.fn() };
+
+    runAdvisoryRiskAnalysis({ trails: input(260).trails, advisories: [] }, callbacks);
+    await vi.waitFor(() => expect(callbacks.onDone).toHaveBeenCalled());
+
+    expect(callbacks.onProgress.mock.calls.map(([risks, completed]) => [risks[0].atRiskBalloonIds.length, completed]))
+      .toEqual([[250, 250], [10, 260]]);
+  });
+});
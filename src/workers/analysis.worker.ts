@@ -0,0 +1,77 @@
+import { AnalysisWorkerRequest, AnalysisWorkerResponse, BalloonTrail } from '@/types';
+import { analyzeAdvisoryRisk, analyzeTrails } from '@/lib/proximityAnalysis';
+
+// Runs the intersection analysis off the main thread. Trails go through in batches, and
+// between batches the worker yields so cancel messages and newer jobs get through.
+
+const BATCH_SIZE = 250;
+
+type JobType = Exclude<AnalysisWorkerRequest, { type: 'cancel' }>['type'];
+
+// One job of each type runs at a time; a new job supersedes the running one of its type
+const activeJobIds = new Map<JobType, number>();
+
+const post = (response: AnalysisWorkerResponse) => self.postMessage(response);
+
+async function runJob(
+  type: JobType,
+  jobId: number,
+  trails: BalloonTrail[],
+  analyzeBatch: (batch: BalloonTrail[], completed: number) => AnalysisWorkerResponse
+) {
+  activeJobIds.set(type, jobId);
+  const isActive = () => activeJobIds.get(type) === jobId;
+
+  try {
+    for (let start = 0; start < trails.length; start += BATCH_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (!isActive()) return;
+
+      const batch = trails.slice(start, start + BATCH_SIZE);
+      post(analyzeBatch(batch, start + batch.length));
+    }
+    if (isActive()) {
+      activeJobIds.delete(type);
+      post({ type: 'done', jobId });
+    }
+  } catch (error) {
+    if (isActive()) activeJobIds.delete(type);
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  const { jobId } = request;
+
+  switch (request.type) {
+    case 'cancel':
+      activeJobIds.forEach((activeJobId, type) => {
+        if (activeJobId === jobId) activeJobIds.delete(type);
+      });
+      return;
+
+    case 'analyze': {
+      const { trails, storms, advisories, referenceTime } = request.input;
+      return runJob(request.type, jobId, trails, (batch, completed) => ({
+        type: 'progress',
+        jobId,
+        completed,
+        total: trails.length,
+        results: analyzeTrails(batch, storms, advisories, referenceTime)
+      }));
+    }
+
+    case 'analyze-advisory-risk': {
+      // Each balloon's risk only depends on its own trail, so batches can be joined afterwards
+      const { trails, advisories } = request.input;
+      return runJob(request.type, jobId, trails, (batch, completed) => ({
+        type: 'advisory-risk-progress',
+        jobId,
+        completed,
+        total: trails.length,
+        risks: analyzeAdvisoryRisk(batch, advisories)
+      }));
+    }
+  }
+});